@@ -1,15 +1,48 @@
-import React, { useState, useEffect, type ErrorInfo, type ReactNode } from 'react';
+import React, { useState, useEffect, useMemo, useRef, type ErrorInfo, type ReactNode } from 'react';
 import { Snowfall } from './components/Snowfall';
 import { DoorGrid } from './components/DoorGrid';
 import { RiddleModal } from './components/RiddleModal';
-import { generateRiddleForDay } from './services/geminiService';
-import { CalendarState, Riddle } from './types';
-import { Settings, RefreshCw, AlertTriangle } from 'lucide-react';
+import { RiddlePackPanel } from './components/RiddlePackPanel';
+import { RiddleEditor } from './components/RiddleEditor';
+import { ParentPinGate } from './components/ParentPinGate';
+import { ParentPinSetup } from './components/ParentPinSetup';
+import { BatchGenerationPanel } from './components/BatchGenerationPanel';
+import { ImageStoragePanel } from './components/ImageStoragePanel';
+import { ProfilePicker } from './components/ProfilePicker';
+import { StatisticsDashboard } from './components/StatisticsDashboard';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { SyncPanel } from './components/SyncPanel';
+import { SyncStatusBadge } from './components/SyncStatusBadge';
+import { NotificationSettings } from './components/NotificationSettings';
+import { MissedDoorBanner } from './components/MissedDoorBanner';
+import { checksDoorClock, getRiddleProvider } from './services/riddleProvider';
+import { createRiddlePack, downloadRiddlePack, getPackRiddle } from './services/riddlePack';
+import { CALENDAR_CONFIG, DOOR_DAYS, getSeasonDay, getSimulatedDate, isDoorUnlocked } from './services/calendarConfig';
+import { TimeSource, getTrustedNow, getTrustedTimeState, syncTrustedTime } from './services/trustedTime';
+import { SyncOfflineError, SyncSettings, SyncStatus, claimFamilyRiddle, createFamily, fetchFamilyCalendar, getSyncFingerprint, isSyncAvailable, loadSyncSettings, pushFamilyCalendar, saveSyncSettings } from './services/syncService';
+import { mergeStores } from './services/syncMerge';
+import { getDueReminders, getMissedYesterday, getNotificationPermission, showDoorReminder } from './services/notifications';
+import { loadImage, removeUnusedImages, saveImage } from './services/imageStore';
+import { getOrCreateFamilyRiddle, shareRiddleImage } from './services/familyRiddles';
+import { GenerationFailure, generateWithFallback } from './services/riddleFallback';
+import { loadCalendarStore, loadPackSettings, saveCalendarStore, savePackSettings } from './services/calendarStorage';
+import { addProfile, createEmptyStore, getAllRiddles, getCalendarForProfile, getEffectiveDifficulty, removeProfile, resetProfile, setCalendarDifficulty, setShareRiddles, updateDoor, updateProfile } from './services/profiles';
+import { DIFFICULTIES } from './services/difficulty';
+import { I18nContext, createI18n, loadLanguage, saveLanguage } from './services/i18n';
+import { LANGUAGES, LANGUAGE_LABELS } from './services/languages';
+import { DisplaySettings, loadDisplaySettings, saveDisplaySettings, useMediaQuery } from './services/displaySettings';
+import { hasParentPin } from './services/parentPin';
+import type { Messages } from './services/i18nMessages';
+import { CalendarStore, Difficulty, DoorState, Language, Riddle, RiddlePack, RiddlePackMeta } from './types';
+import { Settings, RefreshCw, AlertTriangle, PenSquare, Users, BarChart3, Activity, Globe, Snowflake, Contrast } from 'lucide-react';
 
-const STORAGE_KEY = 'advent_calendar_progress_v1';
+const riddleProvider = getRiddleProvider();
+// ANSWER_JUDGE=true lets the model accept near-miss answers, at the cost of one call per near miss
+const answerJudge = process.env.ANSWER_JUDGE === 'true' ? riddleProvider.judgeAnswer : undefined;
 
 interface ErrorBoundaryProps {
   children?: ReactNode;
+  messages: Messages['errorBoundary'];
   onReset: () => void;
 }
 
@@ -38,11 +71,8 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
           <div className="bg-slate-900 border-2 border-red-500 rounded-xl p-6 max-w-sm text-center shadow-2xl">
             <AlertTriangle className="w-12 h-12 text-red-500 mx-auto mb-4" />
-            <h3 className="text-xl text-red-100 font-bold mb-2">Ups, ein Fehler!</h3>
-            <p className="text-slate-400 mb-6">
-              Beim Anzeigen des Rätsels ist etwas schiefgelaufen. 
-              Keine Sorge, dein Fortschritt ist sicher.
-            </p>
+            <h3 className="text-xl text-red-100 font-bold mb-2">{this.props.messages.title}</h3>
+            <p className="text-slate-400 mb-6">{this.props.messages.text}</p>
             <button
               onClick={() => {
                 this.setState({ hasError: false });
@@ -50,7 +80,7 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
               }}
               className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-6 rounded-lg transition-colors"
             >
-              Schließen & nochmal versuchen
+              {this.props.messages.retry}
             </button>
           </div>
         </div>
@@ -62,119 +92,404 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
 }
 
 const App: React.FC = () => {
-  const [currentDate, setCurrentDate] = useState<Date>(new Date());
-  const [calendarState, setCalendarState] = useState<CalendarState>({});
+  // Doors follow the trusted clock; only the PIN-protected debug menu can simulate another date
+  const [currentDate, setCurrentDate] = useState<Date>(getTrustedNow);
+  const [isDateSimulated, setIsDateSimulated] = useState(false);
+  const [timeSource, setTimeSource] = useState<TimeSource>(() => getTrustedTimeState().source);
+  const [store, setStore] = useState<CalendarStore>(createEmptyStore);
+
+  // UI texts, date formats and the language of new riddles
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  const i18n = useMemo(() => createI18n(language), [language]);
+  const { t } = i18n;
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const handleLanguageChange = (next: Language) => {
+    setLanguage(next);
+    saveLanguage(next);
+  };
+
+  // Follows the system until switched here; the classes on <html> are picked up by index.css
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(loadDisplaySettings);
+  const systemReducedMotion = useMediaQuery('(prefers-reduced-motion: reduce)');
+  const systemHighContrast = useMediaQuery('(prefers-contrast: more)');
+  const reduceMotion = displaySettings.reduceMotion ?? systemReducedMotion;
+  const highContrast = displaySettings.highContrast ?? systemHighContrast;
+  useEffect(() => {
+    document.documentElement.classList.toggle('reduce-motion', reduceMotion);
+    document.documentElement.classList.toggle('high-contrast', highContrast);
+  }, [reduceMotion, highContrast]);
+
+  const handleDisplayChange = (change: Partial<DisplaySettings>) => {
+    const next = { ...displaySettings, ...change };
+    setDisplaySettings(next);
+    saveDisplaySettings(next);
+  };
+
+  // Chosen in the profile picker on every launch
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const activeProfile = store.profiles.find(p => p.id === activeProfileId) || null;
+
+  // The active player's view: their progress plus the riddles they see
+  const calendarState = useMemo(
+    () => activeProfileId ? getCalendarForProfile(store, activeProfileId) : {},
+    [store, activeProfileId]
+  );
+
+  // Level used for new riddles: calendar-wide while riddles are shared, per profile otherwise
+  const difficulty = activeProfileId ? getEffectiveDifficulty(store, activeProfileId) : store.difficulty;
+
+  const updateDoorState = (day: number, changes: Partial<DoorState>) => {
+    if (!activeProfileId) return;
+    setStore(prev => updateDoor(prev, activeProfileId, day, changes));
+  };
+
+  // Riddle pack imported by a parent, optionally used instead of the AI
+  const [riddlePack, setRiddlePack] = useState<RiddlePack | null>(null);
+  const [usePack, setUsePack] = useState(false);
   
   // Modal State
   const [selectedDay, setSelectedDay] = useState<number | null>(null);
   const [currentRiddle, setCurrentRiddle] = useState<Riddle | null>(null);
   const [loadingRiddle, setLoadingRiddle] = useState(false);
+  const [generationFailure, setGenerationFailure] = useState<GenerationFailure | null>(null);
   
-  // Debug State
+  // Debug State (behind the parent PIN, the riddle editor is opened from there)
+  const [hasPin, setHasPin] = useState(hasParentPin);
+  const [showDebugPin, setShowDebugPin] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
 
-  // Initial Load
+  const [showStatistics, setShowStatistics] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+  // Images already written to the image store during this session
+  const savedImageKeys = useRef(new Set<string>());
+
+  // Set when stored data comes from a newer app version, so we never overwrite it
+  const isStorageReadOnly = useRef(false);
+  // Nothing is written before the stored data was read
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Initial Load (migrates and validates older saved data)
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setCalendarState(JSON.parse(stored));
-      } catch (e) {
-        console.error("Failed to parse calendar state", e);
+    try {
+      const { store: loaded, quarantined, migratedFrom } = loadCalendarStore();
+      if (migratedFrom !== undefined) {
+        console.info(`Calendar data migrated from schema ${migratedFrom}.`);
       }
+      if (quarantined.length > 0) {
+        console.warn(`${quarantined.length} broken entries were set aside, the rest of the progress is loaded.`);
+      }
+      setStore(loaded);
+    } catch (e) {
+      isStorageReadOnly.current = true;
+      console.error("Failed to load calendar state", e);
     }
+    setIsLoaded(true);
+
+    const { pack, usePack: storedUsePack } = loadPackSettings();
+    setRiddlePack(pack);
+    setUsePack(storedUsePack);
   }, []);
 
+  const persistPack = (pack: RiddlePack | null, enabled: boolean) => {
+    setRiddlePack(pack);
+    setUsePack(enabled);
+    try {
+      savePackSettings({ pack, usePack: enabled });
+    } catch (e) {
+      // Packs with many embedded images can exceed the quota; they stay usable for this session
+      console.error("LocalStorage save of riddle pack failed:", e);
+    }
+  };
+
   // Persist State (Optimized to avoid QuotaExceededError)
   useEffect(() => {
-    if (Object.keys(calendarState).length > 0) {
+    if (isLoaded && !isStorageReadOnly.current) {
       try {
-        // Create a lightweight copy of the state for storage
-        // We MUST strip the 'imageUrl' (Base64) because it's too large for localStorage (5MB limit).
-        const stateToSave: CalendarState = {};
-        
-        Object.keys(calendarState).forEach((key) => {
-          const day = Number(key);
-          const door = calendarState[day];
-          
-          if (door) {
-            stateToSave[day] = {
-              ...door,
-              riddle: door.riddle ? {
-                ...door.riddle,
-                imageUrl: undefined // REMOVE IMAGE FROM STORAGE
-              } : undefined
-            };
-          }
-        });
-
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(stateToSave));
+        // The storage layer strips images and writes the current schema version
+        saveCalendarStore(store);
       } catch (e) {
         console.error("LocalStorage save failed (likely quota exceeded):", e);
       }
+
+      // The stripped images go to IndexedDB instead, each one only once
+      getAllRiddles(store).forEach((riddle) => {
+        if (!riddle.id || !riddle.imageUrl?.startsWith('data:')) return;
+        const imageKey = `${riddle.day}:${riddle.id}:${riddle.imageUrl.length}`;
+        if (savedImageKeys.current.has(imageKey)) return;
+        savedImageKeys.current.add(imageKey);
+        saveImage(riddle.day, riddle.id, riddle.imageUrl).catch((e) => {
+          savedImageKeys.current.delete(imageKey);
+          console.error("Image store save failed:", e);
+        });
+      });
     }
-  }, [calendarState]);
+  }, [store, isLoaded]);
+
+  // Images of replaced or reset riddles are dropped once no profile has the riddle any more
+  const riddleIds = JSON.stringify(getAllRiddles(store).map(riddle => riddle.id).filter(Boolean).sort());
+  useEffect(() => {
+    if (!isLoaded || isStorageReadOnly.current) return;
+    removeUnusedImages(JSON.parse(riddleIds)).catch((e) => console.warn("Image store cleanup failed:", e));
+  }, [riddleIds, isLoaded]);
+
+  // Multi-device sync, paired with a family code in the debug menu. Local edits are saved first
+  // and pushed a moment later; the server's merged calendar is merged again with anything
+  // that changed while the request was running.
+  const [syncSettings, setSyncSettings] = useState<SyncSettings | null>(loadSyncSettings);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => loadSyncSettings() && isSyncAvailable() ? 'syncing' : 'off');
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const storeRef = useRef(store);
+  storeRef.current = store;
+  const syncSettingsRef = useRef(syncSettings);
+  syncSettingsRef.current = syncSettings;
+  const lastSyncedFingerprint = useRef<string | null>(null);
+  const isSyncing = useRef(false);
+
+  const connectSync = (familyCode: string) => {
+    const settings = { familyCode, lastSyncedAt: new Date().toISOString() };
+    saveSyncSettings(settings);
+    setSyncSettings(settings);
+    setSyncStatus('synced');
+    setSyncError(null);
+  };
+
+  const runSync = async () => {
+    const settings = syncSettingsRef.current;
+    if (!settings || !isSyncAvailable() || isSyncing.current) return;
+    isSyncing.current = true;
+    setSyncStatus('syncing');
+    try {
+      const remote = await pushFamilyCalendar(settings.familyCode, storeRef.current);
+      lastSyncedFingerprint.current = getSyncFingerprint(remote);
+      setStore(prev => {
+        const merged = mergeStores(remote, prev);
+        return getSyncFingerprint(merged) === getSyncFingerprint(prev) ? prev : merged;
+      });
+      const updated = { ...settings, lastSyncedAt: new Date().toISOString() };
+      saveSyncSettings(updated);
+      setSyncSettings(updated);
+      setSyncStatus('synced');
+      setSyncError(null);
+    } catch (e) {
+      console.warn("Sync failed:", e);
+      setSyncStatus(e instanceof SyncOfflineError ? 'offline' : 'error');
+      setSyncError(e instanceof SyncOfflineError ? null : (e instanceof Error ? e.message : String(e)));
+    } finally {
+      isSyncing.current = false;
+    }
+  };
+
+  const familyCode = syncSettings?.familyCode;
+  // Shared family calendar: with shared riddles every device of the family gets the same riddle per door
+  const sharedFamilyCode = familyCode && isSyncAvailable() && store.shareRiddles ? familyCode : null;
+
+  // Pull on start and every minute, and as soon as the device is back online
+  useEffect(() => {
+    if (!isLoaded || !familyCode) return;
+    runSync();
+    const timer = setInterval(runSync, 60 * 1000);
+    window.addEventListener('online', runSync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', runSync);
+    };
+  }, [isLoaded, familyCode]);
+
+  // Push local changes after a short pause, so a burst of hint clicks becomes one request
+  useEffect(() => {
+    if (!isLoaded || !familyCode || getSyncFingerprint(store) === lastSyncedFingerprint.current) return;
+    const timer = setTimeout(runSync, 2000);
+    return () => clearTimeout(timer);
+  }, [store, isLoaded, familyCode]);
+
+  // Offline the modal explains why a door stays empty instead of showing a generic error
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const handleCreateFamily = async () => {
+    try {
+      const { code } = await createFamily(storeRef.current);
+      connectSync(code);
+    } catch (e) {
+      setSyncError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // Profiles already on this device join the family calendar
+  const handleJoinFamily = async (code: string) => {
+    try {
+      const remote = await fetchFamilyCalendar(code);
+      setStore(prev => mergeStores(remote.store, prev));
+      connectSync(remote.code);
+    } catch (e) {
+      setSyncError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDisconnectSync = () => {
+    if (!confirm(t.app.confirmDisconnectSync)) return;
+    saveSyncSettings(null);
+    setSyncSettings(null);
+    setSyncStatus('off');
+    lastSyncedFingerprint.current = null;
+  };
+
+  // Resync now and then; the minute tick lets doors open at midnight without a reload
+  useEffect(() => {
+    const sync = () => syncTrustedTime().then(state => setTimeSource(state.source));
+    sync();
+    const syncTimer = setInterval(sync, 10 * 60 * 1000);
+    const handleVisibility = () => { if (document.visibilityState === 'visible') sync(); };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(syncTimer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isDateSimulated) return;
+    setCurrentDate(getTrustedNow());
+    const tick = setInterval(() => setCurrentDate(getTrustedNow()), 60 * 1000);
+    return () => clearInterval(tick);
+  }, [isDateSimulated, timeSource]);
+
+  // Profiles with their own riddles must not get each other's from the Gemini proxy's cache
+  const riddleVariant = store.shareRiddles ? undefined : activeProfileId ?? undefined;
+
+  // Every provider returns an already validated Riddle; a shared family calendar asks the server first
+  const fetchRiddle = (day: number, signal?: AbortSignal): Promise<Riddle> => {
+    const generate = () => riddleProvider.generateRiddle(day, { difficulty, language, variant: riddleVariant, signal });
+    return sharedFamilyCode ? getOrCreateFamilyRiddle(sharedFamilyCode, day, generate) : generate();
+  };
+
+  // Generates the door's riddle. If that fails for good, the door gets a bundled replacement and the modal explains why;
+  // a replacement that is swapped for the real riddle starts over with its hints.
+  const loadRiddle = async (day: number) => {
+    setLoadingRiddle(true);
+    setCurrentRiddle(null);
+    setGenerationFailure(null);
+    const replacesFallback = Boolean(calendarState[day]?.riddle?.isFallback);
+    const { riddle, failure } = await generateWithFallback(day, signal => fetchRiddle(day, signal), { difficulty, language });
+    setGenerationFailure(failure);
+    if (riddle) {
+      setCurrentRiddle(riddle);
+
+      // Update state - this will trigger the useEffect to save (without image)
+      updateDoorState(day, { isOpen: true, riddle, ...(replacesFallback && !riddle.isFallback ? { hintsUsed: 0 } : {}) });
+    }
+    setLoadingRiddle(false);
+  };
 
   const handleOpenDoor = async (day: number) => {
+    // The grid disables closed doors, this also covers stale renders around midnight
+    if (!isDoorUnlocked(day, currentDate) && !calendarState[day]?.isSolved) return;
     setSelectedDay(day);
+    setGenerationFailure(null);
     
-    // Check if we already have the riddle data in state
-    if (calendarState[day]?.riddle) {
+    // A loaded pack takes precedence over stored or generated riddles, unless the door was locked in the editor
+    const isLocked = Boolean(calendarState[day]?.isLocked && calendarState[day]?.riddle);
+    const packRiddle = usePack && riddlePack && !isLocked ? getPackRiddle(riddlePack, day) : undefined;
+
+    if (packRiddle) {
+      setCurrentRiddle(packRiddle);
+      updateDoorState(day, { isOpen: true, riddle: packRiddle });
+    } else if (calendarState[day]?.riddle) {
+      // We already have the riddle data in state (maybe pre-generated or opened by another profile)
       setCurrentRiddle(calendarState[day].riddle!);
+      if (!calendarState[day].isOpen) {
+        updateDoorState(day, { isOpen: true });
+      }
+    } else if (!navigator.onLine) {
+      setCurrentRiddle(null);
     } else {
       // Fetch new riddle
-      setLoadingRiddle(true);
-      setCurrentRiddle(null);
+      await loadRiddle(day);
+    }
+  };
+
+  // Offered while the door shows an error or a bundled replacement that has not been solved or revealed yet
+  const selectedDoor = selectedDay !== null ? calendarState[selectedDay] : undefined;
+  const canRetryRiddle = isOnline && !loadingRiddle && !selectedDoor?.isSolved && !selectedDoor?.isRevealed
+    && (!currentRiddle || Boolean(currentRiddle.isFallback));
+
+  // Back online with an empty door on screen: try again right away
+  useEffect(() => {
+    if (isOnline && selectedDay !== null && !currentRiddle && !loadingRiddle) {
+      handleOpenDoor(selectedDay);
+    }
+  }, [isOnline]);
+
+  // While online, today's and the next door's riddles are fetched ahead of time, so they also open offline.
+  // The Gemini proxy and the calendar server only hand out unlocked doors, so with them tomorrow's riddle waits until tomorrow.
+  const prefetchedDays = useRef(new Set<string>());
+  useEffect(() => {
+    if (!isLoaded || !isOnline || !activeProfileId) return;
+    const seasonDay = getSeasonDay(currentDate);
+    const days = [seasonDay, DOOR_DAYS.find(day => day > seasonDay)].filter((day): day is number =>
+      day !== undefined
+      && DOOR_DAYS.includes(day)
+      && !calendarState[day]?.riddle
+      && !(usePack && riddlePack && getPackRiddle(riddlePack, day))
+      && (!checksDoorClock(riddleProvider) || isDoorUnlocked(day, currentDate))
+    );
+    days.forEach(async (day) => {
+      const key = `${activeProfileId}:${day}`;
+      if (prefetchedDays.current.has(key)) return;
+      prefetchedDays.current.add(key);
       try {
-        const riddle = await generateRiddleForDay(day);
-        
-        // --- STRICT DATA VALIDATION BEFORE SETTING STATE ---
-        // Ensure options is a valid string array if choice type
-        if (riddle.type === 'choice' && (!riddle.options || !Array.isArray(riddle.options))) {
-           console.warn("Riddle invalid options, fallback to text", riddle);
-           riddle.type = 'text';
-        }
-
-        // Ensure hints is a valid string array
-        if (!riddle.hints || !Array.isArray(riddle.hints)) {
-           riddle.hints = ["Hinweis 1: Lies genau.", "Hinweis 2: Denk nach.", "Hinweis 3: Fast da."];
-        }
-
-        // Ensure essential strings are present
-        riddle.question = riddle.question || "Konnte Frage nicht laden.";
-        riddle.correctAnswer = riddle.correctAnswer || "Fehler";
-        riddle.solutionExplanation = riddle.solutionExplanation || "Keine Erklärung verfügbar.";
-
-        setCurrentRiddle(riddle);
-        
-        // Update state - this will trigger the useEffect to save (without image)
-        setCalendarState(prev => ({
-          ...prev,
-          [day]: {
-            ...prev[day],
-            isOpen: true,
-            riddle: riddle
-          }
-        }));
+        const riddle = await fetchRiddle(day);
+        // Another visit may have filled the door in the meantime
+        setStore(prev => getCalendarForProfile(prev, activeProfileId)[day]?.riddle
+          ? prev
+          : updateDoor(prev, activeProfileId, day, { riddle }));
       } catch (e) {
-        console.error("Error generating riddle:", e);
-        // Error will be shown by RiddleModal's internal state (riddle === null && !isLoading)
-      } finally {
-        setLoadingRiddle(false);
+        prefetchedDays.current.delete(key);
+        console.warn(`Prefetching door ${day} failed:`, e);
       }
-    }
+    });
+  }, [isLoaded, isOnline, activeProfileId, currentDate, calendarState, usePack, riddlePack]);
+
+  // Start of the current visit; time only counts while an unfinished riddle is on screen
+  const visitStartRef = useRef<number | null>(null);
+  useEffect(() => {
+    const door = selectedDay !== null ? calendarState[selectedDay] : undefined;
+    visitStartRef.current = currentRiddle && !door?.isSolved && !door?.isRevealed ? Date.now() : null;
+  }, [currentRiddle]);
+
+  // Adds the running visit to the door's time and stops the clock
+  const stopClock = (day: number): Partial<DoorState> => {
+    if (visitStartRef.current === null) return {};
+    const elapsed = Date.now() - visitStartRef.current;
+    visitStartRef.current = null;
+    return { timeSpentMs: (calendarState[day]?.timeSpentMs ?? 0) + elapsed };
+  };
+
+  const handleAnswerChecked = (isCorrect: boolean) => {
+    if (selectedDay === null || calendarState[selectedDay]?.isSolved) return;
+    const attempts = (calendarState[selectedDay]?.attempts ?? 0) + 1;
+    updateDoorState(selectedDay, isCorrect
+      ? { attempts, solvedAt: new Date().toISOString(), ...stopClock(selectedDay) }
+      : { attempts });
   };
 
   const handleRiddleSolved = () => {
     if (selectedDay === null) return;
     
-    setCalendarState(prev => ({
-      ...prev,
-      [selectedDay]: {
-        ...prev[selectedDay],
-        isSolved: true
-      }
-    }));
+    updateDoorState(selectedDay, { isSolved: true });
     
     // Close modal after a short delay
     setTimeout(() => {
@@ -184,96 +499,395 @@ const App: React.FC = () => {
   };
 
   const handleCloseModal = () => {
+    if (selectedDay !== null && visitStartRef.current !== null) {
+      updateDoorState(selectedDay, stopClock(selectedDay));
+    }
     setSelectedDay(null);
     setCurrentRiddle(null);
+    setGenerationFailure(null);
   }
 
-  // Debug Helper to Change Date
+  const handleImageChange = (day: number, riddleId: string, imageUrl: string) => {
+    if (!activeProfileId) return;
+    setStore(prev => {
+      const riddle = getCalendarForProfile(prev, activeProfileId)[day]?.riddle;
+      if (!riddle || riddle.id !== riddleId) return prev;
+      return updateDoor(prev, activeProfileId, day, { riddle: { ...riddle, imageUrl } });
+    });
+    if (sharedFamilyCode) {
+      shareRiddleImage(riddleId, imageUrl).catch((e) => console.warn("Could not share image with the family:", e));
+    }
+  };
+
+  const handleSaveEditedRiddle = (day: number, riddle: Riddle, isLocked: boolean) => {
+    updateDoorState(day, { riddle, isLocked, riddleEditedAt: new Date().toISOString() });
+  };
+
+  // Pre-generated riddles are stored without opening the door, so it opens without waiting later.
+  // In a shared family calendar a door someone else already generated keeps that riddle.
+  const handleBatchRiddle = async (riddle: Riddle) => {
+    const shared = sharedFamilyCode
+      ? await claimFamilyRiddle(sharedFamilyCode, riddle).catch((e) => {
+          console.warn(`Could not share riddle for door ${riddle.day}, keeping the local one:`, e);
+          return riddle;
+        })
+      : riddle;
+    updateDoorState(shared.day, { riddle: shared });
+  };
+
+  const handleHintUsed = (hintsUsed: number) => {
+    if (selectedDay === null) return;
+    // The fourth click shows the solution, the door can no longer be solved for points
+    updateDoorState(selectedDay, hintsUsed >= 4
+      ? { hintsUsed, isRevealed: true, ...stopClock(selectedDay) }
+      : { hintsUsed });
+  };
+
+  const handleResetProfile = () => {
+    if (!activeProfile) return;
+    if (confirm(t.app.confirmResetProfile(activeProfile.name))) {
+      setStore(prev => resetProfile(prev, activeProfile.id));
+    }
+  };
+
+  // Runs on every minute tick and on every simulated date, so reminders can be tried from the debug menu
+  useEffect(() => {
+    if (!isLoaded || getNotificationPermission() !== 'granted') return;
+    getDueReminders(store, currentDate, isDateSimulated).forEach((reminder) => {
+      showDoorReminder(reminder, currentDate, t.notifications).catch((e) => console.warn("Could not show reminder:", e));
+    });
+  }, [isLoaded, store, currentDate, isDateSimulated, t]);
+
+  const handleNotificationTimeChange = (profileId: string, notificationTime: string | undefined) => {
+    setStore(prev => updateProfile(prev, profileId, { notificationTime }));
+  };
+
+  const missedDay = activeProfileId ? getMissedYesterday(store, activeProfileId, currentDate) : null;
+  const [dismissedMissedKey, setDismissedMissedKey] = useState<string | null>(null);
+  const missedKey = `${activeProfileId}:${missedDay}`;
+
+  const handleDifficultyChange = (level: Difficulty) => {
+    if (store.shareRiddles) {
+      setStore(prev => setCalendarDifficulty(prev, level));
+    } else if (activeProfileId) {
+      setStore(prev => updateProfile(prev, activeProfileId, { difficulty: level }));
+    }
+  };
+
+  // Backends that check the clock refuse closed doors, so only unlocked ones can be generated ahead
+  const remainingDays = DOOR_DAYS.filter(day =>
+    !calendarState[day]?.riddle && !(usePack && riddlePack && getPackRiddle(riddlePack, day))
+    && (!checksDoorClock(riddleProvider) || isDoorUnlocked(day, currentDate))
+  );
+
+  const handleExportPack = async (meta: RiddlePackMeta) => {
+    const pack = createRiddlePack(meta, calendarState, riddlePack);
+    if (pack.riddles.length === 0) {
+      alert(t.app.nothingToExport);
+      return;
+    }
+    // Embed images from the image store as data URLs, so the pack is self-contained
+    pack.riddles = await Promise.all(pack.riddles.map(async (riddle) => {
+      if (riddle.imageUrl || !riddle.id) return riddle;
+      const imageUrl = await loadImage(riddle.day, riddle.id).catch(() => undefined);
+      return imageUrl ? { ...riddle, imageUrl } : riddle;
+    }));
+    downloadRiddlePack(pack);
+  };
+
+  // Debug Helper to Change Date: December days of the current season, past 31 continuing into January
   const simulateDate = (day: number) => {
-    const d = new Date();
-    d.setMonth(11); // December
-    d.setDate(day);
-    setCurrentDate(d);
+    setIsDateSimulated(true);
+    setCurrentDate(getSimulatedDate(day, getTrustedNow()));
   };
 
+  // Every door day plus the catch-up window and the first day after it
+  const simulatedDays = Array.from(
+    { length: Math.max(...DOOR_DAYS) + CALENDAR_CONFIG.catchUpDays + 1 },
+    (_, i) => i + 1
+  );
+  const seasonDay = getSeasonDay(currentDate);
+
   return (
-    <div className="min-h-screen relative flex flex-col items-center">
-      <Snowfall />
-
-      {/* Hero Header */}
-      <header className="w-full text-center pt-10 pb-6 relative z-10 px-4">
-        <h1 className="text-4xl md:text-6xl font-christmas font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 via-yellow-100 to-yellow-300 drop-shadow-lg mb-2">
-          Adventskalender
-        </h1>
-        <p className="text-slate-300 font-medium">
-          Öffne jeden Tag ein Türchen und löse das Rätsel!
-        </p>
-      </header>
-
-      {/* Main Grid */}
-      <main className="flex-1 w-full flex flex-col items-center z-10">
-        <DoorGrid 
-          currentDate={currentDate} 
-          calendarState={calendarState} 
-          onOpenDoor={handleOpenDoor} 
-        />
-      </main>
-
-      {/* Footer / Debug */}
-      <footer className="w-full p-4 text-center text-slate-500 text-sm z-10 relative mt-8 mb-4">
-        <p>© {new Date().getFullYear()} Weihnachts-Rätselspaß</p>
-        
-        <button 
-          onClick={() => setShowDebug(!showDebug)}
-          className="absolute bottom-4 right-4 p-2 text-slate-700 hover:text-slate-400 transition-colors"
-          title="Debug Menu"
-        >
-          <Settings size={20} />
-        </button>
-
-        {showDebug && (
-          <div className="absolute bottom-14 right-4 bg-slate-800 p-4 rounded-lg border border-slate-600 shadow-xl text-left w-64">
-            <h4 className="text-yellow-400 font-bold mb-2 flex items-center">
-              <RefreshCw size={14} className="mr-2" /> Debug Modus
-            </h4>
-            <p className="mb-2 text-xs">Simuliere ein Datum:</p>
-            <div className="grid grid-cols-5 gap-1">
-              {Array.from({length: 25}, (_, i) => i + 1).map(d => (
-                <button
-                  key={d}
-                  onClick={() => simulateDate(d)}
-                  className={`text-xs p-1 rounded ${currentDate.getDate() === d ? 'bg-red-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
-                >
-                  {d}
-                </button>
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen relative flex flex-col items-center">
+        {!reduceMotion && <Snowfall />}
+
+        <div className="absolute top-3 right-3 z-20 flex items-center gap-2 text-slate-400">
+          {[
+            { key: 'reduceMotion' as const, active: reduceMotion, label: t.app.reduceMotion, Icon: Snowflake },
+            { key: 'highContrast' as const, active: highContrast, label: t.app.highContrast, Icon: Contrast },
+          ].map(({ key, active, label, Icon }) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => handleDisplayChange({ [key]: !active })}
+              aria-pressed={active}
+              aria-label={label}
+              title={label}
+              className={`p-1 rounded border ${active ? 'bg-yellow-600 border-yellow-400 text-yellow-950' : 'bg-slate-800/80 border-slate-600 text-slate-300 hover:text-white'}`}
+            >
+              <Icon size={14} />
+            </button>
+          ))}
+          <label className="flex items-center gap-1" title={t.app.language}>
+            <Globe size={14} />
+            <select
+              value={language}
+              onChange={(e) => handleLanguageChange(e.target.value as Language)}
+              aria-label={t.app.language}
+              className="bg-slate-800/80 border border-slate-600 rounded text-xs text-slate-200 p-1"
+            >
+              {LANGUAGES.map(lang => (
+                <option key={lang} value={lang}>{LANGUAGE_LABELS[lang]}</option>
               ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Hero Header */}
+        <header className="w-full text-center pt-10 pb-6 relative z-10 px-4">
+          <h1 className="text-4xl md:text-6xl font-christmas font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 via-yellow-100 to-yellow-300 drop-shadow-lg mb-2">
+            {t.app.title}
+          </h1>
+          <p className="text-slate-300 font-medium">
+            {t.app.subtitle}
+          </p>
+          {activeProfile && (
+            <button
+              onClick={() => setActiveProfileId(null)}
+              className="mt-3 inline-flex items-center gap-2 px-3 py-1 rounded-full bg-slate-800/80 border border-slate-600 text-slate-200 text-sm hover:border-yellow-500"
+              title={t.app.switchProfile}
+            >
+              <span className="text-lg">{activeProfile.avatar}</span>
+              {activeProfile.name}
+              <Users size={14} className="text-slate-400" />
+            </button>
+          )}
+          {activeProfile && (
+            <button
+              onClick={() => setShowStatistics(true)}
+              className="mt-3 ml-2 inline-flex items-center gap-2 px-3 py-1 rounded-full bg-slate-800/80 border border-slate-600 text-slate-200 text-sm hover:border-yellow-500"
+            >
+              <BarChart3 size={14} className="text-yellow-400" /> {t.app.statistics}
+            </button>
+          )}
+          <SyncStatusBadge status={syncStatus} onClick={runSync} />
+        </header>
+
+        {/* Main Grid */}
+        <main className="flex-1 w-full flex flex-col items-center z-10">
+          {missedDay !== null && dismissedMissedKey !== missedKey && (
+            <MissedDoorBanner
+              day={missedDay}
+              canCatchUp={isDoorUnlocked(missedDay, currentDate)}
+              onOpen={() => handleOpenDoor(missedDay)}
+              onDismiss={() => setDismissedMissedKey(missedKey)}
+            />
+          )}
+          <DoorGrid 
+            currentDate={currentDate} 
+            calendarState={calendarState} 
+            onOpenDoor={handleOpenDoor} 
+          />
+        </main>
+
+        {/* Footer / Debug */}
+        <footer className="w-full p-4 text-center text-slate-500 text-sm z-10 relative mt-8 mb-4">
+          <p>© {new Date().getFullYear()} {t.app.footer}</p>
+        
+          <button 
+            onClick={() => showDebug ? setShowDebug(false) : setShowDebugPin(true)}
+            className="absolute bottom-4 right-4 p-2 text-slate-700 hover:text-slate-400 transition-colors"
+            title={t.debug.menu}
+          >
+            <Settings size={20} />
+          </button>
+
+          {showDebug && (
+            <div className="absolute bottom-14 right-4 bg-slate-800 p-4 rounded-lg border border-slate-600 shadow-xl text-left w-64 max-h-[80vh] overflow-y-auto">
+              <h4 className="text-yellow-400 font-bold mb-2 flex items-center">
+                <RefreshCw size={14} className="mr-2" /> {t.debug.title}
+              </h4>
+              <p className="mb-2 text-xs">{t.debug.simulateDate}</p>
+              <div className="grid grid-cols-5 gap-1">
+                {simulatedDays.map(d => (
+                  <button
+                    key={d}
+                    onClick={() => simulateDate(d)}
+                    className={`text-xs p-1 rounded ${seasonDay === d ? 'bg-red-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+                  >
+                    {d <= 31 ? d : i18n.formatDate(new Date(Date.UTC(2001, 0, d - 31)), { day: 'numeric', month: 'numeric', timeZone: 'UTC' })}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="date"
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  setIsDateSimulated(true);
+                  setCurrentDate(new Date(`${e.target.value}T12:00:00Z`));
+                }}
+                className="mt-2 w-full bg-slate-700 rounded p-1 text-xs text-slate-100"
+                title={t.debug.anyDate}
+              />
+              <div className="mt-3 pt-2 border-t border-slate-700">
+                 <p className="text-xs text-slate-400">
+                   {t.debug.current} {i18n.formatDate(currentDate, { timeZone: CALENDAR_CONFIG.timeZone })}
+                   {CALENDAR_CONFIG.timeZone && ` (${CALENDAR_CONFIG.timeZone})`}
+                 </p>
+                 <p className="text-xs text-slate-500">
+                   {t.debug.timeSource} {t.timeSources[timeSource]}
+                 </p>
+                 {isDateSimulated && (
+                   <button
+                     onClick={() => setIsDateSimulated(false)}
+                     className="text-xs text-yellow-300 underline hover:text-yellow-200"
+                   >
+                     {t.debug.backToRealTime}
+                   </button>
+                 )}
+                 {CALENDAR_CONFIG.openAll && (
+                   <p className="text-xs text-yellow-300">{t.debug.replayMode}</p>
+                 )}
+                 <label className="flex items-center mt-2 text-xs text-slate-300 cursor-pointer">
+                   <input
+                     type="checkbox"
+                     checked={store.shareRiddles}
+                     onChange={(e) => setStore(prev => setShareRiddles(prev, e.target.checked))}
+                     className="mr-2"
+                   />
+                   {t.debug.shareRiddles}
+                 </label>
+                 {(store.shareRiddles || activeProfile) && (
+                   <label className="block mt-2 text-xs text-slate-300">
+                     {store.shareRiddles ? t.debug.difficultyAll : t.debug.difficultyOf(activeProfile!.name)}
+                     <select
+                       value={difficulty}
+                       onChange={(e) => handleDifficultyChange(e.target.value as Difficulty)}
+                       className="mt-1 w-full bg-slate-700 rounded p-1 text-slate-100"
+                     >
+                       {DIFFICULTIES.map(level => (
+                         <option key={level} value={level}>{t.difficulties[level]}</option>
+                       ))}
+                     </select>
+                   </label>
+                 )}
+                 {activeProfile && (
+                   <button 
+                    onClick={handleResetProfile}
+                    className="mt-2 text-xs text-red-400 underline hover:text-red-300"
+                   >
+                     {t.debug.resetProgressOf(activeProfile.name)}
+                   </button>
+                 )}
+              </div>
+              <button
+                onClick={() => setShowEditor(true)}
+                className="mt-3 w-full text-xs p-1 rounded bg-slate-700 hover:bg-slate-600 flex items-center justify-center"
+              >
+                <PenSquare size={12} className="mr-1" /> {t.debug.editor}
+              </button>
+              <button
+                onClick={() => setShowDiagnostics(true)}
+                className="mt-2 w-full text-xs p-1 rounded bg-slate-700 hover:bg-slate-600 flex items-center justify-center"
+              >
+                <Activity size={12} className="mr-1" /> {t.debug.diagnostics}
+              </button>
+              <BatchGenerationPanel
+                provider={riddleProvider}
+                remainingDays={remainingDays}
+                difficulty={difficulty}
+                language={language}
+                variant={riddleVariant}
+                onRiddle={handleBatchRiddle}
+              />
+              <ImageStoragePanel />
+              <SyncPanel
+                settings={syncSettings}
+                status={syncStatus}
+                error={syncError}
+                onCreate={handleCreateFamily}
+                onJoin={handleJoinFamily}
+                onSyncNow={runSync}
+                onDisconnect={handleDisconnectSync}
+              />
+              <NotificationSettings profiles={store.profiles} onChange={handleNotificationTimeChange} />
+              <RiddlePackPanel
+                pack={riddlePack}
+                language={language}
+                usePack={usePack}
+                onUsePackChange={(enabled) => persistPack(riddlePack, enabled)}
+                onImport={(pack) => persistPack(pack, true)}
+                onRemove={() => persistPack(null, false)}
+                onExport={handleExportPack}
+              />
             </div>
-            <div className="mt-3 pt-2 border-t border-slate-700">
-               <p className="text-xs text-slate-400">Aktuell: {currentDate.toLocaleDateString()}</p>
-               <button 
-                onClick={() => { localStorage.removeItem(STORAGE_KEY); window.location.reload(); }}
-                className="mt-2 text-xs text-red-400 underline hover:text-red-300"
-               >
-                 Fortschritt zurücksetzen
-               </button>
-            </div>
-          </div>
+          )}
+        </footer>
+
+        {isLoaded && !hasPin && <ParentPinSetup onDone={() => setHasPin(true)} />}
+
+        {isLoaded && hasPin && !activeProfile && (
+          <ProfilePicker
+            profiles={store.profiles}
+            onSelect={setActiveProfileId}
+            onCreate={(profile) => setStore(prev => addProfile(prev, profile))}
+            onDelete={(profileId) => setStore(prev => removeProfile(prev, profileId))}
+          />
         )}
-      </footer>
-
-      {/* Modal wrapped in ErrorBoundary */}
-      {selectedDay && (
-        <ErrorBoundary onReset={handleCloseModal}>
-          <RiddleModal 
-            day={selectedDay}
-            riddle={currentRiddle}
-            isLoading={loadingRiddle}
-            onClose={handleCloseModal}
-            onSolved={handleRiddleSolved}
+
+        {showDebugPin && (
+          <ParentPinGate
+            title={t.debug.menu}
+            onUnlock={() => { setShowDebugPin(false); setShowDebug(true); }}
+            onCancel={() => setShowDebugPin(false)}
           />
-        </ErrorBoundary>
-      )}
-    </div>
+        )}
+
+        {showStatistics && (
+          <StatisticsDashboard
+            store={store}
+            currentDate={currentDate}
+            activeProfileId={activeProfileId}
+            onClose={() => setShowStatistics(false)}
+          />
+        )}
+
+        {showDiagnostics && <DiagnosticsPanel onClose={() => setShowDiagnostics(false)} />}
+
+        {showEditor && (
+          <RiddleEditor
+            calendarState={calendarState}
+            provider={riddleProvider}
+            difficulty={difficulty}
+            onSave={handleSaveEditedRiddle}
+            onImageChange={handleImageChange}
+            onClose={() => setShowEditor(false)}
+          />
+        )}
+
+        {/* Modal wrapped in ErrorBoundary */}
+        {selectedDay && (
+          <ErrorBoundary messages={t.errorBoundary} onReset={handleCloseModal}>
+            <RiddleModal 
+              day={selectedDay}
+              riddle={currentRiddle}
+              isLoading={loadingRiddle}
+              isOffline={!isOnline}
+              failure={generationFailure}
+              onRetry={canRetryRiddle ? () => loadRiddle(selectedDay) : undefined}
+              initialHintCount={calendarState[selectedDay]?.hintsUsed ?? 0}
+              onHintUsed={handleHintUsed}
+              onAnswerChecked={handleAnswerChecked}
+              judgeAnswer={answerJudge}
+              onClose={handleCloseModal}
+              onSolved={handleRiddleSolved}
+            />
+          </ErrorBoundary>
+        )}
+      </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUp, ArrowDown, GripVertical } from 'lucide-react';
+import { Riddle, RiddleAnswer } from '../types';
+import { shuffleForDisplay } from '../services/riddleTypes';
+import { useI18n } from '../services/i18n';
+import { LogicGridInput } from './LogicGridInput';
+
+interface AnswerInputProps {
+  riddle: Riddle;
+  answer: RiddleAnswer;
+  onChange: (answer: RiddleAnswer) => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent";
+
+const optionClass = (selected: boolean) => `
+  flex items-center p-3 rounded-lg border cursor-pointer transition-all
+  ${selected
+    ? 'bg-yellow-600/20 border-yellow-500 text-yellow-100'
+    : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+  }
+`;
+
+const asList = (answer: RiddleAnswer) => (Array.isArray(answer) ? answer : []);
+const asText = (answer: RiddleAnswer) => (typeof answer === 'string' ? answer : '');
+
+// Items are dragged onto each other, or moved with the arrow buttons on touch screens
+const OrderInput: React.FC<{ items: string[]; onChange: (items: string[]) => void }> = ({ items, onChange }) => {
+  const { t } = useI18n();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= items.length || from === to) return;
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <ol className="space-y-2">
+      {items.map((item, idx) => (
+        <li
+          key={item}
+          draggable
+          onDragStart={() => setDragIndex(idx)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragIndex !== null) move(dragIndex, idx);
+            setDragIndex(null);
+          }}
+          onDragEnd={() => setDragIndex(null)}
+          className={`flex items-center gap-2 p-3 rounded-lg border bg-slate-800 text-slate-200 cursor-move transition-all
+            ${dragIndex === idx ? 'opacity-50 border-yellow-500' : 'border-slate-700'}`}
+        >
+          <GripVertical size={18} className="text-slate-500 shrink-0" />
+          <span className="text-yellow-400 font-bold w-6">{idx + 1}.</span>
+          <span className="flex-1">{item}</span>
+          <button
+            type="button"
+            onClick={() => move(idx, idx - 1)}
+            disabled={idx === 0}
+            className="p-1 text-slate-400 hover:text-yellow-300 disabled:opacity-30"
+            title={t.answer.moveUp}
+            aria-label={`${t.answer.moveUp}: ${item}`}
+          >
+            <ArrowUp size={18} />
+          </button>
+          <button
+            type="button"
+            onClick={() => move(idx, idx + 1)}
+            disabled={idx === items.length - 1}
+            className="p-1 text-slate-400 hover:text-yellow-300 disabled:opacity-30"
+            title={t.answer.moveDown}
+            aria-label={`${t.answer.moveDown}: ${item}`}
+          >
+            <ArrowDown size={18} />
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+// The input that fits the riddle's type; the answer is a string, or a list for 'order', 'multi', 'match' and 'grid'
+export const AnswerInput: React.FC<AnswerInputProps> = ({ riddle, answer, onChange }) => {
+  const { t } = useI18n();
+  const options = Array.isArray(riddle.options) ? riddle.options : [];
+  const pairs = Array.isArray(riddle.pairs) ? riddle.pairs : [];
+  const rightItems = useMemo(
+    () => shuffleForDisplay(pairs.map(pair => pair.right), `${riddle.id ?? riddle.day}-match`),
+    [riddle.id, riddle.day, pairs]
+  );
+
+  if (riddle.type === 'choice' && options.length > 0) {
+    return (
+      <div role="radiogroup" aria-label={t.answer.label} className="grid grid-cols-1 gap-3">
+        {options.map((option, idx) => (
+          <label key={idx} className={optionClass(answer === String(option))}>
+            <input
+              type="radio"
+              name="riddle-option"
+              value={String(option)}
+              checked={answer === String(option)}
+              onChange={(e) => onChange(e.target.value)}
+              className="w-4 h-4 text-yellow-600 border-gray-600 focus:ring-yellow-500 bg-gray-700 mr-3"
+            />
+            {String(option)}
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  if (riddle.type === 'multi' && options.length > 0) {
+    const selected = asList(answer);
+    const toggle = (option: string) =>
+      onChange(selected.includes(option) ? selected.filter(item => item !== option) : [...selected, option]);
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-slate-400">{t.answer.pickAll}</p>
+        <div role="group" aria-label={t.answer.pickAll} className="grid grid-cols-1 gap-3">
+          {options.map((option, idx) => (
+            <label key={idx} className={optionClass(selected.includes(option))}>
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={() => toggle(option)}
+                className="w-4 h-4 rounded text-yellow-600 border-gray-600 focus:ring-yellow-500 bg-gray-700 mr-3"
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (riddle.type === 'order' && options.length > 0) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-slate-400">{t.answer.orderPrompt}</p>
+        <OrderInput items={asList(answer)} onChange={onChange} />
+      </div>
+    );
+  }
+
+  if (riddle.type === 'match' && pairs.length > 0) {
+    const picks = asList(answer);
+    const pick = (idx: number, value: string) => onChange(pairs.map((_, i) => (i === idx ? value : picks[i] ?? '')));
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-slate-400">{t.answer.matchPrompt}</p>
+        {pairs.map((pair, idx) => (
+          <div key={idx} className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <span className="sm:w-1/2 text-slate-200">{pair.left}</span>
+            <select
+              value={picks[idx] ?? ''}
+              onChange={(e) => pick(idx, e.target.value)}
+              aria-label={pair.left}
+              className="sm:w-1/2 bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-yellow-500"
+            >
+              <option value="">{t.answer.choose}</option>
+              {rightItems.map((item, i) => (
+                <option key={i} value={item}>{item}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (riddle.type === 'grid' && riddle.grid) {
+    // Keyed by riddle, so a replaced riddle starts with an empty grid
+    return <LogicGridInput key={riddle.id ?? riddle.day} grid={riddle.grid} onChange={onChange} />;
+  }
+
+  if (riddle.type === 'number') {
+    return (
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={asText(answer)}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={t.answer.numberPlaceholder}
+          aria-label={riddle.unit ? `${t.answer.label} (${riddle.unit})` : t.answer.label}
+          className={inputClass}
+        />
+        {riddle.unit && <span className="text-slate-300 font-bold">{riddle.unit}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <input
+      type="text"
+      value={asText(answer)}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={t.answer.textPlaceholder}
+      aria-label={t.answer.label}
+      className={inputClass}
+    />
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { Layers, Square } from 'lucide-react';
+import { Difficulty, Language, Riddle, RiddleProvider } from '../types';
+import { BatchFailure, generateCalendarBatch } from '../services/batchGenerator';
+import { useI18n } from '../services/i18n';
+
+interface BatchGenerationPanelProps {
+  provider: RiddleProvider;
+  remainingDays: number[];
+  difficulty: Difficulty;
+  language: Language;
+  variant?: string;
+  onRiddle: (riddle: Riddle) => void;
+}
+
+export const BatchGenerationPanel: React.FC<BatchGenerationPanelProps> = ({ provider, remainingDays, difficulty, language, variant, onRiddle }) => {
+  const { t } = useI18n();
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [currentDays, setCurrentDays] = useState<number[]>([]);
+  const [failures, setFailures] = useState<BatchFailure[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setFailures([]);
+    setCurrentDays([]);
+    setProgress({ completed: 0, total: remainingDays.length });
+
+    const result = await generateCalendarBatch(provider, remainingDays, {
+      signal: controller.signal,
+      request: { difficulty, language, variant },
+      onRiddle,
+      onProgress: ({ day, status, completed, total }) => {
+        setProgress({ completed, total });
+        setCurrentDays(prev => status === 'started'
+          ? [...prev, day]
+          : status === 'done' || status === 'failed' ? prev.filter(d => d !== day) : prev);
+      },
+    });
+
+    setFailures(result.failures);
+    setCurrentDays([]);
+    setIsRunning(false);
+    abortRef.current = null;
+  };
+
+  const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div className="mt-3 pt-2 border-t border-slate-700">
+      <p className="text-xs text-yellow-400 font-bold mb-2 flex items-center">
+        <Layers size={12} className="mr-1" /> {t.batch.title}
+      </p>
+
+      {isRunning ? (
+        <>
+          <div className="w-full h-2 bg-slate-900 rounded overflow-hidden">
+            <div className="h-full bg-yellow-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-xs text-slate-400 mt-1">
+            {t.batch.progress(progress.completed, progress.total)}{currentDays.length > 0 ? ` · ${t.batch.days(currentDays.join(', '))}` : ''}
+          </p>
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="mt-1 w-full text-xs p-1 rounded bg-slate-700 hover:bg-slate-600 flex items-center justify-center"
+          >
+            <Square size={12} className="mr-1" /> {t.batch.cancel}
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={handleStart}
+          disabled={remainingDays.length === 0 || provider.id === 'pack' || provider.id === 'server'}
+          className="w-full text-xs p-1 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-40"
+        >
+          {remainingDays.length === 0 ? t.batch.allPresent : t.batch.generateMissing(remainingDays.length)}
+        </button>
+      )}
+
+      {failures.length > 0 && (
+        <div className="mt-2 text-xs text-red-400">
+          <p className="font-bold">{t.batch.failed(failures.map(f => f.day).join(', '))}</p>
+          <ul className="list-disc list-inside max-h-20 overflow-y-auto">
+            {failures.map(f => <li key={f.day}>{t.batch.failure(f.day, f.error)}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { X, Activity, AlertTriangle, Trash2 } from 'lucide-react';
+import { useDialog } from '../services/dialog';
+import { GenerationCall, clearGenerationLog, getLoggedGenerationCalls, summarizeGenerationLog } from '../services/generationLog';
+import { useI18n } from '../services/i18n';
+
+interface DiagnosticsPanelProps {
+  onClose: () => void;
+}
+
+const RECENT_FAILURES = 20;
+
+const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+const formatLatency = (ms: number | null) => (ms === null ? '–' : `${(ms / 1000).toFixed(1)} s`);
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ onClose }) => {
+  const { t, locale } = useI18n();
+  const [calls, setCalls] = useState<GenerationCall[]>(() => getLoggedGenerationCalls());
+  const { days, total } = useMemo(() => summarizeGenerationLog(calls), [calls]);
+  const failures = useMemo(() => calls.filter(call => !call.ok).reverse().slice(0, RECENT_FAILURES), [calls]);
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+
+  const handleClear = () => {
+    clearGenerationLog();
+    setCalls([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="diagnostics-title"
+        tabIndex={-1}
+        className="relative w-full max-w-3xl bg-slate-900 border-4 border-yellow-600 rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="bg-red-800 p-4 flex justify-between items-center border-b-2 border-yellow-600">
+          <h2 id="diagnostics-title" className="text-2xl font-christmas font-bold text-yellow-100">{t.debug.diagnostics}</h2>
+          <button type="button" onClick={onClose} aria-label={t.common.close} className="text-yellow-200 hover:text-white transition-colors">
+            <X size={28} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto custom-scrollbar space-y-6">
+          {calls.length === 0 ? (
+            <p className="text-slate-400 text-center">{t.diagnostics.empty}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+                {[
+                  { label: t.diagnostics.calls, value: total.calls, color: 'text-slate-200' },
+                  { label: t.diagnostics.failed, value: total.failures, color: 'text-red-400' },
+                  { label: t.diagnostics.rejected, value: total.rejections, color: 'text-yellow-300' },
+                  { label: t.diagnostics.estimatedCost, value: formatCost(total.cost), color: 'text-green-400' },
+                ].map(({ label, value, color }) => (
+                  <div key={label} className="bg-slate-800 rounded-lg p-3 border border-slate-700">
+                    <p className={`text-2xl font-bold ${color}`}>{value}</p>
+                    <p className="text-xs text-slate-400">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              <section>
+                <h3 className="text-yellow-400 font-bold mb-2 flex items-center gap-2">
+                  <Activity size={16} /> {t.diagnostics.perDoor}
+                </h3>
+                <table className="w-full text-sm text-slate-300">
+                  <thead>
+                    <tr className="text-xs text-slate-500 text-left">
+                      <th className="font-normal pb-1">{t.diagnostics.door}</th>
+                      <th className="font-normal pb-1 text-right">{t.diagnostics.calls}</th>
+                      <th className="font-normal pb-1 text-right">{t.diagnostics.rejected}</th>
+                      <th className="font-normal pb-1 text-right">{t.diagnostics.errors}</th>
+                      <th className="font-normal pb-1 text-right">{t.diagnostics.averageDuration}</th>
+                      <th className="font-normal pb-1 text-right">{t.diagnostics.tokens}</th>
+                      <th className="font-normal pb-1 text-right">{t.diagnostics.images}</th>
+                      <th className="font-normal pb-1 text-right">{t.diagnostics.cost}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...days, total].map(summary => (
+                      <tr
+                        key={summary.day ?? 'total'}
+                        className={`border-t border-slate-800 ${summary.day === null ? 'font-bold text-slate-100' : ''}`}
+                      >
+                        <td className="py-1">{summary.day ?? t.diagnostics.total}</td>
+                        <td className="py-1 text-right">{summary.calls}</td>
+                        <td className="py-1 text-right">{summary.rejections}</td>
+                        <td className={`py-1 text-right ${summary.failures > 0 ? 'text-red-400' : ''}`}>{summary.failures}</td>
+                        <td className="py-1 text-right">{formatLatency(summary.averageLatencyMs)}</td>
+                        <td className="py-1 text-right">{summary.inputTokens + summary.outputTokens}</td>
+                        <td className="py-1 text-right">{summary.images}</td>
+                        <td className="py-1 text-right">{formatCost(summary.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-2 text-xs text-slate-500">
+                  {t.diagnostics.costNote}
+                </p>
+              </section>
+
+              <section>
+                <h3 className="text-yellow-400 font-bold mb-2 flex items-center gap-2">
+                  <AlertTriangle size={16} /> {t.diagnostics.recentFailures}
+                </h3>
+                {failures.length === 0 ? (
+                  <p className="text-sm text-slate-400">{t.diagnostics.noFailures}</p>
+                ) : (
+                  <div className="space-y-2">
+                    {failures.map(call => (
+                      <details key={call.id} className="bg-slate-800 rounded-lg p-3 border border-slate-700 text-sm">
+                        <summary className="cursor-pointer text-slate-200">
+                          <span className="text-slate-400">{new Date(call.timestamp).toLocaleString(locale)}</span>
+                          {' · '}{t.diagnostics.kinds[call.kind]}{call.day !== undefined && ` · ${t.diagnostics.doorOf(call.day)}`}
+                          {call.attempt !== undefined && ` · ${t.diagnostics.attempt(call.attempt)}`}
+                          {' · '}<span className="text-slate-400">{call.model}</span>
+                        </summary>
+                        <p className="mt-2 text-red-300">{call.error}</p>
+                        {call.category && <p className="text-xs text-slate-500">{t.diagnostics.category} {call.category}</p>}
+                        {call.rawResponse && (
+                          <pre className="mt-2 p-2 rounded bg-slate-950 text-xs text-slate-400 whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+                            {call.rawResponse}
+                          </pre>
+                        )}
+                      </details>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex justify-end">
+          <button
+            onClick={handleClear}
+            disabled={calls.length === 0}
+            className="flex items-center gap-2 text-sm px-4 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-100"
+          >
+            <Trash2 size={16} /> {t.diagnostics.clear}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
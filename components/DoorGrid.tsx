@@ -1,6 +1,9 @@
-import React from 'react';
-import { Lock, Gift, Check } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Lock, Gift, Check, Star } from 'lucide-react';
 import { CalendarState } from '../types';
+import { DOOR_DAYS, isBonusDay, isDoorUnlocked } from '../services/calendarConfig';
+import { calculateDoorScore, getScoringConfig, getTotalScore } from '../services/scoring';
+import { useI18n } from '../services/i18n';
 
 interface DoorGridProps {
   currentDate: Date;
@@ -8,63 +11,137 @@ interface DoorGridProps {
   onOpenDoor: (day: number) => void;
 }
 
+type DoorStatus = 'solved' | 'open' | 'available' | 'locked';
+
+// Moves between doors with the arrow keys, Home and End
+const KEY_STEPS: Record<string, (idx: number, columns: number, count: number) => number> = {
+  ArrowLeft: (idx) => idx - 1,
+  ArrowRight: (idx) => idx + 1,
+  ArrowUp: (idx, columns) => idx - columns,
+  ArrowDown: (idx, columns) => idx + columns,
+  Home: () => 0,
+  End: (_idx, _columns, count) => count - 1,
+};
+
+// Only one door is in the tab order at a time ("roving tabindex"), the arrow keys move between them.
+// Locked doors stay focusable so screen readers can announce them, they just do not open.
 export const DoorGrid: React.FC<DoorGridProps> = ({ currentDate, calendarState, onOpenDoor }) => {
-  // Generate days 6 to 24
-  const days = Array.from({ length: 19 }, (_, i) => i + 6);
+  const days = DOOR_DAYS;
+  const scoring = getScoringConfig();
+  const { t, formatDoorDate } = useI18n();
+  const doorRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  // Starts on the first door that is waiting to be solved
+  const [focusIndex, setFocusIndex] = useState(() => Math.max(0, days.findIndex(day =>
+    isDoorUnlocked(day, currentDate) && !calendarState[day]?.isSolved)));
+
+  // The number of columns depends on the screen width, so it is read from the layout
+  const getColumnCount = () => {
+    const doors = doorRefs.current.filter((door): door is HTMLButtonElement => door !== null);
+    return Math.max(1, doors.filter(door => door.offsetTop === doors[0]?.offsetTop).length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, idx: number) => {
+    const step = KEY_STEPS[e.key];
+    if (!step) return;
+    e.preventDefault();
+    const next = step(idx, getColumnCount(), days.length);
+    if (next < 0 || next >= days.length) return;
+    setFocusIndex(next);
+    doorRefs.current[next]?.focus();
+  };
 
   return (
-    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 p-4 max-w-5xl mx-auto relative z-10">
-      {days.map((day) => {
-        // Date Logic: 
-        // 1. Must be December (Month 11 in JS 0-indexed months)
-        // 2. The day of the door must be less than or equal to the current day
-        const isDecember = currentDate.getMonth() === 11;
-        const currentDay = currentDate.getDate();
-        
-        // If it's December, allow opening doors up to today. 
-        // (If you want to allow looking back in January, you could add logic for that, 
-        // but strictly for Advent, it's Dec only).
-        const canOpen = isDecember && day <= currentDay;
-        
-        const state = calendarState[day] || { isOpen: false, isSolved: false };
-        
-        return (
-          <button
-            key={day}
-            onClick={() => onOpenDoor(day)}
-            disabled={!canOpen && !state.isSolved} // Locked doors are disabled unless already solved (viewable)
-            className={`
-              relative h-32 w-full rounded-xl border-2 transition-all duration-300 transform shadow-xl
-              flex flex-col items-center justify-center overflow-hidden
-              ${state.isSolved 
-                ? 'bg-green-900/80 border-green-400 text-green-100 hover:scale-105' 
-                : canOpen 
-                  ? 'bg-red-700/90 border-yellow-400 text-yellow-100 cursor-pointer hover:bg-red-600 hover:scale-105' 
-                  : 'bg-slate-800/80 border-slate-600 text-slate-500 cursor-not-allowed grayscale'
-              }
-            `}
-          >
-            {/* Pattern Overlay */}
-            <div className="absolute inset-0 opacity-10 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-yellow-200 to-transparent"></div>
+    <div className="max-w-5xl mx-auto relative z-10">
+      <div className="px-4 flex justify-end">
+        <span className="flex items-center gap-2 bg-slate-900/70 border border-yellow-600/50 rounded-full px-4 py-1 text-yellow-200 font-bold">
+          <Star size={16} className="text-yellow-400" /> {t.doors.points(getTotalScore(calendarState, scoring))}
+        </span>
+      </div>
+      <p id="door-grid-hint" className="sr-only">{t.doors.keyboardHint}</p>
+      <div
+        role="group"
+        aria-label={t.doors.gridLabel}
+        aria-describedby="door-grid-hint"
+        className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 p-4"
+      >
+        {days.map((day, idx) => {
+          // Unlock rules (range, time zone, catch-up window, replay) live in the calendar config
+          const canOpen = isDoorUnlocked(day, currentDate);
+          
+          const state = calendarState[day] || { isOpen: false, isSolved: false };
+          const score = calculateDoorScore(state, scoring);
+          const isLocked = !canOpen && !state.isSolved; // Locked doors do not open unless already solved (viewable)
+          const status: DoorStatus = state.isSolved ? 'solved' : !canOpen ? 'locked' : state.isOpen ? 'open' : 'available';
+          const label = [
+            formatDoorDate(day),
+            t.doors.states[status],
+            isBonusDay(day) && t.doors.bonus,
+            state.riddle?.difficulty && t.difficulties[state.riddle.difficulty],
+            score !== null && (state.isSolved ? t.doors.points(score) : t.doors.revealed),
+          ].filter(Boolean).join(', ');
+          
+          return (
+            <button
+              key={day}
+              ref={(door) => { doorRefs.current[idx] = door; }}
+              type="button"
+              onClick={() => { if (!isLocked) onOpenDoor(day); }}
+              onKeyDown={(e) => handleKeyDown(e, idx)}
+              onFocus={() => setFocusIndex(idx)}
+              tabIndex={idx === focusIndex ? 0 : -1}
+              aria-disabled={isLocked}
+              aria-label={label}
+              className={`
+                relative h-32 w-full rounded-xl border-2 transition-all duration-300 transform shadow-xl
+                flex flex-col items-center justify-center overflow-hidden
+                ${state.isSolved 
+                  ? 'bg-green-900/80 border-green-400 text-green-100 hover:scale-105' 
+                  : canOpen 
+                    ? 'bg-red-700/90 border-yellow-400 text-yellow-100 cursor-pointer hover:bg-red-600 hover:scale-105' 
+                    : 'bg-slate-800/80 border-slate-600 text-slate-500 cursor-not-allowed grayscale'
+                }
+              `}
+            >
+              {/* Pattern Overlay */}
+              <div aria-hidden="true" className="absolute inset-0 opacity-10 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-yellow-200 to-transparent"></div>
+
+              {isBonusDay(day) && (
+                <span className="absolute top-1 left-2 z-10 text-[10px] font-bold uppercase tracking-wide text-yellow-300">
+                  {t.doors.bonus}
+                </span>
+              )}
+
+              {state.riddle?.difficulty && (
+                <span className="absolute top-1 right-2 z-10 text-[10px] font-bold uppercase tracking-wide opacity-70">
+                  {t.difficulties[state.riddle.difficulty]}
+                </span>
+              )}
+
+              <span className="font-christmas text-4xl mb-2 font-bold z-10">{day}</span>
+              
+              <div className="z-10">
+                {state.isSolved ? (
+                  <Check className="w-8 h-8 text-green-300" />
+                ) : !canOpen ? (
+                  <Lock className="w-6 h-6 opacity-50" />
+                ) : (
+                  <Gift className="w-8 h-8 text-yellow-300 animate-pulse" />
+                )}
+              </div>
+              
+              {score !== null && (
+                <span className={`absolute bottom-1 right-2 z-10 text-xs font-bold ${state.isSolved ? 'text-yellow-300' : 'text-slate-400'}`}>
+                  {state.isSolved ? `+${score}` : t.doors.revealed}
+                </span>
+              )}
 
-            <span className="font-christmas text-4xl mb-2 font-bold z-10">{day}</span>
-            
-            <div className="z-10">
-              {state.isSolved ? (
-                <Check className="w-8 h-8 text-green-300" />
-              ) : !canOpen ? (
-                <Lock className="w-6 h-6 opacity-50" />
-              ) : (
-                <Gift className="w-8 h-8 text-yellow-300 animate-pulse" />
+              {!canOpen && (
+                <div className="absolute inset-0 bg-black/40" />
               )}
-            </div>
-            
-            {!canOpen && (
-              <div className="absolute inset-0 bg-black/40" />
-            )}
-          </button>
-        );
-      })}
+            </button>
+          );
+        })}
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { Image } from 'lucide-react';
+import { ImageStoreUsage, MAX_IMAGE_STORE_BYTES, clearImages, getImageStoreUsage } from '../services/imageStore';
+import { useI18n } from '../services/i18n';
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const ImageStoragePanel: React.FC = () => {
+  const { t } = useI18n();
+  const [usage, setUsage] = useState<ImageStoreUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    getImageStoreUsage()
+      .then(setUsage)
+      .catch((e) => setError(String(e)));
+  };
+
+  useEffect(refresh, []);
+
+  const handleClear = async () => {
+    if (!confirm(t.images.confirmClear)) return;
+    await clearImages();
+    refresh();
+  };
+
+  return (
+    <div className="mt-3 pt-2 border-t border-slate-700">
+      <p className="text-xs text-yellow-400 font-bold mb-2 flex items-center">
+        <Image size={12} className="mr-1" /> {t.images.title}
+      </p>
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : usage ? (
+        <div className="text-xs text-slate-400 space-y-1">
+          <p>{t.images.usage(usage.imageCount, formatMegabytes(usage.imageBytes), formatMegabytes(MAX_IMAGE_STORE_BYTES))}</p>
+          {usage.quota !== undefined && usage.usage !== undefined && (
+            <p>{t.images.browserUsage(formatMegabytes(usage.usage), formatMegabytes(usage.quota))}</p>
+          )}
+          <p className="text-slate-500">{t.images.evictionNote}</p>
+          <button onClick={handleClear} className="text-red-400 underline hover:text-red-300">
+            {t.images.clear}
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">{t.images.loading}</p>
+      )}
+    </div>
+  );
+};
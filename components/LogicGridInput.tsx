@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, X, Undo2, RotateCcw } from 'lucide-react';
+import { LogicGrid } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface LogicGridInputProps {
+  grid: LogicGrid;
+  onChange: (answer: string[]) => void;
+}
+
+type Mark = 'yes' | 'no';
+// Cells are keyed "entity|attribute|value" by index
+type Marks = Record<string, Mark>;
+
+const cellKey = (entity: number, attribute: number, value: number) => `${entity}|${attribute}|${value}`;
+
+// Fills in what follows from the player's marks until nothing changes: a ✓ crosses out the rest
+// of its row and column within the attribute, and a row or column with a single open cell gets a ✓.
+// Cells where the player's marks contradict each other are returned as conflicts.
+const deriveMarks = (grid: LogicGrid, marks: Marks): { marks: Marks; conflicts: Set<string> } => {
+  const derived: Marks = { ...marks };
+  const conflicts = new Set<string>();
+  const size = grid.entities.length;
+  const lines = grid.attributes.flatMap((_, attribute) => [
+    ...grid.entities.map((_, entity) => Array.from({ length: size }, (_, value) => cellKey(entity, attribute, value))),
+    ...Array.from({ length: size }, (_, value) => grid.entities.map((_, entity) => cellKey(entity, attribute, value))),
+  ]);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const line of lines) {
+      const yes = line.filter(cell => derived[cell] === 'yes');
+      if (yes.length > 1) yes.forEach(cell => conflicts.add(cell));
+      if (yes.length === 1) {
+        for (const cell of line) {
+          if (cell !== yes[0] && derived[cell] !== 'no') {
+            if (derived[cell] === 'yes') conflicts.add(cell);
+            else { derived[cell] = 'no'; changed = true; }
+          }
+        }
+      }
+      const open = line.filter(cell => derived[cell] !== 'no');
+      if (open.length === 0) line.forEach(cell => conflicts.add(cell));
+      if (yes.length === 0 && open.length === 1) {
+        derived[open[0]] = 'yes';
+        changed = true;
+      }
+    }
+  }
+  return { marks: derived, conflicts };
+};
+
+// Entities as rows, the values of each attribute as column groups. Clicking a cell cycles
+// empty → ✗ → ✓; marks that follow from others are filled in automatically and shown fainter.
+export const LogicGridInput: React.FC<LogicGridInputProps> = ({ grid, onChange }) => {
+  const { t } = useI18n();
+  const [history, setHistory] = useState<Marks[]>([{}]);
+  const [usedClues, setUsedClues] = useState<number[]>([]);
+  const marks = history[history.length - 1];
+  const { marks: derived, conflicts } = useMemo(() => deriveMarks(grid, marks), [grid, marks]);
+
+  // The answer lists each entity's ✓ value per attribute, empty where none is set yet
+  useEffect(() => {
+    onChange(grid.entities.flatMap((_, entity) => grid.attributes.map((attribute, attributeIdx) => {
+      const value = attribute.values.findIndex((_, valueIdx) => derived[cellKey(entity, attributeIdx, valueIdx)] === 'yes');
+      return value === -1 ? '' : attribute.values[value];
+    })));
+  }, [derived]);
+
+  const toggleCell = (key: string) => {
+    const current = marks[key];
+    const next: Marks = { ...marks };
+    if (current === undefined) next[key] = derived[key] === 'no' ? 'yes' : 'no';
+    else if (current === 'no') next[key] = 'yes';
+    else delete next[key];
+    setHistory([...history, next]);
+  };
+
+  const toggleClue = (idx: number) =>
+    setUsedClues(used => (used.includes(idx) ? used.filter(i => i !== idx) : [...used, idx]));
+
+  return (
+    <div className="space-y-4">
+      <ol className="space-y-1 text-sm">
+        {grid.clues.map((clue, idx) => (
+          <li key={idx}>
+            <button
+              type="button"
+              onClick={() => toggleClue(idx)}
+              className={`text-left w-full px-2 py-1 rounded hover:bg-slate-800 ${usedClues.includes(idx) ? 'line-through text-slate-500' : 'text-slate-200'}`}
+              title={t.grid.markClue}
+            >
+              <span className="text-yellow-400 font-bold mr-2">{idx + 1}.</span>{clue.text}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="border-collapse text-xs text-slate-200 mx-auto">
+          <thead>
+            <tr>
+              <th />
+              {grid.attributes.map(attribute => (
+                <th key={attribute.name} colSpan={attribute.values.length} className="px-1 pb-1 text-yellow-300 border-l-2 border-slate-600">
+                  {attribute.name}
+                </th>
+              ))}
+            </tr>
+            <tr>
+              <th className="px-2 text-left text-slate-400 font-normal">{grid.entityLabel}</th>
+              {grid.attributes.map(attribute => attribute.values.map((value, valueIdx) => (
+                <th
+                  key={`${attribute.name}-${valueIdx}`}
+                  className={`px-1 pb-1 font-normal text-slate-300 max-w-[5rem] break-words ${valueIdx === 0 ? 'border-l-2 border-slate-600' : ''}`}
+                >
+                  {value}
+                </th>
+              )))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.entities.map((entity, entityIdx) => (
+              <tr key={entity}>
+                <th className="px-2 py-1 text-left font-bold whitespace-nowrap">{entity}</th>
+                {grid.attributes.map((attribute, attributeIdx) => attribute.values.map((value, valueIdx) => {
+                  const key = cellKey(entityIdx, attributeIdx, valueIdx);
+                  const mark = derived[key];
+                  const isAuto = mark !== undefined && marks[key] === undefined;
+                  return (
+                    <td key={key} className={`p-0.5 ${valueIdx === 0 ? 'border-l-2 border-slate-600' : ''}`}>
+                      <button
+                        type="button"
+                        onClick={() => toggleCell(key)}
+                        aria-label={`${entity} – ${value}: ${mark === 'yes' ? t.grid.yes : mark === 'no' ? t.grid.no : t.grid.open}`}
+                        className={`w-8 h-8 flex items-center justify-center rounded border transition-colors
+                          ${conflicts.has(key) ? 'bg-red-900/60 border-red-500' : 'bg-slate-800 border-slate-700 hover:bg-slate-700'}
+                          ${isAuto ? 'opacity-50' : ''}`}
+                      >
+                        {mark === 'yes' && <Check size={16} className="text-green-400" />}
+                        {mark === 'no' && <X size={16} className="text-red-400" />}
+                      </button>
+                    </td>
+                  );
+                }))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-center gap-3 text-sm">
+        <button
+          type="button"
+          onClick={() => setHistory(history.slice(0, -1))}
+          disabled={history.length <= 1}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-100"
+        >
+          <Undo2 size={14} /> {t.grid.undo}
+        </button>
+        <button
+          type="button"
+          onClick={() => setHistory([...history, {}])}
+          disabled={Object.keys(marks).length === 0}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-100"
+        >
+          <RotateCcw size={14} /> {t.grid.clear}
+        </button>
+      </div>
+      {conflicts.size > 0 && (
+        <p className="text-center text-xs text-red-300">{t.grid.conflicts}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+interface MissedDoorBannerProps {
+  day: number;
+  canCatchUp: boolean; // Still inside the unlock window
+  onOpen: () => void;
+  onDismiss: () => void;
+}
+
+export const MissedDoorBanner: React.FC<MissedDoorBannerProps> = ({ day, canCatchUp, onOpen, onDismiss }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full max-w-5xl px-4 mb-4">
+      <div className="flex items-center gap-3 bg-slate-800/90 border border-yellow-600 rounded-xl p-3 text-sm text-slate-200">
+        <AlertTriangle size={18} className="text-yellow-400 shrink-0" />
+        <p className="flex-1">
+          {t.missedDoor.missed(day)}
+          {canCatchUp ? ` ${t.missedDoor.catchUp}` : ''}
+        </p>
+        {canCatchUp && (
+          <button onClick={onOpen} className="px-3 py-1 rounded-lg bg-yellow-600 hover:bg-yellow-500 text-slate-900 font-bold">
+            {t.missedDoor.openNow}
+          </button>
+        )}
+        <button onClick={onDismiss} className="text-slate-400 hover:text-white" title={t.missedDoor.dismiss}>
+          <X size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
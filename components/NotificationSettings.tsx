@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Bell } from 'lucide-react';
+import { Profile } from '../types';
+import { useI18n } from '../services/i18n';
+import { areNotificationsSupported, getNotificationPermission, requestNotificationPermission } from '../services/notifications';
+
+interface NotificationSettingsProps {
+  profiles: Profile[];
+  onChange: (profileId: string, notificationTime: string | undefined) => void;
+}
+
+const DEFAULT_TIME = '16:00';
+
+export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ profiles, onChange }) => {
+  const { t } = useI18n();
+  const [permission, setPermission] = useState<NotificationPermission>(getNotificationPermission);
+
+  // Switching a reminder on asks for permission first; without it nothing is stored
+  const handleToggle = async (profile: Profile, enabled: boolean) => {
+    if (!enabled) {
+      onChange(profile.id, undefined);
+      return;
+    }
+    const result = permission === 'granted' ? permission : await requestNotificationPermission();
+    setPermission(result);
+    if (result === 'granted') onChange(profile.id, profile.notificationTime ?? DEFAULT_TIME);
+  };
+
+  return (
+    <div className="mt-3 pt-2 border-t border-slate-700">
+      <p className="text-xs text-yellow-400 font-bold mb-2 flex items-center">
+        <Bell size={12} className="mr-1" /> {t.notifications.title}
+      </p>
+      {!areNotificationsSupported() ? (
+        <p className="text-xs text-slate-500">{t.notifications.unsupported}</p>
+      ) : profiles.length === 0 ? (
+        <p className="text-xs text-slate-500">{t.common.noProfiles}</p>
+      ) : (
+        <div className="space-y-1">
+          {permission === 'denied' && (
+            <p className="text-xs text-red-400">{t.notifications.blocked}</p>
+          )}
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center gap-2 text-xs text-slate-300">
+              <label className="flex items-center flex-1 min-w-0 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={Boolean(profile.notificationTime)}
+                  onChange={(e) => handleToggle(profile, e.target.checked)}
+                  disabled={permission === 'denied'}
+                  className="mr-2"
+                />
+                <span className="truncate">{profile.avatar} {profile.name}</span>
+              </label>
+              <input
+                type="time"
+                value={profile.notificationTime ?? DEFAULT_TIME}
+                onChange={(e) => e.target.value && onChange(profile.id, e.target.value)}
+                disabled={!profile.notificationTime}
+                className="bg-slate-700 rounded p-1 text-slate-100 disabled:opacity-50"
+              />
+            </div>
+          ))}
+          <p className="text-slate-500 text-xs">{t.notifications.explanation}</p>
+        </div>
+      )}
+    </div>
+  );
+};
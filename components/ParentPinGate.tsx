@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { verifyParentPin } from '../services/parentPin';
+import { useDialog } from '../services/dialog';
+import { useI18n } from '../services/i18n';
+
+interface ParentPinGateProps {
+  title: string;
+  onUnlock: () => void;
+  onCancel: () => void;
+}
+
+// Asks for the parent PIN; it is chosen on first run (ParentPinSetup), never here
+export const ParentPinGate: React.FC<ParentPinGateProps> = ({ title, onUnlock, onCancel }) => {
+  const { t } = useI18n();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const dialogRef = useDialog<HTMLFormElement>(onCancel);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (await verifyParentPin(pin)) {
+      onUnlock();
+    } else {
+      setPin('');
+      setError(t.pin.wrong);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="parent-pin-title"
+        aria-describedby="parent-pin-text"
+        tabIndex={-1}
+        onSubmit={handleSubmit}
+        className="bg-slate-900 border-2 border-yellow-600 rounded-xl p-6 w-full max-w-xs text-center shadow-2xl space-y-3 focus:outline-none"
+      >
+        <KeyRound className="w-10 h-10 text-yellow-400 mx-auto" aria-hidden="true" />
+        <h3 id="parent-pin-title" className="text-xl text-yellow-100 font-bold">{title}</h3>
+        <p id="parent-pin-text" className="text-slate-400 text-sm">{t.pin.enterText}</p>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+          placeholder={t.pin.placeholder}
+          aria-label={t.pin.placeholder}
+          className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        {error && <p role="alert" className="text-red-400 text-sm font-bold">{error}</p>}
+        <div className="flex gap-2 pt-1">
+          <button type="button" onClick={onCancel} className="flex-1 bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded-lg">
+            {t.pin.cancel}
+          </button>
+          <button type="submit" className="flex-1 bg-yellow-600 hover:bg-yellow-500 text-yellow-900 font-bold py-2 rounded-lg">
+            {t.pin.unlock}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { isValidPinFormat, setParentPin } from '../services/parentPin';
+import { useDialog } from '../services/dialog';
+import { useI18n } from '../services/i18n';
+
+interface ParentPinSetupProps {
+  onDone: () => void;
+}
+
+// First run: the parent who sets up the calendar chooses the PIN before any profile exists.
+// It cannot be skipped, otherwise the first child to open the settings could pick it.
+export const ParentPinSetup: React.FC<ParentPinSetupProps> = ({ onDone }) => {
+  const { t } = useI18n();
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const dialogRef = useDialog<HTMLFormElement>(() => {});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!isValidPinFormat(pin)) {
+      setError(t.pin.invalidFormat);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError(t.pin.mismatch);
+      return;
+    }
+    await setParentPin(pin);
+    onDone();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="parent-pin-setup-title"
+        aria-describedby="parent-pin-setup-text"
+        tabIndex={-1}
+        onSubmit={handleSubmit}
+        className="bg-slate-900 border-2 border-yellow-600 rounded-xl p-6 w-full max-w-sm text-center shadow-2xl space-y-3 focus:outline-none"
+      >
+        <KeyRound className="w-10 h-10 text-yellow-400 mx-auto" aria-hidden="true" />
+        <h2 id="parent-pin-setup-title" className="text-xl text-yellow-100 font-bold">{t.pin.setupTitle}</h2>
+        <p id="parent-pin-setup-text" className="text-slate-400 text-sm">{t.pin.setupText}</p>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="new-password"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+          placeholder={t.pin.placeholder}
+          aria-label={t.pin.placeholder}
+          className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="new-password"
+          value={confirmPin}
+          onChange={(e) => setConfirmPin(e.target.value)}
+          placeholder={t.pin.confirmPlaceholder}
+          aria-label={t.pin.confirmPlaceholder}
+          className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        {error && <p role="alert" className="text-red-400 text-sm font-bold">{error}</p>}
+        <button type="submit" className="w-full bg-yellow-600 hover:bg-yellow-500 text-yellow-900 font-bold py-2 rounded-lg">
+          {t.pin.save}
+        </button>
+      </form>
+    </div>
+  );
+};
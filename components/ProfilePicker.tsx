@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { UserPlus, Trash2 } from 'lucide-react';
+import { AgeGroup, Difficulty, Profile } from '../types';
+import { AGE_GROUPS, PROFILE_AVATARS, createProfile } from '../services/profiles';
+import { DIFFICULTIES, getDefaultDifficultyForAgeGroup } from '../services/difficulty';
+import { useDialog } from '../services/dialog';
+import { useI18n } from '../services/i18n';
+import { ParentPinGate } from './ParentPinGate';
+
+interface ProfilePickerProps {
+  profiles: Profile[];
+  onSelect: (profileId: string) => void;
+  onCreate: (profile: Profile) => void;
+  onDelete: (profileId: string) => void;
+}
+
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, onSelect, onCreate, onDelete }) => {
+  const { t } = useI18n();
+  const [isCreating, setIsCreating] = useState(profiles.length === 0);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [ageGroup, setAgeGroup] = useState<AgeGroup>('child');
+  const [difficulty, setDifficulty] = useState<Difficulty>(getDefaultDifficultyForAgeGroup('child'));
+  const [profileToDelete, setProfileToDelete] = useState<Profile | null>(null);
+  // Nothing to go back to without a profile, so Escape keeps the picker open
+  const dialogRef = useDialog<HTMLDivElement>(() => {});
+
+  // Picking an age group suggests its level, which can still be changed afterwards
+  const handleAgeGroupChange = (group: AgeGroup) => {
+    setAgeGroup(group);
+    setDifficulty(getDefaultDifficultyForAgeGroup(group));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    const profile = createProfile(name, avatar, ageGroup, difficulty);
+    onCreate(profile);
+    onSelect(profile.id);
+  };
+
+  // Deleting takes the profile's progress on every synced device, so like a reset it needs the parent PIN
+  const handleDelete = (profile: Profile) => {
+    if (confirm(t.profiles.confirmDelete(profile.name))) {
+      setProfileToDelete(profile);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="profile-picker-title"
+        tabIndex={-1}
+        className="w-full max-w-lg bg-slate-900 border-4 border-yellow-600 rounded-2xl shadow-2xl overflow-hidden focus:outline-none"
+      >
+        <div className="bg-red-800 p-4 border-b-2 border-yellow-600 text-center">
+          <h2 id="profile-picker-title" className="text-3xl font-christmas font-bold text-yellow-100">{t.profiles.title}</h2>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {profiles.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {profiles.map(profile => (
+                <div key={profile.id} className="relative group">
+                  <button
+                    onClick={() => onSelect(profile.id)}
+                    className="w-full flex flex-col items-center p-4 rounded-xl bg-slate-800 border-2 border-slate-700 hover:border-yellow-500 hover:bg-slate-700 transition-all"
+                  >
+                    <span className="text-4xl mb-1">{profile.avatar}</span>
+                    <span className="font-bold text-slate-100 truncate max-w-full">{profile.name}</span>
+                    <span className="text-xs text-slate-400">
+                      {t.profiles.ageGroups[profile.ageGroup]} · {t.difficulties[profile.difficulty]}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(profile)}
+                    className="absolute top-1 right-1 p-1 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    title={t.profiles.delete}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isCreating ? (
+            <form onSubmit={handleCreate} className="space-y-3 bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+              <input
+                type="text"
+                value={name}
+                autoFocus
+                maxLength={20}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t.profiles.namePlaceholder}
+                aria-label={t.profiles.namePlaceholder}
+                className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              />
+              <div role="group" aria-label={t.profiles.avatar} className="flex flex-wrap gap-2">
+                {PROFILE_AVATARS.map((emoji, idx) => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    onClick={() => setAvatar(emoji)}
+                    aria-label={t.profiles.avatars[idx] ?? emoji}
+                    aria-pressed={avatar === emoji}
+                    className={`text-2xl p-1 rounded-lg border-2 ${avatar === emoji ? 'border-yellow-500 bg-yellow-600/20' : 'border-transparent hover:bg-slate-700'}`}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={ageGroup}
+                onChange={(e) => handleAgeGroupChange(e.target.value as AgeGroup)}
+                aria-label={t.profiles.ageGroup}
+                className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              >
+                {AGE_GROUPS.map(group => (
+                  <option key={group} value={group}>{t.profiles.ageGroups[group]}</option>
+                ))}
+              </select>
+              <select
+                value={difficulty}
+                onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+                aria-label={t.profiles.difficulty}
+                className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              >
+                {DIFFICULTIES.map(level => (
+                  <option key={level} value={level}>{t.profiles.difficultyOption(t.difficulties[level])}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="w-full bg-gradient-to-r from-red-700 to-red-600 hover:from-red-600 hover:to-red-500 disabled:opacity-50 text-white font-bold py-2 rounded-lg border-2 border-red-800"
+              >
+                {t.profiles.start}
+              </button>
+            </form>
+          ) : (
+            <button
+              onClick={() => setIsCreating(true)}
+              className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border-2 border-dashed border-slate-600 text-slate-300 hover:border-yellow-500 hover:text-yellow-200"
+            >
+              <UserPlus size={18} /> {t.profiles.create}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {profileToDelete && (
+        <ParentPinGate
+          title={t.profiles.delete}
+          onUnlock={() => { onDelete(profileToDelete.id); setProfileToDelete(null); }}
+          onCancel={() => setProfileToDelete(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,507 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Lock, Unlock, Eye, Save, Wand2, RefreshCw, Palette } from 'lucide-react';
+import { CalendarState, Difficulty, LogicGrid, Riddle, RiddleEditableField, RiddlePair, RiddleProvider, RiddleType } from '../types';
+import { createId, findRiddleProblems } from '../services/riddleSanitizer';
+import { RIDDLE_TYPES, TYPES_WITH_OPTIONS, describeCorrectAnswer } from '../services/riddleTypes';
+import { findLogicGridProblems, parseLogicGrid, withGridSolution } from '../services/logicGrid';
+import { loadRiddleImage } from '../services/familyRiddles';
+import { DOOR_DAYS } from '../services/calendarConfig';
+import { DIFFICULTIES } from '../services/difficulty';
+import { useDialog } from '../services/dialog';
+import { useI18n } from '../services/i18n';
+import { RiddleModal } from './RiddleModal';
+
+interface RiddleEditorProps {
+  calendarState: CalendarState;
+  provider: RiddleProvider;
+  difficulty: Difficulty; // Level for regenerated riddles that do not carry one yet
+  onSave: (day: number, riddle: Riddle, isLocked: boolean) => void;
+  onImageChange: (day: number, riddleId: string, imageUrl: string) => void;
+  onClose: () => void;
+}
+
+const createEmptyRiddle = (day: number): Riddle => ({
+  day,
+  question: '',
+  type: 'text',
+  correctAnswer: '',
+  acceptedAnswers: [],
+  solutionExplanation: '',
+  hints: ['', '', ''],
+});
+
+// List fields are edited as one entry per line; empty lines are dropped on save
+const toLines = (values?: string[]) => (values || []).join('\n');
+const fromLines = (text: string) => text.split('\n');
+const cleanLines = (values?: string[]) => values?.map(line => line.trim()).filter(Boolean);
+
+// Matching pairs are edited as two columns of lines, paired up by line number
+const zipPairs = (left: string[], right: string[]): RiddlePair[] =>
+  Array.from({ length: Math.max(left.length, right.length) }, (_, i) => ({ left: left[i] ?? '', right: right[i] ?? '' }));
+const cleanPairs = (pairs?: RiddlePair[]) =>
+  pairs?.map(pair => ({ left: pair.left.trim(), right: pair.right.trim() })).filter(pair => pair.left || pair.right);
+
+const inputClass = "w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500";
+
+type BusyTarget = RiddleEditableField | 'all' | 'image' | null;
+
+// Ties the visible labels to their inputs
+const fieldId = (field: string) => `riddle-editor-${field}`;
+
+interface FieldLabelProps {
+  label: string;
+  field: RiddleEditableField;
+  busyField: BusyTarget;
+  canRevise: boolean;
+  onRevise: (field: RiddleEditableField) => void;
+}
+
+const FieldLabel: React.FC<FieldLabelProps> = ({ label, field, busyField, canRevise, onRevise }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center justify-between mb-1">
+      <label htmlFor={fieldId(field)} className="text-xs font-bold text-yellow-200">{label}</label>
+      {canRevise && (
+        <button
+          type="button"
+          onClick={() => onRevise(field)}
+          disabled={busyField !== null}
+          className="text-xs text-slate-400 hover:text-yellow-300 disabled:opacity-40 flex items-center"
+          title={t.editor.reviseTitle}
+        >
+          <Wand2 size={12} className={`mr-1 ${busyField === field ? 'animate-spin' : ''}`} /> {t.editor.revise}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Starting point when a riddle becomes a logic grid
+const EXAMPLE_GRID: LogicGrid = {
+  entityLabel: 'Kind',
+  entities: ['Anna', 'Ben', 'Clara'],
+  attributes: [{ name: 'Geschenk', values: ['Mütze', 'Buch', 'Schlitten'] }],
+  clues: [
+    { text: 'Ben bekommt den Schlitten.', kind: 'same', a: 'Ben', b: 'Schlitten' },
+    { text: 'Anna bekommt nicht das Buch.', kind: 'different', a: 'Anna', b: 'Buch' },
+  ],
+};
+
+// Logic grids are edited as JSON; the solver reports right away whether the clues allow exactly one solution
+const GridField: React.FC<{ grid?: LogicGrid; onChange: (grid: LogicGrid) => void }> = ({ grid, onChange }) => {
+  const { t } = useI18n();
+  const [text, setText] = useState(() => JSON.stringify({ ...grid, solution: undefined }, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [droppedClues, setDroppedClues] = useState<string[]>([]);
+  const problems = useMemo(() => findLogicGridProblems(grid), [grid]);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    try {
+      const parsed = JSON.parse(value);
+      const { grid: sanitized, problems: dropped } = parseLogicGrid(parsed);
+      if (!sanitized) throw new Error(t.editor.gridInvalid);
+      setParseError(null);
+      setDroppedClues(dropped);
+      onChange(withGridSolution(sanitized));
+    } catch (e) {
+      setParseError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor={fieldId('grid')} className="text-xs font-bold text-yellow-200">{t.editor.gridLabel}</label>
+      <textarea id={fieldId('grid')} rows={12} value={text} onChange={(e) => handleChange(e.target.value)} className={`${inputClass} mt-1 font-mono text-xs`} spellCheck={false} />
+      <p className="text-xs text-slate-500 mt-1">
+        {t.editor.gridHelp}
+      </p>
+      {!parseError && droppedClues.length > 0 && (
+        <p className="text-xs text-amber-300 mt-1">{droppedClues.join(' ')}</p>
+      )}
+      {parseError ? (
+        <p className="text-xs text-red-300 mt-1">{parseError}</p>
+      ) : problems.length > 0 ? (
+        <p className="text-xs text-red-300 mt-1">{problems.join(' ')}</p>
+      ) : (
+        <p className="text-xs text-green-400 mt-1">{t.editor.gridUnique}</p>
+      )}
+    </div>
+  );
+};
+
+export const RiddleEditor: React.FC<RiddleEditorProps> = ({ calendarState, provider, difficulty, onSave, onImageChange, onClose }) => {
+  const { t, formatDoorDate } = useI18n();
+  const [selectedDay, setSelectedDay] = useState<number>(DOOR_DAYS[0]);
+  const [draft, setDraft] = useState<Riddle>(() => calendarState[DOOR_DAYS[0]]?.riddle || createEmptyRiddle(DOOR_DAYS[0]));
+  const [isLocked, setIsLocked] = useState<boolean>(Boolean(calendarState[DOOR_DAYS[0]]?.isLocked));
+  const [busyField, setBusyField] = useState<BusyTarget>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [showPreview, setShowPreview] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+
+  const selectDay = (day: number) => {
+    setSelectedDay(day);
+    setDraft(calendarState[day]?.riddle || createEmptyRiddle(day));
+    setIsLocked(Boolean(calendarState[day]?.isLocked));
+    setProblems([]);
+    setIsSaved(false);
+  };
+
+  // Stored riddles come without their image, fetch it from the image store or the family server
+  useEffect(() => {
+    if (!draft.id || draft.imageUrl) return;
+    let cancelled = false;
+    loadRiddleImage(draft.day, draft.id)
+      .then((imageUrl) => { if (!cancelled && imageUrl) setDraft(prev => prev.id === draft.id ? { ...prev, imageUrl } : prev); })
+      .catch((e) => console.warn("Could not load stored image:", e));
+    return () => { cancelled = true; };
+  }, [draft.id, draft.day, draft.imageUrl]);
+
+  const updateDraft = (changes: Partial<Riddle>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsSaved(false);
+  };
+
+  // Keeps what still fits the new type and starts the rest with empty lines to fill in
+  const handleTypeChange = (type: RiddleType) => {
+    updateDraft({
+      type,
+      options: TYPES_WITH_OPTIONS.includes(type)
+        ? (draft.options?.length ? draft.options : [draft.correctAnswer, '', '', ''])
+        : undefined,
+      correctAnswers: type === 'multi' ? (draft.correctAnswers ?? []) : undefined,
+      pairs: type === 'match' ? (draft.pairs?.length ? draft.pairs : zipPairs(['', '', ''], ['', '', ''])) : undefined,
+      tolerance: type === 'number' ? draft.tolerance : undefined,
+      unit: type === 'number' ? draft.unit : undefined,
+      grid: type === 'grid' ? (draft.grid ?? withGridSolution(EXAMPLE_GRID)) : undefined,
+    });
+  };
+
+  const handleReviseField = async (field: RiddleEditableField) => {
+    if (!provider.reviseField) return;
+    setBusyField(field);
+    setProblems([]);
+    try {
+      setDraft(await provider.reviseField(draft, field));
+      setIsSaved(false);
+    } catch (e) {
+      setProblems([t.editor.reviseFailed(String(e))]);
+    } finally {
+      setBusyField(null);
+    }
+  };
+
+  const handleRegenerateAll = async () => {
+    setBusyField('all');
+    setProblems([]);
+    try {
+      // A fresh variant keeps caching backends from handing back the riddle being replaced
+      setDraft(await provider.generateRiddle(selectedDay, { difficulty: draft.difficulty ?? difficulty, variant: createId() }));
+      setIsSaved(false);
+    } catch (e) {
+      setProblems([t.editor.regenerateFailed(String(e))]);
+    } finally {
+      setBusyField(null);
+    }
+  };
+
+  const handleRegenerateImage = async () => {
+    if (!provider.generateImage) return;
+    setBusyField('image');
+    setProblems([]);
+    try {
+      const imageUrl = await provider.generateImage(draft);
+      if (!imageUrl) throw new Error(t.editor.noImageReturned);
+      setDraft(prev => ({ ...prev, imageUrl }));
+      // The image alone can be replaced without saving the rest of the form
+      if (draft.id && calendarState[selectedDay]?.riddle?.id === draft.id) {
+        onImageChange(selectedDay, draft.id, imageUrl);
+      }
+    } catch (e) {
+      setProblems([t.editor.imageFailed(String(e))]);
+    } finally {
+      setBusyField(null);
+    }
+  };
+
+  const handleSave = () => {
+    const cleaned: Riddle = {
+      ...draft,
+      id: draft.id || createId(),
+      options: TYPES_WITH_OPTIONS.includes(draft.type) ? cleanLines(draft.options) : undefined,
+      acceptedAnswers: draft.type === 'text' ? cleanLines(draft.acceptedAnswers) : undefined,
+      correctAnswers: draft.type === 'multi' ? cleanLines(draft.correctAnswers) : undefined,
+      pairs: draft.type === 'match' ? cleanPairs(draft.pairs) : undefined,
+      tolerance: draft.type === 'number' && draft.tolerance ? draft.tolerance : undefined,
+      unit: draft.type === 'number' ? draft.unit?.trim() || undefined : undefined,
+      grid: draft.type === 'grid' ? draft.grid : undefined,
+    };
+    cleaned.correctAnswer = describeCorrectAnswer(cleaned);
+    const found = findRiddleProblems(cleaned, `Tag ${selectedDay}`);
+    setProblems(found);
+    if (found.length === 0) {
+      setDraft(cleaned);
+      onSave(selectedDay, cleaned, isLocked);
+      setIsSaved(true);
+    }
+  };
+
+  const canRevise = Boolean(provider.reviseField) && draft.question.trim().length > 0;
+  const labelProps = { busyField, canRevise, onRevise: handleReviseField };
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="riddle-editor-title"
+      tabIndex={-1}
+      className="fixed inset-0 z-40 flex bg-slate-950/95 backdrop-blur-sm focus:outline-none"
+    >
+      {/* Door List */}
+      <aside className="w-28 sm:w-40 border-r border-slate-700 overflow-y-auto custom-scrollbar">
+        {DOOR_DAYS.map(day => {
+          const door = calendarState[day];
+          return (
+            <button
+              key={day}
+              onClick={() => selectDay(day)}
+              className={`w-full flex items-center justify-between px-3 py-2 text-sm border-b border-slate-800 ${
+                day === selectedDay ? 'bg-red-800 text-yellow-100' : 'text-slate-300 hover:bg-slate-800'
+              }`}
+            >
+              <span className="font-christmas font-bold text-lg">{day}</span>
+              <span className="flex items-center gap-1 text-xs text-slate-400">
+                {door?.riddle ? '✎' : '–'}
+                {door?.isLocked && <Lock size={12} className="text-yellow-400" />}
+              </span>
+            </button>
+          );
+        })}
+      </aside>
+
+      {/* Form */}
+      <section className="flex-1 flex flex-col min-w-0">
+        <div className="bg-red-800 p-4 flex justify-between items-center border-b-2 border-yellow-600">
+          <h2 id="riddle-editor-title" className="text-2xl font-christmas font-bold text-yellow-100">{t.editor.title(formatDoorDate(selectedDay))}</h2>
+          <button type="button" onClick={onClose} aria-label={t.common.close} className="text-yellow-200 hover:text-white transition-colors">
+            <X size={28} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4 max-w-3xl w-full">
+          <div className="flex items-end gap-3">
+            {draft.imageUrl ? (
+              <img src={draft.imageUrl} alt={t.editor.imageAlt} className="w-40 h-28 object-cover rounded-lg border-2 border-amber-900/50" />
+            ) : (
+              <div className="w-40 h-28 rounded-lg bg-gradient-to-br from-red-900 to-slate-900 border-2 border-yellow-900/30 flex items-center justify-center text-xs text-yellow-200/50">
+                {t.editor.noImage}
+              </div>
+            )}
+            {provider.generateImage && (
+              <button
+                type="button"
+                onClick={handleRegenerateImage}
+                disabled={busyField !== null || !draft.question.trim()}
+                className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-100 text-sm py-2 px-3 rounded-lg"
+              >
+                <Palette size={14} className={busyField === 'image' ? 'animate-spin' : ''} /> {t.editor.redrawImage}
+              </button>
+            )}
+          </div>
+
+          <div>
+            <FieldLabel label={t.editor.question} field="question" {...labelProps} />
+            <textarea id={fieldId('question')} rows={4} value={draft.question} onChange={(e) => updateDraft({ question: e.target.value })} className={inputClass} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor={fieldId('type')} className="text-xs font-bold text-yellow-200">{t.editor.type}</label>
+              <select id={fieldId('type')} value={draft.type} onChange={(e) => handleTypeChange(e.target.value as RiddleType)} className={`${inputClass} mt-1`}>
+                {RIDDLE_TYPES.map(type => (
+                  <option key={type} value={type}>{t.riddleTypes[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={fieldId('difficulty')} className="text-xs font-bold text-yellow-200">{t.editor.difficulty}</label>
+              <select
+                id={fieldId('difficulty')}
+                value={draft.difficulty ?? ''}
+                onChange={(e) => updateDraft({ difficulty: (e.target.value || undefined) as Difficulty | undefined })}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="">{t.editor.noDifficulty}</option>
+                {DIFFICULTIES.map(level => (
+                  <option key={level} value={level}>{t.difficulties[level]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {TYPES_WITH_OPTIONS.includes(draft.type) && (
+            <div>
+              <FieldLabel
+                label={draft.type === 'order' ? t.editor.orderItems : t.editor.options}
+                field="options"
+                {...labelProps}
+              />
+              <textarea id={fieldId('options')} rows={4} value={toLines(draft.options)} onChange={(e) => updateDraft({ options: fromLines(e.target.value) })} className={inputClass} />
+              {draft.type === 'order' && <p className="text-xs text-slate-500 mt-1">{t.editor.shuffledNote}</p>}
+            </div>
+          )}
+
+          {draft.type === 'multi' && (
+            <div>
+              <label htmlFor={fieldId('correctAnswers')} className="text-xs font-bold text-yellow-200">{t.editor.correctAnswers}</label>
+              <textarea id={fieldId('correctAnswers')} rows={3} value={toLines(draft.correctAnswers)} onChange={(e) => updateDraft({ correctAnswers: fromLines(e.target.value) })} className={`${inputClass} mt-1`} />
+            </div>
+          )}
+
+          {draft.type === 'match' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor={fieldId('pairs-left')} className="text-xs font-bold text-yellow-200">{t.editor.pairsLeft}</label>
+                <textarea
+                  id={fieldId('pairs-left')}
+                  rows={4}
+                  value={toLines(draft.pairs?.map(pair => pair.left))}
+                  onChange={(e) => updateDraft({ pairs: zipPairs(fromLines(e.target.value), draft.pairs?.map(pair => pair.right) ?? []) })}
+                  className={`${inputClass} mt-1`}
+                />
+              </div>
+              <div>
+                <label htmlFor={fieldId('pairs-right')} className="text-xs font-bold text-yellow-200">{t.editor.pairsRight}</label>
+                <textarea
+                  id={fieldId('pairs-right')}
+                  rows={4}
+                  value={toLines(draft.pairs?.map(pair => pair.right))}
+                  onChange={(e) => updateDraft({ pairs: zipPairs(draft.pairs?.map(pair => pair.left) ?? [], fromLines(e.target.value)) })}
+                  className={`${inputClass} mt-1`}
+                />
+              </div>
+            </div>
+          )}
+
+          {draft.type === 'grid' && (
+            <GridField key={draft.id ?? selectedDay} grid={draft.grid} onChange={(grid) => updateDraft({ grid })} />
+          )}
+
+          {(draft.type === 'text' || draft.type === 'choice' || draft.type === 'number') && (
+            <div>
+              <FieldLabel label={draft.type === 'number' ? t.editor.correctNumber : t.editor.correctAnswer} field="correctAnswer" {...labelProps} />
+              <input id={fieldId('correctAnswer')} type="text" value={draft.correctAnswer} onChange={(e) => updateDraft({ correctAnswer: e.target.value })} className={inputClass} />
+            </div>
+          )}
+
+          {draft.type === 'number' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor={fieldId('tolerance')} className="text-xs font-bold text-yellow-200">{t.editor.tolerance}</label>
+                <input
+                  id={fieldId('tolerance')}
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={draft.tolerance ?? ''}
+                  onChange={(e) => updateDraft({ tolerance: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                  className={`${inputClass} mt-1`}
+                />
+              </div>
+              <div>
+                <label htmlFor={fieldId('unit')} className="text-xs font-bold text-yellow-200">{t.editor.unit}</label>
+                <input id={fieldId('unit')} type="text" value={draft.unit ?? ''} placeholder={t.editor.unitPlaceholder} onChange={(e) => updateDraft({ unit: e.target.value })} className={`${inputClass} mt-1`} />
+              </div>
+            </div>
+          )}
+
+          {draft.type === 'text' && (
+            <div>
+              <FieldLabel label={t.editor.acceptedAnswers} field="acceptedAnswers" {...labelProps} />
+              <textarea id={fieldId('acceptedAnswers')} rows={3} value={toLines(draft.acceptedAnswers)} onChange={(e) => updateDraft({ acceptedAnswers: fromLines(e.target.value) })} className={inputClass} />
+            </div>
+          )}
+
+          <div>
+            <FieldLabel label={t.editor.hints} field="hints" {...labelProps} />
+            <div className="space-y-2">
+              {[0, 1, 2].map(idx => (
+                <input
+                  key={idx}
+                  id={idx === 0 ? fieldId('hints') : undefined}
+                  type="text"
+                  value={draft.hints[idx] || ''}
+                  placeholder={t.editor.hintPlaceholder(idx + 1)}
+                  aria-label={t.editor.hintPlaceholder(idx + 1)}
+                  onChange={(e) => {
+                    const hints = [0, 1, 2].map(i => draft.hints[i] || '');
+                    hints[idx] = e.target.value;
+                    updateDraft({ hints });
+                  }}
+                  className={inputClass}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <FieldLabel label={t.editor.solution} field="solutionExplanation" {...labelProps} />
+            <textarea id={fieldId('solutionExplanation')} rows={3} value={draft.solutionExplanation} onChange={(e) => updateDraft({ solutionExplanation: e.target.value })} className={inputClass} />
+          </div>
+
+          <label className="flex items-center text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={isLocked} onChange={(e) => { setIsLocked(e.target.checked); setIsSaved(false); }} className="mr-2" />
+            {isLocked ? <Lock size={14} className="mr-1 text-yellow-400" /> : <Unlock size={14} className="mr-1" />}
+            {t.editor.lock}
+          </label>
+
+          {problems.length > 0 && (
+            <ul className="text-sm text-red-400 list-disc list-inside">
+              {problems.map((problem, idx) => <li key={idx}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="border-t border-slate-700 p-4 flex flex-wrap gap-2">
+          <button
+            onClick={handleRegenerateAll}
+            disabled={busyField !== null}
+            className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-100 py-2 px-4 rounded-lg"
+          >
+            <RefreshCw size={16} className={busyField === 'all' ? 'animate-spin' : ''} /> {t.editor.regenerateAll}
+          </button>
+          <button
+            onClick={() => setShowPreview(true)}
+            disabled={!draft.question.trim()}
+            className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-100 py-2 px-4 rounded-lg"
+          >
+            <Eye size={16} /> {t.editor.preview}
+          </button>
+          {isSaved && <span className="self-center text-sm text-green-400 ml-auto">{t.editor.saved}</span>}
+          <button
+            onClick={handleSave}
+            disabled={busyField !== null}
+            className="flex items-center gap-2 bg-yellow-600 hover:bg-yellow-500 disabled:opacity-40 text-yellow-900 font-bold py-2 px-4 rounded-lg ml-auto"
+          >
+            <Save size={16} /> {t.editor.save}
+          </button>
+        </div>
+      </section>
+
+      {/* Preview renders the real modal, solving it just returns to the editor */}
+      {showPreview && (
+        <RiddleModal
+          day={selectedDay}
+          riddle={draft}
+          isLoading={false}
+          onClose={() => setShowPreview(false)}
+          onSolved={() => setShowPreview(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,159 +1,147 @@
 import React, { useState, useEffect } from 'react';
-import { X, Lightbulb, Info, PartyPopper } from 'lucide-react';
-import { Riddle } from '../types';
+import { X, Lightbulb, Info, PartyPopper, WifiOff, AlertTriangle, RefreshCw } from 'lucide-react';
+import { Riddle, RiddleAnswer } from '../types';
+import { GenerationFailure } from '../services/riddleFallback';
+import { AnswerJudge, AnswerVerdict, checkAnswerWithJudge } from '../services/answerMatching';
+import { getInitialAnswer } from '../services/riddleTypes';
+import { loadRiddleImage } from '../services/familyRiddles';
+import { useI18n } from '../services/i18n';
+import { useDialog } from '../services/dialog';
+import { AnswerInput } from './AnswerInput';
 
 interface RiddleModalProps {
   day: number;
   riddle: Riddle | null;
   isLoading: boolean;
+  isOffline?: boolean; // No riddle yet and no network to fetch one
+  failure?: GenerationFailure | null; // Why generation failed, shown with the error or the bundled replacement
+  onRetry?: () => void; // Generates the riddle again; only passed while that makes sense
+  initialHintCount?: number; // Hints already used by this profile on an earlier visit
+  onHintUsed?: (hintsUsed: number) => void;
+  onAnswerChecked?: (isCorrect: boolean) => void;
+  judgeAnswer?: AnswerJudge; // Second opinion on near misses, only set with ANSWER_JUDGE=true
   onClose: () => void;
   onSolved: () => void;
 }
 
-// Helper: Levenshtein Distance for fuzzy string matching
-const getLevenshteinDistance = (a: string, b: string): number => {
-  if (!a) return b ? b.length : 0;
-  if (!b) return a ? a.length : 0;
-
-  const matrix: number[][] = [];
-
-  // Initialize first column
-  for (let i = 0; i <= b.length; i++) {
-    matrix[i] = [i];
-  }
-
-  // Initialize first row
-  for (let j = 0; j <= a.length; j++) {
-    matrix[0][j] = j;
-  }
-
-  for (let i = 1; i <= b.length; i++) {
-    for (let j = 1; j <= a.length; j++) {
-      if (b.charAt(i - 1) === a.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1, // substitution
-          Math.min(
-            matrix[i][j - 1] + 1, // insertion
-            matrix[i - 1][j] + 1  // deletion
-          )
-        );
-      }
-    }
-  }
-
-  return matrix[b.length][a.length];
-};
-
-const isFuzzyMatch = (user: string, correct: string): boolean => {
-  if (!user || !correct) return false;
-  // Normalize: trim, lowercase, remove punctuation
-  const normalize = (s: string) => s.trim().toLowerCase().replace(/[.,!?:;'"-]/g, '');
-  
-  const a = normalize(user);
-  const b = normalize(correct);
-  
-  if (a === b) return true;
-  
-  const dist = getLevenshteinDistance(a, b);
-  const len = Math.max(a.length, b.length);
-  
-  // Tolerance rules:
-  // Short words (<= 3 chars): Must be exact
-  // Medium words (4-7 chars): 1 error allowed
-  // Long words (> 7 chars): 2 errors allowed
-  if (len <= 3) return dist === 0;
-  if (len <= 7) return dist <= 1;
-  return dist <= 2;
+// Generated pictures are painted from the question (buildImagePrompt), so its first sentence describes them
+const describeImage = (question: string): string => {
+  const firstSentence = question.split(/(?<=[.!?])\s/)[0].trim();
+  return firstSentence.length > 120 ? `${firstSentence.slice(0, 117)}…` : firstSentence;
 };
 
-export const RiddleModal: React.FC<RiddleModalProps> = ({ day, riddle, isLoading, onClose, onSolved }) => {
-  const [userAnswer, setUserAnswer] = useState('');
+export const RiddleModal: React.FC<RiddleModalProps> = ({ day, riddle, isLoading, isOffline = false, failure, onRetry, initialHintCount = 0, onHintUsed, onAnswerChecked, judgeAnswer, onClose, onSolved }) => {
+  const { t, formatDoorDate } = useI18n();
+  const [answer, setAnswer] = useState<RiddleAnswer>(() => getInitialAnswer(riddle));
   const [hintClicks, setHintClicks] = useState(0);
-  const [showError, setShowError] = useState(false);
+  const [feedback, setFeedback] = useState<Exclude<AnswerVerdict, 'correct'> | null>(null);
+  const [isJudging, setIsJudging] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [forceShowSolution, setForceShowSolution] = useState(false);
+  const [storedImageUrl, setStoredImageUrl] = useState<string | undefined>(undefined);
+  // Read out by screen readers; the visible feedback disappears again after a moment
+  const [announcement, setAnnouncement] = useState('');
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
 
   useEffect(() => {
-    // Reset state when modal opens for a new day
-    setUserAnswer('');
-    setHintClicks(0);
-    setShowError(false);
+    // Reset state when modal opens for a new day, or a retry replaced the riddle
+    setAnswer(getInitialAnswer(riddle));
+    setHintClicks(initialHintCount);
+    setFeedback(null);
+    setIsJudging(false);
     setShowSuccess(false);
-    setForceShowSolution(false);
-  }, [day]);
+    setAnnouncement('');
+    setForceShowSolution(initialHintCount >= 4);
+  }, [day, riddle?.id]);
+
+  // Images are not part of the persisted calendar, load them lazily from the image store or the family server
+  useEffect(() => {
+    setStoredImageUrl(undefined);
+    if (!riddle?.id || riddle.imageUrl) return;
+
+    let cancelled = false;
+    loadRiddleImage(riddle.day, riddle.id)
+      .then((url) => { if (!cancelled) setStoredImageUrl(url); })
+      .catch((e) => console.warn("Could not load stored image:", e));
+    return () => { cancelled = true; };
+  }, [riddle?.id, riddle?.day, riddle?.imageUrl]);
 
   const handleHintClick = () => {
     const newCount = hintClicks + 1;
     setHintClicks(newCount);
+    onHintUsed?.(newCount);
     
     // Logic: Click 1->Hint1, Click 2->Hint2, Click 3->Hint3, Click 4->Solution
     if (newCount >= 4) {
       setForceShowSolution(true);
     }
+    const hint = riddle?.hints?.[newCount - 1];
+    if (newCount >= 4 && riddle) setAnnouncement(`${t.riddle.solutionIs} ${riddle.correctAnswer}`);
+    else if (hint) setAnnouncement(`${t.riddle.hintLabel(newCount)} ${hint}`);
   };
 
-  const handleSubmit = (e?: React.FormEvent) => {
+  const handleSubmit = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (!riddle) return;
+    if (!riddle || isJudging) return;
 
-    let isCorrect = false;
+    setFeedback(null);
+    setAnnouncement('');
+    // Only a judge call takes noticeable time
+    if (judgeAnswer) setIsJudging(true);
+    const verdict = await checkAnswerWithJudge(riddle, answer, judgeAnswer);
+    setIsJudging(false);
+    onAnswerChecked?.(verdict === 'correct');
 
-    if (riddle.type === 'choice') {
-      isCorrect = userAnswer === riddle.correctAnswer;
-    } else {
-      // Fuzzy check for text answers
-      if (isFuzzyMatch(userAnswer, riddle.correctAnswer)) {
-        isCorrect = true;
-      } else if (riddle.acceptedAnswers && Array.isArray(riddle.acceptedAnswers) && riddle.acceptedAnswers.length > 0) {
-        // Check also against alternative accepted answers
-        isCorrect = riddle.acceptedAnswers.some(ans => isFuzzyMatch(userAnswer, ans));
-      }
-    }
+    // Set after clearing, so a second wrong answer is announced again
+    const message = verdict === 'correct' ? `${t.riddle.correct} ${riddle.solutionExplanation}` : verdict === 'close' ? t.riddle.close : t.riddle.wrong;
+    setTimeout(() => setAnnouncement(message), 100);
 
-    if (isCorrect) {
+    if (verdict === 'correct') {
       setShowSuccess(true);
       setTimeout(() => {
         onSolved();
       }, 2000); // Wait 2s to show success message before closing/marking solved
     } else {
-      setShowError(true);
-      setTimeout(() => setShowError(false), 2000);
+      // A near miss stays a little longer, the player usually only has to fix a letter
+      setFeedback(verdict);
+      setTimeout(() => setFeedback(current => (current === verdict ? null : current)), verdict === 'close' ? 4000 : 2000);
     }
   };
 
-  if (!riddle && !isLoading) return null;
+  const imageUrl = riddle?.imageUrl || storedImageUrl;
 
   // Determine button label text
-  let hintButtonText = "";
-  if (hintClicks === 0) hintButtonText = "1. Hinweis";
-  else if (hintClicks === 1) hintButtonText = "2. Hinweis";
-  else if (hintClicks === 2) hintButtonText = "3. Hinweis";
-  else hintButtonText = "Lösung anzeigen";
-
-  if (forceShowSolution) hintButtonText = "Lösung angezeigt";
+  let hintButtonText = hintClicks < 3 ? t.riddle.hintButton(hintClicks + 1) : t.riddle.showSolution;
+  if (forceShowSolution) hintButtonText = t.riddle.solutionShown;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="relative w-full max-w-lg bg-slate-900 border-4 border-yellow-600 rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="riddle-modal-title"
+        tabIndex={-1}
+        className={`relative w-full ${riddle?.type === 'grid' ? 'max-w-2xl' : 'max-w-lg'} bg-slate-900 border-4 border-yellow-600 rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none`}
+      >
         
         {/* Header */}
         <div className="bg-red-800 p-4 flex justify-between items-center border-b-2 border-yellow-600 z-10">
-          <h2 className="text-2xl font-christmas font-bold text-yellow-100">
-            {day}. Dezember
+          <h2 id="riddle-modal-title" className="text-2xl font-christmas font-bold text-yellow-100">
+            {formatDoorDate(day)}
           </h2>
-          <button onClick={onClose} className="text-yellow-200 hover:text-white transition-colors">
+          <button type="button" onClick={onClose} aria-label={t.riddle.closeDialog} className="text-yellow-200 hover:text-white transition-colors">
             <X size={28} />
           </button>
         </div>
 
         {/* Content */}
-        <div className="p-6 flex-1 overflow-y-auto custom-scrollbar">
+        <div className="p-6 flex-1 overflow-y-auto custom-scrollbar" aria-busy={isLoading}>
+          <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
           {isLoading ? (
             <div className="flex flex-col items-center justify-center py-12 space-y-4">
               <div className="w-12 h-12 border-4 border-yellow-400 border-t-transparent rounded-full animate-spin"></div>
-              <p className="text-yellow-200 animate-pulse">Der Wichtel malt das Rätsel...</p>
+              <p className="text-yellow-200 animate-pulse">{t.riddle.loading}</p>
             </div>
           ) : riddle ? (
             <div className="space-y-6">
@@ -162,26 +150,47 @@ export const RiddleModal: React.FC<RiddleModalProps> = ({ day, riddle, isLoading
                    <div className="bg-green-100 rounded-full p-4 mb-4">
                      <PartyPopper className="w-12 h-12 text-green-600" />
                    </div>
-                   <h3 className="text-3xl font-bold text-green-400 mb-2">Richtig!</h3>
+                   <h3 className="text-3xl font-bold text-green-400 mb-2">{t.riddle.correct}</h3>
                    <p className="text-slate-300">{String(riddle.solutionExplanation)}</p>
                  </div>
               ) : (
                 <>
+                  {riddle.isFallback && (
+                    <div className="bg-slate-800 border border-yellow-700/60 rounded-lg p-3 text-sm text-slate-300 flex gap-3 items-start">
+                      <AlertTriangle size={18} className="text-yellow-400 shrink-0 mt-0.5" />
+                      <div>
+                        <p>
+                          <b className="text-yellow-200">{t.riddle.fallbackLabel}</b>
+                          {failure ? t.riddle.failures[failure.reason] : t.riddle.fallbackDefault} {t.riddle.fallbackNote}
+                        </p>
+                        {onRetry && (
+                          <button
+                            type="button"
+                            onClick={onRetry}
+                            className="mt-2 inline-flex items-center gap-1 text-yellow-300 hover:text-yellow-100 underline"
+                          >
+                            <RefreshCw size={14} /> {t.riddle.retryReal}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Image Display */}
-                  {riddle.imageUrl ? (
+                  {imageUrl ? (
                     <div className="w-full rounded-lg overflow-hidden border-4 border-amber-900/50 shadow-inner bg-black/20">
                       <img 
-                        src={riddle.imageUrl} 
-                        alt="Rätsel Bild" 
+                        src={imageUrl} 
+                        alt={t.riddle.imageAlt(describeImage(String(riddle.question)))} 
                         className="w-full h-auto object-cover"
                       />
                     </div>
                   ) : (
                     // Fallback visual if image is missing
-                    <div className="w-full h-32 rounded-lg bg-gradient-to-br from-red-900 to-slate-900 border-2 border-yellow-900/30 flex items-center justify-center">
+                    <div className="w-full h-32 rounded-lg bg-gradient-to-br from-red-900 to-slate-900 border-2 border-yellow-900/30 flex items-center justify-center" aria-hidden="true">
                       <div className="text-center opacity-50">
                         <PartyPopper className="w-12 h-12 text-yellow-500 mx-auto mb-2" />
-                        <span className="text-yellow-200/50 text-sm font-christmas">Weihnachtsrätsel</span>
+                        <span className="text-yellow-200/50 text-sm font-christmas">{t.riddle.imagePlaceholder}</span>
                       </div>
                     </div>
                   )}
@@ -196,7 +205,7 @@ export const RiddleModal: React.FC<RiddleModalProps> = ({ day, riddle, isLoading
                       {riddle.hints.slice(0, hintClicks).map((hint, idx) => (
                         <div key={idx} className="bg-yellow-900/20 border-l-4 border-yellow-500 p-3 rounded animate-in slide-in-from-left-2 fade-in duration-300">
                           <p className="text-yellow-200 text-sm italic">
-                            <span className="font-bold not-italic mr-2">Tipp {idx + 1}:</span> 
+                            <span className="font-bold not-italic mr-2">{t.riddle.hintLabel(idx + 1)}</span> 
                             {String(hint)}
                           </p>
                         </div>
@@ -206,62 +215,35 @@ export const RiddleModal: React.FC<RiddleModalProps> = ({ day, riddle, isLoading
 
                   {forceShowSolution ? (
                     <div className="bg-yellow-900/30 border border-yellow-600/50 p-4 rounded-lg text-center animate-in zoom-in duration-300">
-                      <p className="text-yellow-200 font-bold mb-1">Die Lösung ist:</p>
-                      <p className="text-xl text-white">{String(riddle.correctAnswer)}</p>
+                      <p className="text-yellow-200 font-bold mb-1">{t.riddle.solutionIs}</p>
+                      <p className="text-xl text-white">{String(riddle.correctAnswer)}{riddle.type === 'number' && riddle.unit ? ` ${riddle.unit}` : ''}</p>
                       <p className="text-sm text-slate-400 mt-2">{String(riddle.solutionExplanation)}</p>
                     </div>
                   ) : (
                     <form onSubmit={handleSubmit} className="space-y-4">
-                      {/* Check if options exist AND is an array */}
-                      {riddle.type === 'choice' && Array.isArray(riddle.options) && riddle.options.length > 0 ? (
-                        <div className="grid grid-cols-1 gap-3">
-                          {riddle.options.map((option, idx) => (
-                            <label 
-                              key={idx}
-                              className={`
-                                flex items-center p-3 rounded-lg border cursor-pointer transition-all
-                                ${userAnswer === String(option) 
-                                  ? 'bg-yellow-600/20 border-yellow-500 text-yellow-100' 
-                                  : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
-                                }
-                              `}
-                            >
-                              <input
-                                type="radio"
-                                name="riddle-option"
-                                value={String(option)}
-                                checked={userAnswer === String(option)}
-                                onChange={(e) => setUserAnswer(e.target.value)}
-                                className="w-4 h-4 text-yellow-600 border-gray-600 focus:ring-yellow-500 bg-gray-700 mr-3"
-                              />
-                              {String(option)}
-                            </label>
-                          ))}
-                        </div>
-                      ) : (
-                        <div>
-                          <input
-                            type="text"
-                            value={userAnswer}
-                            onChange={(e) => setUserAnswer(e.target.value)}
-                            placeholder="Deine Antwort..."
-                            className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                          />
-                        </div>
-                      )}
+                      <AnswerInput riddle={riddle} answer={answer} onChange={setAnswer} />
 
-                      {showError && (
+                      {isJudging && (
+                        <p className="text-slate-300 text-center text-sm animate-pulse">{t.riddle.judging}</p>
+                      )}
+                      {feedback === 'wrong' && (
                         <p className="text-red-400 text-center text-sm font-bold animate-pulse">
-                          Das stimmt leider noch nicht. Versuch's nochmal!
+                          {t.riddle.wrong}
+                        </p>
+                      )}
+                      {feedback === 'close' && (
+                        <p className="text-amber-300 text-center text-sm font-bold">
+                          {t.riddle.close}
                         </p>
                       )}
 
                       <div className="flex flex-col sm:flex-row gap-3 pt-2">
                         <button
                           type="submit"
-                          className="flex-1 bg-gradient-to-r from-red-700 to-red-600 hover:from-red-600 hover:to-red-500 text-white font-bold py-3 px-6 rounded-lg shadow-lg transform transition-all active:scale-95 border-2 border-red-800"
+                          disabled={isJudging}
+                          className="flex-1 bg-gradient-to-r from-red-700 to-red-600 hover:from-red-600 hover:to-red-500 text-white font-bold py-3 px-6 rounded-lg shadow-lg transform transition-all active:scale-95 border-2 border-red-800 disabled:opacity-60"
                         >
-                          Antwort prüfen
+                          {t.riddle.check}
                         </button>
                         
                         <button
@@ -286,9 +268,28 @@ export const RiddleModal: React.FC<RiddleModalProps> = ({ day, riddle, isLoading
                 </>
               )}
             </div>
+          ) : isOffline ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center space-y-3">
+              <WifiOff className="w-12 h-12 text-slate-400" />
+              <h3 className="text-xl font-bold text-slate-200">{t.riddle.offlineTitle}</h3>
+              <p className="text-slate-400">
+                {t.riddle.offlineText}
+              </p>
+            </div>
           ) : (
-            <div className="text-center text-red-400">
-              Ein Fehler ist aufgetreten. Bitte versuche es später erneut.
+            <div className="flex flex-col items-center justify-center py-8 text-center space-y-3">
+              <AlertTriangle className="w-12 h-12 text-red-400" />
+              <h3 className="text-xl font-bold text-slate-200">{t.riddle.errorTitle}</h3>
+              <p className="text-slate-400">{failure ? t.riddle.failures[failure.reason] : t.riddle.errorDefault}</p>
+              {failure?.detail && <p className="text-xs text-slate-500 break-words">{failure.detail}</p>}
+              {onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="flex items-center gap-2 bg-yellow-600 hover:bg-yellow-500 text-yellow-900 font-bold py-2 px-5 rounded-lg border-2 border-yellow-700"
+                >
+                  <RefreshCw size={18} /> {t.riddle.retry}
+                </button>
+              )}
             </div>
           )}
         </div>
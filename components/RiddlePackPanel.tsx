@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Download, Package, Trash2 } from 'lucide-react';
+import { Language, RiddlePack, RiddlePackMeta } from '../types';
+import { RiddlePackError, readRiddlePackFile } from '../services/riddlePack';
+import { useI18n } from '../services/i18n';
+
+interface RiddlePackPanelProps {
+  pack: RiddlePack | null;
+  language: Language; // Recorded in exported packs
+  usePack: boolean;
+  onUsePackChange: (usePack: boolean) => void;
+  onImport: (pack: RiddlePack) => void;
+  onRemove: () => void;
+  onExport: (meta: RiddlePackMeta) => void;
+}
+
+export const RiddlePackPanel: React.FC<RiddlePackPanelProps> = ({ pack, language, usePack, onUsePackChange, onImport, onRemove, onExport }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [title, setTitle] = useState(t.pack.defaultTitle);
+  const [author, setAuthor] = useState('');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file after fixing it
+    if (!file) return;
+
+    try {
+      const imported = await readRiddlePackFile(file);
+      setErrors([]);
+      onImport(imported);
+    } catch (err) {
+      setErrors(err instanceof RiddlePackError ? err.problems : [String(err)]);
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-2 border-t border-slate-700">
+      <p className="text-xs text-yellow-400 font-bold mb-2 flex items-center">
+        <Package size={12} className="mr-1" /> {t.pack.title}
+      </p>
+
+      {pack ? (
+        <div className="text-xs text-slate-300 mb-2">
+          <p className="font-bold">{pack.meta.title}</p>
+          <p className="text-slate-400">
+            {t.pack.riddleCount(pack.riddles.length)} · {pack.meta.language}{pack.meta.author ? ` · ${pack.meta.author}` : ''}
+          </p>
+          <label className="flex items-center mt-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={usePack}
+              onChange={(e) => onUsePackChange(e.target.checked)}
+              className="mr-2"
+            />
+            {t.pack.usePack}
+          </label>
+          <button onClick={onRemove} className="mt-1 text-red-400 underline hover:text-red-300 flex items-center">
+            <Trash2 size={12} className="mr-1" /> {t.pack.remove}
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500 mb-2">{t.pack.none}</p>
+      )}
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full text-xs p-1 rounded bg-slate-700 hover:bg-slate-600 flex items-center justify-center"
+      >
+        <Upload size={12} className="mr-1" /> {t.pack.import}
+      </button>
+
+      {errors.length > 0 && (
+        <ul className="mt-2 text-xs text-red-400 list-disc list-inside max-h-24 overflow-y-auto">
+          {errors.map((problem, idx) => <li key={idx}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="mt-2 space-y-1">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={t.pack.titlePlaceholder}
+          className="w-full text-xs bg-slate-900 border border-slate-600 rounded px-2 py-1"
+        />
+        <input
+          type="text"
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+          placeholder={t.pack.authorPlaceholder}
+          className="w-full text-xs bg-slate-900 border border-slate-600 rounded px-2 py-1"
+        />
+        <button
+          onClick={() => onExport({ title: title.trim() || t.app.title, author: author.trim() || undefined, language })}
+          className="w-full text-xs p-1 rounded bg-slate-700 hover:bg-slate-600 flex items-center justify-center"
+        >
+          <Download size={12} className="mr-1" /> {t.pack.export}
+        </button>
+      </div>
+    </div>
+  );
+};
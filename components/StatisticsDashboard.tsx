@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { X, Trophy, Flame, Download } from 'lucide-react';
+import { useDialog } from '../services/dialog';
+import { CalendarStore } from '../types';
+import { downloadStatisticsCsv, formatDuration, getLeaderboard } from '../services/statistics';
+import { useI18n } from '../services/i18n';
+
+interface StatisticsDashboardProps {
+  store: CalendarStore;
+  currentDate: Date;
+  activeProfileId: string | null;
+  onClose: () => void;
+}
+
+const RANK_ICONS = ['🥇', '🥈', '🥉'];
+
+export const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ store, currentDate, activeProfileId, onClose }) => {
+  const { t } = useI18n();
+  const leaderboard = useMemo(() => getLeaderboard(store, currentDate), [store, currentDate]);
+  const [selectedId, setSelectedId] = useState<string | null>(activeProfileId ?? leaderboard[0]?.profile.id ?? null);
+  const selected = leaderboard.find(entry => entry.profile.id === selectedId) ?? leaderboard[0];
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="statistics-title"
+        tabIndex={-1}
+        className="relative w-full max-w-2xl bg-slate-900 border-4 border-yellow-600 rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="bg-red-800 p-4 flex justify-between items-center border-b-2 border-yellow-600">
+          <h2 id="statistics-title" className="text-2xl font-christmas font-bold text-yellow-100">{t.app.statistics}</h2>
+          <button type="button" onClick={onClose} aria-label={t.common.close} className="text-yellow-200 hover:text-white transition-colors">
+            <X size={28} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto custom-scrollbar space-y-6">
+          {leaderboard.length === 0 ? (
+            <p className="text-slate-400 text-center">{t.common.noProfiles}</p>
+          ) : (
+            <>
+              <section>
+                <h3 className="text-yellow-400 font-bold mb-2 flex items-center gap-2">
+                  <Trophy size={16} /> {t.statistics.leaderboard}
+                </h3>
+                <div className="space-y-2">
+                  {leaderboard.map((entry, idx) => (
+                    <button
+                      key={entry.profile.id}
+                      onClick={() => setSelectedId(entry.profile.id)}
+                      className={`w-full flex items-center gap-3 p-3 rounded-lg border text-left transition-all ${
+                        entry.profile.id === selected?.profile.id
+                          ? 'bg-yellow-600/20 border-yellow-500'
+                          : 'bg-slate-800 border-slate-700 hover:bg-slate-700'
+                      }`}
+                    >
+                      <span className="w-6 text-center">{RANK_ICONS[idx] ?? idx + 1}</span>
+                      <span className="text-2xl">{entry.profile.avatar}</span>
+                      <span className="flex-1 font-bold text-slate-100 truncate">{entry.profile.name}</span>
+                      <span className="text-xs text-slate-400">{t.statistics.solvedCount(entry.solved)}</span>
+                      <span className="font-bold text-yellow-300 w-20 text-right">{t.statistics.score(entry.score)}</span>
+                    </button>
+                  ))}
+                </div>
+              </section>
+
+              {selected && (
+                <section className="space-y-4">
+                  <h3 className="text-yellow-400 font-bold">
+                    {selected.profile.avatar} {selected.profile.name}
+                  </h3>
+
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+                    {[
+                      { label: t.statistics.doorStatus.solved, value: selected.solved, color: 'text-green-400' },
+                      { label: t.statistics.doorStatus.revealed, value: selected.revealed, color: 'text-yellow-300' },
+                      { label: t.statistics.doorStatus.open, value: selected.open, color: 'text-slate-200' },
+                      { label: t.statistics.doorStatus.missed, value: selected.missed, color: 'text-red-400' },
+                    ].map(({ label, value, color }) => (
+                      <div key={label} className="bg-slate-800 rounded-lg p-3 border border-slate-700">
+                        <p className={`text-2xl font-bold ${color}`}>{value}</p>
+                        <p className="text-xs text-slate-400">{label}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+                    <div className="bg-slate-800 rounded-lg p-3 border border-slate-700 flex items-center gap-2">
+                      <Flame size={18} className="text-orange-400" />
+                      <span className="text-slate-300">{t.statistics.streak} <b className="text-white">{selected.currentStreak}</b></span>
+                    </div>
+                    <div className="bg-slate-800 rounded-lg p-3 border border-slate-700 text-slate-300">
+                      {t.statistics.longestStreak} <b className="text-white">{selected.longestStreak}</b>
+                    </div>
+                    <div className="bg-slate-800 rounded-lg p-3 border border-slate-700 text-slate-300">
+                      {t.statistics.averageTime} <b className="text-white">
+                        {selected.averageSolveMs !== null ? formatDuration(selected.averageSolveMs) : '–'}
+                      </b>
+                    </div>
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-bold text-yellow-200 mb-2">{t.statistics.hintsByCategory}</p>
+                    <table className="w-full text-sm text-slate-300">
+                      <thead>
+                        <tr className="text-xs text-slate-500 text-left">
+                          <th className="font-normal pb-1">{t.statistics.category}</th>
+                          <th className="font-normal pb-1 text-right">{t.statistics.doors}</th>
+                          <th className="font-normal pb-1 text-right">{t.statistics.averageHints}</th>
+                          <th className="font-normal pb-1 text-right">{t.statistics.doorStatus.revealed}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selected.categories.map(category => (
+                          <tr key={category.category} className="border-t border-slate-800">
+                            <td className="py-1">{t.statistics.categories[category.category]}</td>
+                            <td className="py-1 text-right">{category.doors}</td>
+                            <td className="py-1 text-right">
+                              {category.doors > 0 ? (category.hintsUsed / category.doors).toFixed(1) : '–'}
+                            </td>
+                            <td className="py-1 text-right">{category.revealed}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex justify-end">
+          <button
+            onClick={() => downloadStatisticsCsv(store, currentDate, t.statistics)}
+            disabled={leaderboard.length === 0}
+            className="flex items-center gap-2 text-sm px-4 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-100"
+          >
+            <Download size={16} /> {t.statistics.exportCsv}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Cloud } from 'lucide-react';
+import { SyncSettings, SyncStatus, isSyncAvailable } from '../services/syncService';
+import { useI18n } from '../services/i18n';
+
+interface SyncPanelProps {
+  settings: SyncSettings | null;
+  status: SyncStatus;
+  error: string | null;
+  onCreate: () => void;
+  onJoin: (code: string) => void;
+  onSyncNow: () => void;
+  onDisconnect: () => void;
+}
+
+export const SyncPanel: React.FC<SyncPanelProps> = ({ settings, status, error, onCreate, onJoin, onSyncNow, onDisconnect }) => {
+  const { t, locale } = useI18n();
+  const [code, setCode] = useState('');
+
+  return (
+    <div className="mt-3 pt-2 border-t border-slate-700">
+      <p className="text-xs text-yellow-400 font-bold mb-2 flex items-center">
+        <Cloud size={12} className="mr-1" /> {t.sync.title}
+      </p>
+      {!isSyncAvailable() ? (
+        <p className="text-xs text-slate-500">{t.sync.unavailable('BACKEND_URL')}</p>
+      ) : settings ? (
+        <div className="text-xs text-slate-400 space-y-1">
+          <p>{t.sync.familyCode} <span className="font-mono text-slate-100">{settings.familyCode}</span></p>
+          <p className="text-slate-500">{t.sync.codeHint}</p>
+          {settings.lastSyncedAt && <p>{t.sync.lastSynced} {new Date(settings.lastSyncedAt).toLocaleString(locale)}</p>}
+          <div className="flex gap-2">
+            <button onClick={onSyncNow} disabled={status === 'syncing'} className="text-yellow-300 underline hover:text-yellow-200 disabled:opacity-50">
+              {t.sync.syncNow}
+            </button>
+            <button onClick={onDisconnect} className="text-red-400 underline hover:text-red-300">
+              {t.sync.disconnect}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <button onClick={onCreate} className="w-full text-xs p-1 rounded bg-slate-700 hover:bg-slate-600">
+            {t.sync.createCode}
+          </button>
+          <form
+            onSubmit={(e) => { e.preventDefault(); if (code.trim()) onJoin(code.trim()); }}
+            className="flex gap-1"
+          >
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="ABCD-1234"
+              className="flex-1 min-w-0 bg-slate-700 rounded p-1 text-xs text-slate-100 font-mono uppercase"
+            />
+            <button type="submit" disabled={!code.trim()} className="text-xs px-2 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-40">
+              {t.sync.join}
+            </button>
+          </form>
+        </div>
+      )}
+      {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { SyncStatus } from '../services/syncService';
+import { useI18n } from '../services/i18n';
+
+interface SyncStatusBadgeProps {
+  status: SyncStatus;
+  onClick: () => void;
+}
+
+const STATUS_CLASSES: Record<Exclude<SyncStatus, 'off'>, string> = {
+  syncing: 'text-slate-300',
+  synced: 'text-green-300',
+  offline: 'text-slate-400',
+  error: 'text-red-300',
+};
+
+// Header indicator; clicking it retries right away
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, onClick }) => {
+  const { t } = useI18n();
+  if (status === 'off') return null;
+
+  return (
+    <button
+      onClick={onClick}
+      disabled={status === 'syncing'}
+      className={`mt-3 ml-2 inline-flex items-center gap-2 px-3 py-1 rounded-full bg-slate-800/80 border border-slate-600 text-sm hover:border-yellow-500 ${STATUS_CLASSES[status]}`}
+      title={t.sync.syncNow}
+    >
+      {status === 'syncing' && <RefreshCw size={14} className="animate-spin" />}
+      {status === 'synced' && <Cloud size={14} />}
+      {status === 'offline' && <CloudOff size={14} />}
+      {status === 'error' && <AlertTriangle size={14} />}
+      {t.sync.status[status]}
+    </button>
+  );
+};
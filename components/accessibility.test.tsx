@@ -0,0 +1,177 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { Root, createRoot } from 'react-dom/client';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CalendarState, RiddleProvider } from '../types';
+import { addProfile, createEmptyStore, createProfile } from '../services/profiles';
+import { getOfflineRiddle } from '../services/riddleFallback';
+import { setParentPin } from '../services/parentPin';
+import { DoorGrid } from './DoorGrid';
+import { RiddleModal } from './RiddleModal';
+import { ProfilePicker } from './ProfilePicker';
+import { ParentPinGate } from './ParentPinGate';
+import { ParentPinSetup } from './ParentPinSetup';
+import { StatisticsDashboard } from './StatisticsDashboard';
+import { DiagnosticsPanel } from './DiagnosticsPanel';
+import { RiddleEditor } from './RiddleEditor';
+
+// Tells React that act() is in use, otherwise every state update logs a warning
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const DECEMBER_10 = new Date('2025-12-10T12:00:00+01:00');
+
+const calendarState: CalendarState = {
+  6: { isOpen: true, isSolved: true, isLocked: false, hintsUsed: 1 },
+  7: { isOpen: true, isSolved: false, isLocked: false },
+};
+
+const provider: RiddleProvider = {
+  id: 'gemini',
+  generateRiddle: async (day) => getOfflineRiddle(day),
+  reviseField: async (riddle) => riddle,
+  generateImage: async () => undefined,
+};
+
+const profile = createProfile('Anna', '🦌', 'child');
+
+let container: HTMLDivElement;
+let root: Root;
+
+const render = async (element: React.ReactElement) => {
+  await act(async () => root.render(element));
+};
+
+// The WCAG A and AA rules. Colour contrast needs a real layout, which jsdom does not have.
+const findViolations = async () => {
+  const { violations } = await axe.run(container, {
+    runOnly: { type: 'tag', values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'] },
+    rules: { 'color-contrast': { enabled: false } },
+  });
+  return violations.map(violation => `${violation.id}: ${violation.nodes.map(node => node.target.join(' ')).join(', ')}`);
+};
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  // The editor looks for stored images, jsdom has no IndexedDB
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await act(async () => root.unmount());
+  container.remove();
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+describe('accessibility', () => {
+  it('has no violations in the door grid', async () => {
+    await render(<DoorGrid currentDate={DECEMBER_10} calendarState={calendarState} onOpenDoor={() => {}} />);
+    expect(await findViolations()).toEqual([]);
+  });
+
+  it.each([
+    ['multiple choice', getOfflineRiddle(1)],
+    ['free text', { ...getOfflineRiddle(2), type: 'text' as const, options: undefined }],
+  ])('has no violations in the riddle window with %s', async (_, riddle) => {
+    await render(<RiddleModal day={riddle.day} riddle={riddle} isLoading={false} onClose={() => {}} onSolved={() => {}} />);
+    expect(await findViolations()).toEqual([]);
+  });
+
+  it('has no violations in the profile picker', async () => {
+    await render(<ProfilePicker profiles={[profile]} onSelect={() => {}} onCreate={() => {}} onDelete={() => {}} />);
+    expect(await findViolations()).toEqual([]);
+  });
+
+  it('has no violations in the new profile form', async () => {
+    await render(<ProfilePicker profiles={[]} onSelect={() => {}} onCreate={() => {}} onDelete={() => {}} />);
+    expect(await findViolations()).toEqual([]);
+  });
+
+  it('has no violations in the PIN dialogs', async () => {
+    await render(<ParentPinSetup onDone={() => {}} />);
+    expect(await findViolations()).toEqual([]);
+    await render(<ParentPinGate title="Debug-Menü" onUnlock={() => {}} onCancel={() => {}} />);
+    expect(await findViolations()).toEqual([]);
+  });
+
+  it('has no violations in the statistics', async () => {
+    const store = addProfile(createEmptyStore(), profile);
+    await render(<StatisticsDashboard store={store} currentDate={DECEMBER_10} activeProfileId={profile.id} onClose={() => {}} />);
+    expect(await findViolations()).toEqual([]);
+  });
+
+  it('has no violations in the diagnostics page', async () => {
+    await render(<DiagnosticsPanel onClose={() => {}} />);
+    expect(await findViolations()).toEqual([]);
+  });
+
+  it.each(['text', 'number', 'match'] as const)('has no violations in the editor for a %s riddle', async (type) => {
+    const riddle = { ...getOfflineRiddle(6), type, id: 'r-6' };
+    await render(
+      <RiddleEditor
+        calendarState={{ 6: { isOpen: false, isSolved: false, isLocked: false, riddle } }}
+        provider={provider}
+        difficulty="medium"
+        onSave={() => {}}
+        onImageChange={() => {}}
+        onClose={() => {}}
+      />
+    );
+    expect(await findViolations()).toEqual([]);
+  });
+});
+
+describe('dialogs', () => {
+  const pressEscape = () => act(() => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+  });
+
+  it('focuses the profile picker and keeps it open on Escape', async () => {
+    await render(<ProfilePicker profiles={[profile]} onSelect={() => {}} onCreate={() => {}} onDelete={() => {}} />);
+    const dialog = container.querySelector('[role="dialog"]');
+    expect(dialog?.getAttribute('aria-labelledby')).toBeTruthy();
+    expect(document.activeElement).toBe(dialog);
+    await pressEscape();
+    expect(container.querySelector('[role="dialog"]')).not.toBeNull();
+  });
+
+  it('marks the chosen avatar', async () => {
+    await render(<ProfilePicker profiles={[]} onSelect={() => {}} onCreate={() => {}} onDelete={() => {}} />);
+    const avatars = Array.from(container.querySelectorAll<HTMLButtonElement>('button[aria-pressed]'));
+    expect(avatars.filter(button => button.getAttribute('aria-pressed') === 'true')).toHaveLength(1);
+    await act(async () => avatars[2].click());
+    expect(avatars[2].getAttribute('aria-pressed')).toBe('true');
+    expect(avatars[2].getAttribute('aria-label')).toBeTruthy();
+  });
+
+  it('asks for the parent PIN before deleting a profile', async () => {
+    await setParentPin('2468');
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const onDelete = vi.fn();
+    await render(<ProfilePicker profiles={[profile]} onSelect={() => {}} onCreate={() => {}} onDelete={onDelete} />);
+    await act(async () => container.querySelector<HTMLButtonElement>('button[title]')!.click());
+    expect(onDelete).not.toHaveBeenCalled();
+
+    const input = container.querySelector<HTMLInputElement>('input[type="password"]')!;
+    await act(async () => {
+      // React tracks the value itself, so it has to be set through the native setter
+      Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!.call(input, '2468');
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+    });
+    await act(async () => input.form!.requestSubmit());
+    await vi.waitFor(() => expect(onDelete).toHaveBeenCalledWith(profile.id));
+  });
+
+  it('focuses the editor and closes it on Escape', async () => {
+    const onClose = vi.fn();
+    await render(
+      <RiddleEditor calendarState={{}} provider={provider} difficulty="medium" onSave={() => {}} onImageChange={() => {}} onClose={onClose} />
+    );
+    expect(document.activeElement?.getAttribute('role')).toBe('dialog');
+    await pressEscape();
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,133 @@
+// Pre-generates the whole calendar into a riddle pack file.
+//
+//   npm run generate -- --out public/riddles.json --days 6-24 --concurrency 2 --retries 3 --difficulty easy
+//
+// Reads the same .env.local settings as the app (RIDDLE_PROVIDER, LOCAL_LLM_*, the CALENDAR_* door range).
+// Gemini is called directly with GEMINI_API_KEY like the proxy does, no running server needed.
+// With an existing --out file, days already in the pack are kept and only the missing ones are generated.
+// At the end it prints the tokens, images and estimated cost of the run.
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { loadEnv } from 'vite';
+import type { CalendarState, RiddlePack } from '../types';
+import type { GenerationCall } from '../services/generationLog';
+
+const { values } = parseArgs({
+  options: {
+    out: { type: 'string', default: 'riddles.json' },
+    days: { type: 'string' },
+    concurrency: { type: 'string', default: '2' },
+    retries: { type: 'string', default: '3' },
+    title: { type: 'string', default: 'Adventskalender' },
+    author: { type: 'string' },
+    language: { type: 'string', default: 'de' },
+    difficulty: { type: 'string', default: 'medium' },
+  },
+});
+
+// "6-24", "7,9,12" or a mix like "6-10,24"
+const parseDays = (spec: string): number[] => {
+  const days = new Set<number>();
+  spec.split(',').forEach(part => {
+    const [from, to] = part.split('-').map(Number);
+    for (let day = from; day <= (to || from); day++) days.add(day);
+  });
+  return Array.from(days).filter(Number.isInteger).sort((a, b) => a - b);
+};
+
+const main = async () => {
+  // Mirror the defines from vite.config.ts, before the services read process.env
+  const env = loadEnv('production', process.cwd(), '');
+  [
+    'GEMINI_API_KEY', 'GEMINI_TIMEOUT_MS', 'GEMINI_RETRIES', 'GEMINI_FALLBACK_MODEL',
+    'RIDDLE_PROVIDER', 'LOCAL_LLM_BASE_URL', 'LOCAL_LLM_MODEL', 'LOCAL_LLM_API_KEY',
+    'LOCAL_LLM_TIMEOUT_MS', 'LOCAL_LLM_RETRIES', 'LOCAL_LLM_FALLBACK_MODEL',
+    'RIDDLE_VALIDATION_ATTEMPTS', 'RIDDLE_SOLVER_CHECK', 'SERVER_GEMINI_UPSTREAM', 'CALENDAR_START_DAY', 'CALENDAR_END_DAY', 'CALENDAR_BONUS_DAYS',
+  ].forEach(key => {
+    if (env[key] !== undefined) process.env[key] = env[key];
+  });
+
+  const { getRiddleProvider } = await import('../services/riddleProvider');
+  const { generateCalendarBatch } = await import('../services/batchGenerator');
+  const { createRiddlePack, parseRiddlePack } = await import('../services/riddlePack');
+  const { DOOR_DAYS } = await import('../services/calendarConfig');
+  const { DIFFICULTIES, isDifficulty } = await import('../services/difficulty');
+
+  const difficulty = values.difficulty;
+  if (!isDifficulty(difficulty)) {
+    throw new Error(`--difficulty must be one of ${DIFFICULTIES.join(', ')}.`);
+  }
+  const { LANGUAGES, isLanguage } = await import('../services/languages');
+  const language = values.language;
+  if (!isLanguage(language)) {
+    throw new Error(`--language must be one of ${LANGUAGES.join(', ')}.`);
+  }
+
+  const { getUpstreamProvider } = await import('../server/geminiProxy');
+  const { setGenerationLogSink, summarizeGenerationLog } = await import('../services/generationLog');
+  const configured = getRiddleProvider();
+  const provider = configured.id === 'gemini' ? await getUpstreamProvider() : configured;
+  if (provider.id === 'pack' || provider.id === 'server') {
+    throw new Error(`RIDDLE_PROVIDER=${provider.id} cannot generate riddles. Use gemini or local.`);
+  }
+
+  const outFile = values.out!;
+  const existing: RiddlePack | null = existsSync(outFile)
+    ? parseRiddlePack(JSON.parse(readFileSync(outFile, 'utf8')))
+    : null;
+  const existingDays = new Set(existing?.riddles.map(r => r.day) || []);
+
+  const days = (values.days ? parseDays(values.days) : DOOR_DAYS).filter(day => !existingDays.has(day));
+  if (days.length === 0) {
+    console.log(`Nothing to do, ${outFile} already contains all requested days.`);
+    return;
+  }
+
+  const calls: GenerationCall[] = [];
+  setGenerationLogSink(call => calls.push(call));
+
+  console.log(`Generating ${days.length} ${difficulty} riddles with "${provider.id}" into ${outFile} ...`);
+
+  const result = await generateCalendarBatch(provider, days, {
+    concurrency: Number(values.concurrency),
+    maxRetries: Number(values.retries),
+    request: { difficulty, language },
+    onProgress: ({ day, status, attempt, completed, total, error }) => {
+      const prefix = `[${completed}/${total}] Day ${day}`;
+      if (status === 'retrying') console.log(`${prefix}: retry ${attempt - 1}`);
+      if (status === 'done') console.log(`${prefix}: done`);
+      if (status === 'failed') console.log(`${prefix}: FAILED after ${attempt} attempts (${error})`);
+    },
+  });
+
+  // Write even partial results, so a rerun only has to fill the gaps
+  const generated: CalendarState = {};
+  result.riddles.forEach(riddle => {
+    generated[riddle.day] = { isOpen: false, isSolved: false, riddle };
+  });
+  const pack = createRiddlePack(
+    existing?.meta ?? { title: values.title!, author: values.author, language },
+    generated,
+    existing
+  );
+  if (pack.riddles.length > 0) {
+    writeFileSync(outFile, JSON.stringify(pack, null, 2));
+    console.log(`\nWrote ${pack.riddles.length} riddles to ${outFile}.`);
+  }
+  if (result.failures.length > 0) {
+    console.log(`Failed days: ${result.failures.map(f => f.day).join(', ')}`);
+    result.failures.forEach(f => console.log(`  Day ${f.day}: ${f.error}`));
+    process.exitCode = 1;
+  }
+
+  const { total } = summarizeGenerationLog(calls);
+  console.log(
+    `Model calls: ${total.calls} (${total.failures} failed, ${total.rejections} riddles rejected), `
+    + `${total.inputTokens + total.outputTokens} tokens, ${total.images} images, about $${total.cost.toFixed(4)}`
+  );
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,213 @@
+import Database from 'better-sqlite3';
+import { randomInt } from 'crypto';
+import type { CalendarState, CalendarStore, Riddle } from '../types';
+import { stripStoreImages, validateStore } from '../services/calendarStorage';
+import { DOOR_DAYS, isDoorUnlocked } from '../services/calendarConfig';
+import { findRiddleProblems, sanitizeRiddle } from '../services/riddleSanitizer';
+import { mergeStores } from '../services/syncMerge';
+import { createEmptyStore } from '../services/profiles';
+import { HttpError } from './http';
+
+// Family calendars for multi-device sync, one row per family code
+const db = new Database(process.env.SERVER_DB_FILE || 'calendar.db');
+db.pragma('journal_mode = WAL');
+db.exec(`
+  CREATE TABLE IF NOT EXISTS families (
+    code TEXT PRIMARY KEY,
+    store TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS riddle_images (
+    code TEXT NOT NULL,
+    riddle_id TEXT NOT NULL,
+    image_url TEXT NOT NULL,
+    PRIMARY KEY (code, riddle_id)
+  );
+`);
+
+export interface FamilyCalendar {
+  code: string;
+  store: CalendarStore;
+  revision: number;
+  updatedAt: string;
+}
+
+// No 0/O or 1/I, codes are typed in by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const createCode = () => {
+  const chars = Array.from({ length: 8 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]);
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+};
+
+export const normalizeFamilyCode = (code: string) => {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (compact.length !== 8) throw new HttpError(400, 'Der Familiencode hat 8 Zeichen.');
+  return `${compact.slice(0, 4)}-${compact.slice(4)}`;
+};
+
+// Incoming stores go through the same validation as stored data on a device; images are kept separately
+const parseIncomingStore = (raw: unknown): CalendarStore => {
+  const { store, quarantined } = validateStore(raw);
+  if (quarantined.some(entry => entry.key === '*')) {
+    throw new HttpError(400, 'Die Kalenderdaten sind ungültig.');
+  }
+  return stripStoreImages(store);
+};
+
+const selectFamily = db.prepare('SELECT code, store, revision, updated_at AS updatedAt FROM families WHERE code = ?');
+const insertFamily = db.prepare('INSERT INTO families (code, store, revision, updated_at) VALUES (?, ?, 1, ?)');
+const updateFamily = db.prepare('UPDATE families SET store = ?, revision = revision + 1, updated_at = ? WHERE code = ?');
+
+const selectImage = db.prepare('SELECT image_url AS imageUrl FROM riddle_images WHERE code = ? AND riddle_id = ?');
+const upsertImage = db.prepare(`
+  INSERT INTO riddle_images (code, riddle_id, image_url) VALUES (?, ?, ?)
+  ON CONFLICT (code, riddle_id) DO UPDATE SET image_url = excluded.image_url
+`);
+
+const toFamily = (row: any): FamilyCalendar => ({
+  code: row.code,
+  store: JSON.parse(row.store),
+  revision: row.revision,
+  updatedAt: row.updatedAt,
+});
+
+// Riddles of doors the server clock keeps closed stay on the server, also inside the calendar:
+// the shared ones and those in each profile's doors. Devices merge the answer, so their own riddles are kept.
+const withoutLockedRiddles = (family: FamilyCalendar, now: Date): FamilyCalendar => {
+  const isClosed = (day: string) => !isDoorUnlocked(Number(day), now);
+  const hideInDoors = (calendar: CalendarState): CalendarState => Object.fromEntries(
+    Object.entries(calendar).map(([day, door]) => {
+      if (!isClosed(day)) return [day, door];
+      const { riddle, isLocked, riddleEditedAt, ...progress } = door;
+      return [day, progress];
+    })
+  );
+  const store: CalendarStore = {
+    ...family.store,
+    sharedRiddles: Object.fromEntries(Object.entries(family.store.sharedRiddles).filter(([day]) => !isClosed(day))),
+    doors: Object.fromEntries(Object.entries(family.store.doors).map(([profileId, calendar]) => [profileId, hideInDoors(calendar)])),
+  };
+  return { ...family, store };
+};
+
+// The day of the door a riddle belongs to, shared or in one of the profiles
+const findRiddleDay = (store: CalendarStore, riddleId: string): number | undefined => {
+  const slots = [
+    ...Object.values(store.sharedRiddles),
+    ...Object.values(store.doors).flatMap(calendar => Object.values(calendar)),
+  ];
+  return slots.find(slot => slot.riddle?.id === riddleId)?.riddle?.day;
+};
+
+export const createFamily = (rawStore: unknown, now: Date = new Date()): FamilyCalendar => {
+  const store = rawStore === undefined ? createEmptyStore() : parseIncomingStore(rawStore);
+  const updatedAt = now.toISOString();
+  let code = createCode();
+  while (selectFamily.get(code)) code = createCode();
+  insertFamily.run(code, JSON.stringify(store), updatedAt);
+  return withoutLockedRiddles({ code, store, revision: 1, updatedAt }, now);
+};
+
+// The complete calendar, for the server's own use
+const loadFamily = (code: string): FamilyCalendar => {
+  const row = selectFamily.get(normalizeFamilyCode(code));
+  if (!row) throw new HttpError(404, 'Unbekannter Familiencode.');
+  return toFamily(row);
+};
+
+export const getFamily = (code: string, now: Date = new Date()): FamilyCalendar =>
+  withoutLockedRiddles(loadFamily(code), now);
+
+// Merges a device's calendar into the family's; the transaction keeps concurrent pushes from losing progress
+export const pushFamily = db.transaction((code: string, rawStore: unknown, now: Date = new Date()): FamilyCalendar => {
+  const current = loadFamily(code);
+  const store = mergeStores(current.store, parseIncomingStore(rawStore));
+  if (JSON.stringify(store) === JSON.stringify(current.store)) {
+    return withoutLockedRiddles(current, now);
+  }
+  const updatedAt = now.toISOString();
+  updateFamily.run(JSON.stringify(store), updatedAt, current.code);
+  return withoutLockedRiddles({ code: current.code, store, revision: current.revision + 1, updatedAt }, now);
+});
+
+const findFamilyImage = (code: string, riddleId: string): string | undefined => {
+  const row = selectImage.get(code, riddleId) as { imageUrl: string } | undefined;
+  return row?.imageUrl;
+};
+
+// Like the riddles, a picture is only handed out once its door is open
+export const getFamilyImage = (code: string, riddleId: string, now: Date = new Date()): string | undefined => {
+  const family = loadFamily(code);
+  const day = findRiddleDay(family.store, riddleId);
+  if (day === undefined) return undefined;
+  if (!isDoorUnlocked(day, now)) {
+    throw new HttpError(403, `Tür ${day} ist noch verschlossen.`);
+  }
+  return findFamilyImage(family.code, riddleId);
+};
+
+export const saveFamilyImage = (code: string, riddleId: string, imageUrl: unknown) => {
+  if (typeof imageUrl !== 'string' || !imageUrl.startsWith('data:image/')) {
+    throw new HttpError(400, 'Bild muss eine data:image-URL sein.');
+  }
+  upsertImage.run(loadFamily(code).code, riddleId, imageUrl);
+};
+
+const findFamilyRiddle = (code: string, day: number): Riddle | undefined => {
+  const family = loadFamily(code);
+  const riddle = family.store.sharedRiddles[day]?.riddle;
+  // A replacement riddle that got in through an older device does not count as the family's riddle
+  if (!riddle || riddle.isFallback) return undefined;
+  const imageUrl = riddle.id ? findFamilyImage(family.code, riddle.id) : undefined;
+  return imageUrl ? { ...riddle, imageUrl } : riddle;
+};
+
+const assertDoorExists = (day: number) => {
+  if (!DOOR_DAYS.includes(day)) {
+    throw new HttpError(404, `Tür ${day} gibt es in diesem Kalender nicht.`);
+  }
+};
+
+// The shared riddle of a door with its image, or undefined while nobody has generated one.
+// Like /api/riddles/:day, the server clock decides whether the door is open yet.
+export const getFamilyRiddle = (code: string, day: number, now: Date = new Date()): Riddle | undefined => {
+  assertDoorExists(day);
+  if (!isDoorUnlocked(day, now)) {
+    throw new HttpError(403, `Tür ${day} ist noch verschlossen.`);
+  }
+  return findFamilyRiddle(code, day);
+};
+
+// First generation wins: the riddle is only stored when the door has none yet,
+// and the caller always gets back the riddle everyone in the family sees. Riddles can be pre-generated
+// for closed doors, but someone else's riddle is only handed out once the door is open.
+export const claimFamilyRiddle = db.transaction((code: string, day: number, raw: unknown, now: Date = new Date()): Riddle => {
+  assertDoorExists(day);
+  const existing = findFamilyRiddle(code, day);
+  if (existing && !isDoorUnlocked(day, now)) {
+    throw new HttpError(403, `Tür ${day} ist noch verschlossen, sie hat schon ein gemeinsames Rätsel.`);
+  }
+  if (existing) return existing;
+
+  const candidate = { ...(raw && typeof raw === 'object' ? raw : {}), day };
+  if ((candidate as Partial<Riddle>).isFallback) {
+    throw new HttpError(400, 'Ersatzrätsel werden nicht geteilt.');
+  }
+  const problems = findRiddleProblems(candidate, `Tag ${day}`);
+  if (problems.length > 0) throw new HttpError(400, problems.join(' '));
+  const riddle = sanitizeRiddle(candidate, day);
+  const family = loadFamily(code);
+  const { imageUrl, ...withoutImage } = riddle;
+
+  const store: CalendarStore = {
+    ...family.store,
+    sharedRiddles: { ...family.store.sharedRiddles, [day]: { riddle: withoutImage } },
+  };
+  updateFamily.run(JSON.stringify(store), new Date().toISOString(), family.code);
+  if (imageUrl?.startsWith('data:image/')) {
+    upsertImage.run(family.code, riddle.id!, imageUrl);
+  }
+  return riddle;
+});
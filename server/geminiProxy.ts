@@ -0,0 +1,183 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { IncomingMessage } from 'http';
+import type { Riddle, RiddleEditableField, RiddleProvider } from '../types';
+import { isDifficulty } from '../services/difficulty';
+import { isLanguage } from '../services/languages';
+import { DOOR_DAYS, isDoorUnlocked } from '../services/calendarConfig';
+import { sanitizeRiddle } from '../services/riddleSanitizer';
+import { RiddleRejectedError, createValidatingProvider } from '../services/riddleValidator';
+import { GenerationCall, setGenerationLogSink } from '../services/generationLog';
+import { HttpError } from './http';
+
+// Gemini behind the calendar server: the key stays in .env.local on the server, the browser
+// only talks to /api/gemini/*. Every client gets SERVER_RATE_LIMIT model calls per
+// SERVER_RATE_WINDOW_MINUTES; generated riddles are cached for SERVER_CACHE_HOURS per
+// door, difficulty, language and variant, and cache hits do not count against the limit.
+// Every answer carries the model calls it caused (`calls`), so the app can keep them in its generation log.
+
+const EDITABLE_FIELDS: RiddleEditableField[] = ['question', 'options', 'correctAnswer', 'acceptedAnswers', 'hints', 'solutionExplanation'];
+
+const rateLimit = Number(process.env.SERVER_RATE_LIMIT) || 30;
+const rateWindowMs = (Number(process.env.SERVER_RATE_WINDOW_MINUTES) || 60) * 60 * 1000;
+const cacheTtlMs = (Number(process.env.SERVER_CACHE_HOURS) || 24) * 60 * 60 * 1000;
+const trustProxy = process.env.SERVER_TRUST_PROXY === 'true';
+
+// SERVER_GEMINI_UPSTREAM=mock swaps in the offline stand-in; riddles are validated here, before they are cached
+export const getUpstreamProvider = async (): Promise<RiddleProvider> => {
+  const upstream = process.env.SERVER_GEMINI_UPSTREAM === 'mock'
+    ? (await import('./mockUpstream')).mockUpstream
+    : (await import('./geminiUpstream')).geminiUpstream;
+  return createValidatingProvider(upstream, {
+    maxAttempts: Number(process.env.RIDDLE_VALIDATION_ATTEMPTS) || 3,
+    useSolver: process.env.RIDDLE_SOLVER_CHECK !== 'false',
+  });
+};
+
+let upstreamPromise: Promise<RiddleProvider> | null = null;
+const getUpstream = () => (upstreamPromise ??= getUpstreamProvider());
+
+// Behind a reverse proxy every request comes from the same address, so its header decides instead
+export const getClientId = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// Fixed window per client
+const windows = new Map<string, { startedAt: number; count: number }>();
+
+const takeRateLimit = (clientId: string, now = Date.now()) => {
+  const current = windows.get(clientId);
+  if (!current || now - current.startedAt >= rateWindowMs) {
+    if (windows.size > 10_000) {
+      windows.forEach((window, id) => { if (now - window.startedAt >= rateWindowMs) windows.delete(id); });
+    }
+    windows.set(clientId, { startedAt: now, count: 1 });
+    return;
+  }
+  if (current.count >= rateLimit) {
+    const minutes = Math.ceil((current.startedAt + rateWindowMs - now) / 60_000);
+    throw new HttpError(429, `Zu viele Anfragen. Bitte in ${minutes} Minuten erneut versuchen.`);
+  }
+  current.count++;
+};
+
+// Model calls of the request being handled; calls outside a request only go to the console
+const requestCalls = new AsyncLocalStorage<GenerationCall[]>();
+setGenerationLogSink((call) => {
+  const calls = requestCalls.getStore();
+  if (calls) calls.push(call);
+  else console.info(`Model call ${call.kind} (${call.model}, day ${call.day ?? '-'}): ${call.ok ? 'ok' : call.error}`);
+});
+
+// Runs upstream work and returns it with its calls. Model failures become 502, so the app can tell them from its own
+// mistakes; riddles that failed the quality checks become 422, which the app does not retry.
+const withCallLog = <T,>(work: () => Promise<T>): Promise<{ result: T; calls: GenerationCall[] }> => {
+  const calls: GenerationCall[] = [];
+  return requestCalls.run(calls, async () => {
+    try {
+      return { result: await work(), calls };
+    } catch (e) {
+      if (e instanceof HttpError) throw e;
+      if (e instanceof RiddleRejectedError) throw new HttpError(422, e.message, { calls });
+      throw new HttpError(502, `Gemini-Anfrage fehlgeschlagen: ${e instanceof Error ? e.message : String(e)}`, { calls });
+    }
+  });
+};
+
+// Running requests are cached too, so a door opened twice at once costs one model call
+const riddleCache = new Map<string, { expiresAt: number; riddle: Promise<Riddle> }>();
+
+const pruneRiddleCache = (now: number) => {
+  riddleCache.forEach((entry, key) => { if (entry.expiresAt <= now) riddleCache.delete(key); });
+};
+
+// Like /api/riddles/:day, the server clock decides: closed doors get no riddle, cached or not
+export const getProxiedRiddle = async (
+  clientId: string,
+  day: number,
+  query: URLSearchParams,
+  date: Date = new Date()
+): Promise<{ riddle: Riddle; calls: GenerationCall[] }> => {
+  const rawDifficulty = query.get('difficulty');
+  if (rawDifficulty && !isDifficulty(rawDifficulty)) {
+    throw new HttpError(400, `Unbekannte Schwierigkeit "${rawDifficulty}".`);
+  }
+  const difficulty = rawDifficulty && isDifficulty(rawDifficulty) ? rawDifficulty : undefined;
+  const rawLanguage = query.get('language');
+  if (rawLanguage && !isLanguage(rawLanguage)) {
+    throw new HttpError(400, `Unbekannte Sprache "${rawLanguage}".`);
+  }
+  const language = rawLanguage && isLanguage(rawLanguage) ? rawLanguage : undefined;
+  if (!DOOR_DAYS.includes(day)) {
+    throw new HttpError(404, `Tür ${day} gibt es in diesem Kalender nicht.`);
+  }
+  if (!isDoorUnlocked(day, date)) {
+    throw new HttpError(403, `Tür ${day} ist noch verschlossen.`);
+  }
+  const key = `${day}|${difficulty ?? ''}|${language ?? ''}|${query.get('variant') ?? ''}`;
+  const now = date.getTime();
+  const cached = riddleCache.get(key);
+  // Cache hits cost nothing, so they report no calls
+  if (cached && cached.expiresAt > now) return { riddle: await cached.riddle, calls: [] };
+
+  takeRateLimit(clientId, now);
+  pruneRiddleCache(now);
+  const generation = withCallLog(() => getUpstream().then(upstream => upstream.generateRiddle(day, { difficulty, language })));
+  const riddle = generation.then(({ result }) => result);
+  riddleCache.set(key, { expiresAt: now + cacheTtlMs, riddle });
+  // Failures are not cached, the next request tries again
+  riddle.catch(() => {
+    if (riddleCache.get(key)?.riddle === riddle) riddleCache.delete(key);
+  });
+  const { result, calls } = await generation;
+  return { riddle: result, calls };
+};
+
+// Editor drafts may be half-finished, they only need to be a riddle object for a door
+const parseRiddle = (raw: any): Riddle => {
+  if (!raw || typeof raw !== 'object' || !Number.isInteger(raw.day)) {
+    throw new HttpError(400, 'Anfrage enthält kein Rätsel.');
+  }
+  return sanitizeRiddle(raw, raw.day);
+};
+
+export const proxyImage = async (clientId: string, body: any): Promise<{ imageUrl?: string; calls: GenerationCall[] }> => {
+  const riddle = parseRiddle(body.riddle);
+  takeRateLimit(clientId);
+  const upstream = await getUpstream();
+  const { result, calls } = await withCallLog(async () => upstream.generateImage?.(riddle));
+  return { imageUrl: result, calls };
+};
+
+export const proxyReviseField = async (clientId: string, body: any): Promise<{ riddle: Riddle; calls: GenerationCall[] }> => {
+  const riddle = parseRiddle(body.riddle);
+  if (!EDITABLE_FIELDS.includes(body.field)) {
+    throw new HttpError(400, `Unbekanntes Feld "${body.field}".`);
+  }
+  takeRateLimit(clientId);
+  const upstream = await getUpstream();
+  const { result, calls } = await withCallLog(() => upstream.reviseField!(riddle, body.field));
+  return { riddle: result, calls };
+};
+
+export const proxySolve = async (clientId: string, body: any): Promise<{ answer: string; calls: GenerationCall[] }> => {
+  const riddle = parseRiddle(body.riddle);
+  takeRateLimit(clientId);
+  const upstream = await getUpstream();
+  const { result, calls } = await withCallLog(() => upstream.solveRiddle!(riddle));
+  return { answer: result, calls };
+};
+
+export const proxyJudge = async (clientId: string, body: any): Promise<{ correct: boolean; calls: GenerationCall[] }> => {
+  const riddle = parseRiddle(body.riddle);
+  if (typeof body.answer !== 'string' || !body.answer.trim()) {
+    throw new HttpError(400, 'Anfrage enthält keine Antwort.');
+  }
+  takeRateLimit(clientId);
+  const upstream = await getUpstream();
+  const { result, calls } = await withCallLog(() => upstream.judgeAnswer!(riddle, body.answer));
+  return { correct: result, calls };
+};
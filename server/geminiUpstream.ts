@@ -0,0 +1,244 @@
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { Riddle, RiddleEditableField, RiddleProvider, RiddleRequestOptions } from "../types";
+import { DEFAULT_DIFFICULTY, DIFFICULTY_SETTINGS } from "../services/difficulty";
+import { buildFieldRevisionPrompt, buildImagePrompt, buildRiddlePrompt, buildJudgePrompt, buildSolverPrompt } from "../services/riddlePrompt";
+import { applyFieldRevision, parseRiddleJson, sanitizeNewRiddle, sanitizeString } from "../services/riddleSanitizer";
+import { CallDetails, CallMeta, trackModelCall } from "../services/generationLog";
+import { HttpStatusError, RetryOptions, parseCount, retryWithBackoff, withModelFallback } from "../services/resilience";
+
+// The real Gemini calls. Only Node code imports this module (the proxy in geminiProxy.ts and
+// `npm run generate`), so GEMINI_API_KEY never reaches the browser bundle.
+// Every call gives up after GEMINI_TIMEOUT_MS and is retried GEMINI_RETRIES times with backoff;
+// text calls then fall back to GEMINI_FALLBACK_MODEL.
+
+// Initialize the API client lazily, so the server starts without a Gemini key
+let ai: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!ai) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new HttpStatusError(401, "GEMINI_API_KEY ist auf dem Server nicht gesetzt.");
+    ai = new GoogleGenAI({ apiKey });
+  }
+  return ai;
+};
+
+const TEXT_MODEL = "gemini-2.5-flash";
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+// An empty GEMINI_FALLBACK_MODEL switches the fallback off
+const TEXT_MODELS = [TEXT_MODEL, process.env.GEMINI_FALLBACK_MODEL ?? "gemini-2.5-flash-lite"].filter(Boolean);
+
+const retryOptions: RetryOptions = {
+  timeoutMs: Number(process.env.GEMINI_TIMEOUT_MS) || 45_000,
+  retries: parseCount(process.env.GEMINI_RETRIES, 1),
+  baseDelayMs: 1000,
+};
+
+// Each attempt is logged on its own, so the diagnostics page shows retries and fallbacks
+const callModel = <T,>(
+  models: string[],
+  meta: Pick<CallMeta, 'kind' | 'day'>,
+  request: (model: string, abortSignal: AbortSignal, details: CallDetails) => Promise<T>
+): Promise<T> =>
+  withModelFallback(models, model => retryWithBackoff(`Gemini (${model})`, retryOptions, (abortSignal, attempt) =>
+    trackModelCall({ ...meta, provider: 'gemini', model, attempt }, details => request(model, abortSignal, details))));
+
+// Token counts as reported with every response, plus the raw text in case parsing fails
+const recordResponse = (details: CallDetails, response: GenerateContentResponse) => {
+  details.inputTokens = response.usageMetadata?.promptTokenCount;
+  details.outputTokens = response.usageMetadata?.candidatesTokenCount;
+  details.rawResponse = response.text;
+};
+
+export const generateImageForRiddle = (riddle: Riddle): Promise<string | undefined> =>
+  callModel([IMAGE_MODEL], { kind: 'image', day: riddle.day }, async (model, abortSignal, details) => {
+    const imageResponse = await getClient().models.generateContent({
+      model,
+      contents: {
+        parts: [{ text: buildImagePrompt(riddle.question) }]
+      },
+      config: {
+        abortSignal,
+        imageConfig: {
+          aspectRatio: "4:3",
+        }
+      }
+    });
+    details.inputTokens = imageResponse.usageMetadata?.promptTokenCount;
+    details.outputTokens = imageResponse.usageMetadata?.candidatesTokenCount;
+
+    // Extract image
+    let imageUrl: string | undefined = undefined;
+    for (const part of imageResponse.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+    details.images = imageUrl ? 1 : 0;
+    return imageUrl;
+  });
+
+export const generateRiddleForDay = async (day: number, options: RiddleRequestOptions = {}): Promise<Riddle> => {
+  const difficulty = options.difficulty || DEFAULT_DIFFICULTY;
+  const { allowedTypes, optionCount } = DIFFICULTY_SETTINGS[difficulty];
+
+  // --- STEP 1: Generate Text Riddle ---
+  const data = await callModel(TEXT_MODELS, { kind: 'text', day }, async (model, abortSignal, details) => {
+    const textResponse = await getClient().models.generateContent({
+      model,
+      contents: buildRiddlePrompt(day, difficulty, options.language),
+      config: {
+        abortSignal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            day: { type: Type.NUMBER },
+            question: { type: Type.STRING },
+            type: { type: Type.STRING, enum: allowedTypes },
+            options: { 
+              type: Type.ARRAY, 
+              items: { type: Type.STRING },
+              description: `Nur bei type='choice' und 'multi' (${optionCount} Optionen) sowie 'order' (Elemente in richtiger Reihenfolge).`
+            },
+            correctAnswer: { type: Type.STRING },
+            acceptedAnswers: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "Alternative Schreibweisen für die korrekte Antwort (nur für Text-Rätsel relevant)."
+            },
+            correctAnswers: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "Nur bei type='multi': alle richtigen Optionen, wörtlich."
+            },
+            tolerance: { type: Type.NUMBER, description: "Nur bei type='number': erlaubte Abweichung, sonst weglassen." },
+            unit: { type: Type.STRING, description: "Nur bei type='number': Einheit der Antwort, z. B. 'Kekse'." },
+            pairs: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  left: { type: Type.STRING },
+                  right: { type: Type.STRING }
+                },
+                required: ["left", "right"]
+              },
+              description: "Nur bei type='match': 3 bis 4 zusammengehörige Paare."
+            },
+            grid: {
+              type: Type.OBJECT,
+              description: "Nur bei type='grid': das Logikgitter mit genau einer Lösung.",
+              properties: {
+                entityLabel: { type: Type.STRING },
+                entities: { type: Type.ARRAY, items: { type: Type.STRING } },
+                attributes: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      name: { type: Type.STRING },
+                      values: { type: Type.ARRAY, items: { type: Type.STRING } },
+                      ordered: { type: Type.BOOLEAN }
+                    },
+                    required: ["name", "values"]
+                  }
+                },
+                clues: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      text: { type: Type.STRING },
+                      kind: { type: Type.STRING, enum: ['same', 'different', 'before', 'nextTo'] },
+                      a: { type: Type.STRING },
+                      b: { type: Type.STRING },
+                      attribute: { type: Type.STRING }
+                    },
+                    required: ["text", "kind", "a", "b"]
+                  }
+                }
+              },
+              required: ["entityLabel", "entities", "attributes", "clues"]
+            },
+            hints: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "Genau 3 progressive Hinweise.",
+              minItems: 3,
+              maxItems: 3
+            },
+            solutionExplanation: { type: Type.STRING, description: "Eine detaillierte Erklärung des Lösungswegs." }
+          },
+          required: ["day", "question", "type", "correctAnswer", "solutionExplanation", "hints"]
+        }
+      }
+    });
+    recordResponse(details, textResponse);
+    return sanitizeNewRiddle({ ...parseRiddleJson(textResponse.text || ""), difficulty, language: options.language }, day);
+  });
+
+  // --- STEP 2: Generate Image based on the Riddle ---
+  let imageUrl = undefined;
+  try {
+    imageUrl = await generateImageForRiddle(data);
+  } catch (imgError) {
+    // Fail gracefully, allow riddle to exist without image; the failure is in the generation log
+    console.warn("Image generation failed:", imgError);
+  }
+
+  return {
+    ...data,
+    imageUrl // Can be undefined
+  };
+};
+
+export const reviseRiddleFieldWithGemini = (riddle: Riddle, field: RiddleEditableField): Promise<Riddle> =>
+  callModel(TEXT_MODELS, { kind: 'revise', day: riddle.day }, async (model, abortSignal, details) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: buildFieldRevisionPrompt(riddle, field),
+      config: {
+        abortSignal,
+        responseMimeType: "application/json",
+      }
+    });
+    recordResponse(details, response);
+    return applyFieldRevision(riddle, field, parseRiddleJson(response.text || ""));
+  });
+
+export const solveRiddleWithGemini = (riddle: Riddle): Promise<string> =>
+  callModel(TEXT_MODELS, { kind: 'solve', day: riddle.day }, async (model, abortSignal, details) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: buildSolverPrompt(riddle),
+      config: {
+        abortSignal,
+        responseMimeType: "application/json",
+      }
+    });
+    recordResponse(details, response);
+    return sanitizeString(parseRiddleJson(response.text || "").answer);
+  });
+
+export const judgeAnswerWithGemini = (riddle: Riddle, answer: string): Promise<boolean> =>
+  callModel(TEXT_MODELS, { kind: 'judge', day: riddle.day }, async (model, abortSignal, details) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: buildJudgePrompt(riddle, answer),
+      config: {
+        abortSignal,
+        responseMimeType: "application/json",
+      }
+    });
+    recordResponse(details, response);
+    return parseRiddleJson(response.text || "").correct === true;
+  });
+
+export const geminiUpstream: RiddleProvider = {
+  id: 'gemini',
+  generateRiddle: generateRiddleForDay,
+  reviseField: reviseRiddleFieldWithGemini,
+  solveRiddle: solveRiddleWithGemini,
+  judgeAnswer: judgeAnswerWithGemini,
+  generateImage: generateImageForRiddle,
+};
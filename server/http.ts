@@ -0,0 +1,31 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+// Thrown by route handlers to answer with a status code and a readable message; details are sent along
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+export const readJson = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Anfrage ist zu groß.');
+    chunks.push(chunk);
+  }
+  try {
+    return chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+  } catch {
+    throw new HttpError(400, 'Anfrage ist kein gültiges JSON.');
+  }
+};
@@ -0,0 +1,179 @@
+// Small calendar backend: trusted time, door-gated riddle delivery, family sync and the Gemini proxy.
+//
+//   npm run server
+//
+// Reads .env.local like the app (CALENDAR_* for the unlock rules). Further settings:
+// SERVER_PORT (default 8787), SERVER_ALLOWED_ORIGIN (default *), SERVER_RIDDLE_PACK (default riddles.json),
+// SERVER_DB_FILE (SQLite file for synced calendars, default calendar.db), GEMINI_API_KEY and the
+// proxy limits SERVER_RATE_LIMIT, SERVER_RATE_WINDOW_MINUTES, SERVER_CACHE_HOURS, SERVER_TRUST_PROXY,
+// SERVER_GEMINI_UPSTREAM=mock for an offline stand-in, and GEMINI_TIMEOUT_MS, GEMINI_RETRIES,
+// GEMINI_FALLBACK_MODEL for slow or failing model calls.
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { loadEnv } from 'vite';
+
+type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: string[], query: URLSearchParams) => Promise<void> | void;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+const main = async () => {
+  // Real environment variables win over .env.local; set before the services read process.env
+  const env = loadEnv('production', process.cwd(), '');
+  Object.entries(env).forEach(([key, value]) => {
+    if (process.env[key] === undefined) process.env[key] = value;
+  });
+
+  const { HttpError, readJson, sendJson } = await import('./http');
+  const { claimFamilyRiddle, createFamily, getFamily, getFamilyImage, getFamilyRiddle, pushFamily, saveFamilyImage } = await import('./families');
+  const { getRiddleForDay } = await import('./riddles');
+  const { getClientId, getProxiedRiddle, proxyImage, proxyJudge, proxyReviseField, proxySolve } = await import('./geminiProxy');
+  const { CALENDAR_CONFIG, getSeasonDay } = await import('../services/calendarConfig');
+
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      pattern: /^\/api\/time$/,
+      handler: (_req, res) => {
+        const now = new Date();
+        sendJson(res, 200, { now: now.toISOString(), seasonDay: getSeasonDay(now), timeZone: CALENDAR_CONFIG.timeZone ?? null });
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/riddles\/(\d+)$/,
+      handler: (_req, res, [day]) => {
+        sendJson(res, 200, getRiddleForDay(Number(day)));
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/gemini\/riddles\/(\d+)$/,
+      handler: async (req, res, [day], query) => {
+        sendJson(res, 200, await getProxiedRiddle(getClientId(req), Number(day), query));
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/gemini\/image$/,
+      handler: async (req, res) => {
+        sendJson(res, 200, await proxyImage(getClientId(req), await readJson(req)));
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/gemini\/revise$/,
+      handler: async (req, res) => {
+        sendJson(res, 200, await proxyReviseField(getClientId(req), await readJson(req)));
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/gemini\/solve$/,
+      handler: async (req, res) => {
+        sendJson(res, 200, await proxySolve(getClientId(req), await readJson(req)));
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/gemini\/judge$/,
+      handler: async (req, res) => {
+        sendJson(res, 200, await proxyJudge(getClientId(req), await readJson(req)));
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/families$/,
+      handler: async (req, res) => {
+        const body = await readJson(req);
+        sendJson(res, 201, createFamily(body.store));
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/families\/([\w-]+)\/calendar$/,
+      handler: (_req, res, [code]) => {
+        sendJson(res, 200, getFamily(code));
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/families\/([\w-]+)\/calendar$/,
+      handler: async (req, res, [code]) => {
+        const body = await readJson(req);
+        sendJson(res, 200, pushFamily(code, body.store));
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/families\/([\w-]+)\/riddles\/(\d+)$/,
+      handler: (_req, res, [code, day]) => {
+        const riddle = getFamilyRiddle(code, Number(day));
+        if (!riddle) throw new HttpError(404, `Für Tür ${day} gibt es noch kein gemeinsames Rätsel.`);
+        sendJson(res, 200, riddle);
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/families\/([\w-]+)\/riddles\/(\d+)$/,
+      handler: async (req, res, [code, day]) => {
+        const body = await readJson(req);
+        sendJson(res, 200, claimFamilyRiddle(code, Number(day), body.riddle));
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/families\/([\w-]+)\/images\/([\w-]+)$/,
+      handler: (_req, res, [code, riddleId]) => {
+        const imageUrl = getFamilyImage(code, riddleId);
+        if (!imageUrl) throw new HttpError(404, 'Kein Bild gespeichert.');
+        sendJson(res, 200, { imageUrl });
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/families\/([\w-]+)\/images\/([\w-]+)$/,
+      handler: async (req, res, [code, riddleId]) => {
+        const body = await readJson(req);
+        saveFamilyImage(code, riddleId, body.imageUrl);
+        sendJson(res, 200, { ok: true });
+      },
+    },
+  ];
+
+  const allowedOrigin = process.env.SERVER_ALLOWED_ORIGIN || '*';
+  const port = Number(process.env.SERVER_PORT) || 8787;
+
+  const server = createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const { pathname: path, searchParams } = new URL(req.url || '/', 'http://localhost');
+    const route = routes.find(r => r.method === req.method && r.pattern.test(path));
+    try {
+      if (!route) throw new HttpError(404, 'Unbekannter Pfad.');
+      await route.handler(req, res, path.match(route.pattern)!.slice(1), searchParams);
+    } catch (e) {
+      const status = e instanceof HttpError ? e.status : 500;
+      if (status === 500) console.error(`${req.method} ${path} failed:`, e);
+      const details = e instanceof HttpError ? e.details : undefined;
+      sendJson(res, status, { error: e instanceof Error ? e.message : String(e), ...details });
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`Calendar server listening on http://localhost:${port}`);
+  });
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
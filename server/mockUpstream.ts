@@ -0,0 +1,92 @@
+import { Riddle, RiddleEditableField, RiddleProvider, RiddleRequestOptions } from "../types";
+import { DEFAULT_DIFFICULTY, DIFFICULTY_SETTINGS } from "../services/difficulty";
+import { getCategoryNameForDay } from "../services/riddlePrompt";
+import { createId } from "../services/riddleSanitizer";
+import { trackModelCall } from "../services/generationLog";
+
+// Stand-in for Gemini (SERVER_GEMINI_UPSTREAM=mock): deterministic riddles without network or key,
+// so the proxy, its cache and the rate limit can be tried and tested offline.
+// MOCK_UPSTREAM_DELAY_MS simulates a slow model.
+
+const delay = () => new Promise(resolve => setTimeout(resolve, Number(process.env.MOCK_UPSTREAM_DELAY_MS) || 0));
+
+// Counts upstream calls, so tests can tell cache hits from generated riddles
+export const mockUpstreamCalls = { generateRiddle: 0, generateImage: 0, reviseField: 0, solveRiddle: 0, judgeAnswer: 0 };
+
+const RIDDLES = [
+  { question: 'Welches Tier zieht den Schlitten des Weihnachtsmanns?', answer: 'Rentier', others: ['Pferd', 'Esel', 'Pinguin', 'Eisbär'] },
+  { question: 'Welche Farbe hat der Mantel des Weihnachtsmanns?', answer: 'Rot', others: ['Blau', 'Grün', 'Lila', 'Gelb'] },
+  { question: 'Was backt man im Advent aus Teig und Zuckerguss?', answer: 'Plätzchen', others: ['Brot', 'Pizza', 'Pudding', 'Suppe'] },
+  { question: 'Was stellt man am 6. Dezember vor die Tür?', answer: 'Stiefel', others: ['Teller', 'Eimer', 'Koffer', 'Korb'] },
+];
+
+const generateRiddle = async (day: number, options: RiddleRequestOptions = {}): Promise<Riddle> => {
+  mockUpstreamCalls.generateRiddle++;
+  await delay();
+  const difficulty = options.difficulty || DEFAULT_DIFFICULTY;
+  const { allowedTypes, optionCount } = DIFFICULTY_SETTINGS[difficulty];
+  const { question, answer, others } = RIDDLES[day % RIDDLES.length];
+  const type = allowedTypes[0];
+
+  return {
+    id: createId(),
+    day,
+    question: `Testrätsel zum Thema ${getCategoryNameForDay(day)}: ${question}`,
+    type,
+    options: type === 'choice' ? [answer, ...others].slice(0, optionCount) : undefined,
+    correctAnswer: answer,
+    hints: ["Denk an Weihnachten.", "Es ist ein einzelnes Wort.", `Es beginnt mit ${answer[0]}.`],
+    solutionExplanation: `Die Antwort ist ${answer}.`,
+    difficulty,
+    language: options.language,
+  };
+};
+
+// A tiny SVG instead of a painting, still a real data URL like Gemini's images
+const generateImage = async (riddle: Riddle): Promise<string> => {
+  mockUpstreamCalls.generateImage++;
+  await delay();
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 40 30"><rect width="40" height="30" fill="#7f1d1d"/><text x="20" y="20" font-size="12" text-anchor="middle" fill="#fde68a">${riddle.day}</text></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+};
+
+const reviseField = async (riddle: Riddle, field: RiddleEditableField): Promise<Riddle> => {
+  mockUpstreamCalls.reviseField++;
+  await delay();
+  return field === 'question' ? { ...riddle, question: `${riddle.question} (überarbeitet)` } : riddle;
+};
+
+const solveRiddle = async (riddle: Riddle): Promise<string> => {
+  mockUpstreamCalls.solveRiddle++;
+  await delay();
+  return riddle.correctAnswer;
+};
+
+// Accepts answers that contain the solution, like "Sankt Nikolaus" for "Nikolaus"
+const judgeAnswer = async (riddle: Riddle, answer: string): Promise<boolean> => {
+  mockUpstreamCalls.judgeAnswer++;
+  await delay();
+  return answer.toLowerCase().includes(riddle.correctAnswer.toLowerCase());
+};
+
+// Logged like real calls, with made-up token counts so the diagnostics page has something to add up
+const track = <T,>(kind: 'text' | 'image' | 'revise' | 'solve' | 'judge', day: number, call: () => Promise<T>) =>
+  trackModelCall({ provider: 'gemini', kind, model: 'mock', day }, async (details) => {
+    const result = await call();
+    details.inputTokens = 200;
+    details.outputTokens = kind === 'image' ? 0 : 150;
+    if (kind === 'image') details.images = 1;
+    return result;
+  });
+
+export const mockUpstream: RiddleProvider = {
+  id: 'gemini',
+  generateRiddle: async (day, options) => {
+    const riddle = await track('text', day, () => generateRiddle(day, options));
+    return { ...riddle, imageUrl: await track('image', day, () => generateImage(riddle)) };
+  },
+  generateImage: (riddle) => track('image', riddle.day, () => generateImage(riddle)),
+  reviseField: (riddle, field) => track('revise', riddle.day, () => reviseField(riddle, field)),
+  solveRiddle: (riddle) => track('solve', riddle.day, () => solveRiddle(riddle)),
+  judgeAnswer: (riddle, answer) => track('judge', riddle.day, () => judgeAnswer(riddle, answer)),
+};
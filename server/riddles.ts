@@ -0,0 +1,36 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import type { Riddle, RiddlePack } from '../types';
+import { getPackRiddle, parseRiddlePack } from '../services/riddlePack';
+import { DOOR_DAYS, isDoorUnlocked } from '../services/calendarConfig';
+import { HttpError } from './http';
+
+// Riddles come from a pack file, e.g. written by `npm run generate`; reloaded when the file changes
+const packFile = process.env.SERVER_RIDDLE_PACK || 'riddles.json';
+
+let cached: { pack: RiddlePack; mtimeMs: number } | null = null;
+
+const loadPack = (): RiddlePack => {
+  if (!existsSync(packFile)) {
+    throw new HttpError(503, `Rätselpaket ${packFile} fehlt auf dem Server.`);
+  }
+  const { mtimeMs } = statSync(packFile);
+  if (!cached || cached.mtimeMs !== mtimeMs) {
+    cached = { pack: parseRiddlePack(JSON.parse(readFileSync(packFile, 'utf8'))), mtimeMs };
+  }
+  return cached.pack;
+};
+
+// The server clock decides: a door that is still closed gets no riddle, whatever the device claims
+export const getRiddleForDay = (day: number, now: Date = new Date()): Riddle => {
+  if (!DOOR_DAYS.includes(day)) {
+    throw new HttpError(404, `Tür ${day} gibt es in diesem Kalender nicht.`);
+  }
+  if (!isDoorUnlocked(day, now)) {
+    throw new HttpError(403, `Tür ${day} ist noch verschlossen.`);
+  }
+  const riddle = getPackRiddle(loadPack(), day);
+  if (!riddle) {
+    throw new HttpError(404, `Das Rätselpaket enthält kein Rätsel für den ${day}. Dezember.`);
+  }
+  return riddle;
+};
@@ -0,0 +1,85 @@
+// Service worker for the offline calendar. The build (see vite.config.ts) replaces the two
+// placeholders below with a version hash and the list of built files, so every deploy
+// gets a fresh precache and old caches are removed on activation.
+
+const VERSION = __SW_VERSION__;
+const PRECACHE_URLS = __SW_PRECACHE_URLS__;
+
+const SHELL_CACHE = `advent-shell-${VERSION}`;
+const DATA_CACHE = 'advent-data-v1';
+
+// Progress and the server clock must never come from a cache
+const NETWORK_ONLY = [/\/api\/time$/, /\/api\/families\/[^/]+\/calendar$/, /\/api\/families$/];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys
+        .filter((key) => key.startsWith('advent-shell-') && key !== SHELL_CACHE)
+        .map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Hashed build files never change, so the cached copy is always right
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Riddles, images and packs: the newest answer while online, the last one seen while offline
+const networkFirst = async (request, cacheName) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (e) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw e;
+  }
+};
+
+// Door reminders (services/notifications.ts): a click brings an open calendar to the front or opens it
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      return client ? client.focus() : self.clients.openWindow('./');
+    })
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!url.protocol.startsWith('http') || NETWORK_ONLY.some((pattern) => pattern.test(url.pathname))) return;
+
+  if (request.mode === 'navigate') {
+    // The app is a single page, offline every navigation gets the cached shell
+    event.respondWith(networkFirst(request, SHELL_CACHE).catch(() => caches.match('./')));
+  } else if (url.origin === self.location.origin && url.pathname.includes('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin === self.location.origin || url.pathname.startsWith('/api/')) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  }
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { Difficulty, Language, Riddle } from "../types";
+import { AnswerVerdict, checkAnswer } from "./answerMatching";
+
+const textRiddle = (correctAnswer: string, language: Language = 'de', difficulty: Difficulty = 'medium'): Riddle => ({
+  day: 1,
+  question: 'Wie lautet die Lösung?',
+  type: 'text',
+  correctAnswer,
+  solutionExplanation: '',
+  hints: ['a', 'b', 'c'],
+  language,
+  difficulty,
+});
+
+describe('checkAnswer for free text', () => {
+  it.each<[string, Language, string, string, AnswerVerdict]>([
+    // [case, language, solution, answer, verdict]
+    ['a German number word', 'de', '12', 'zwölf', 'correct'],
+    ['a German compound number word', 'de', '21', 'einundzwanzig', 'correct'],
+    ['an English number word', 'en', '21', 'twenty-one', 'correct'],
+    ['English number words over several words', 'en', '205', 'two hundred and five', 'correct'],
+    ['a number word next to a noun', 'de', '2 Kerzen', 'zwei Kerzen', 'correct'],
+    ['a word that only starts like a number word', 'de', 'Elf', 'Elfe', 'correct'],
+    ['a thousands separator', 'de', '1.000', '1000', 'correct'],
+    ['an English thousands separator', 'en', '1,000', '1000', 'correct'],
+    ['an English decimal point', 'en', '1.5 km', '1500 m', 'correct'],
+    ['a German article', 'de', 'Weihnachtsmann', 'der Weihnachtsmann', 'correct'],
+    ['an English article', 'en', 'the star', 'Star', 'correct'],
+    ['French articles and fillers', 'fr', 'la lune', "c'est la lune", 'correct'],
+    ['umlauts written out', 'de', 'Lebkuchenhäuschen', 'Lebkuchenhaeuschen', 'correct'],
+    ['a typo in a long word', 'de', 'Schneemann', 'Schneeman', 'correct'],
+    ['another word order', 'de', 'Rentier Rudolph', 'Rudolph Rentier', 'correct'],
+    ['a converted unit', 'de', '3 Meter', '300 cm', 'correct'],
+    ['a decimal comma with a unit', 'de', '1,5 km', '1500 m', 'correct'],
+    ['a missing unknown unit', 'de', '12 Kekse', '12', 'correct'],
+    ['the same unknown unit', 'de', '12 Äpfel', '12 Aepfel', 'correct'],
+    ['a negative number', 'de', '-5', '-5', 'correct'],
+    ['a range', 'de', '3-4', '3-4', 'correct'],
+    ['an extra word', 'de', 'Weihnachtsmann', 'roter Weihnachtsmann', 'close'],
+    ['a missing word', 'de', 'Heilige Drei Könige', 'Drei Könige', 'close'],
+    ['another dimension', 'de', '3 Meter', '3 Kilo', 'wrong'],
+    ['another word', 'de', 'Weihnachtsmann', 'Osterhase', 'wrong'],
+    ['other people', 'de', '3 Könige', '3 Hirten', 'wrong'],
+    ['other things', 'de', '12 Äpfel', '12 Autos', 'wrong'],
+    ['a known unit for things', 'de', '3 Kekse', '3 Meter', 'wrong'],
+    // Numbers get no typo tolerance
+    ['a missing digit', 'de', '1000', '100', 'wrong'],
+    ['one digit off', 'de', '1500', '1600', 'wrong'],
+    ['the wrong year', 'de', '2024', '2025', 'wrong'],
+    ['one cookie too many', 'de', '12 Kekse', '13 Kekse', 'wrong'],
+    ['a number word one off', 'de', '12', 'dreizehn', 'wrong'],
+    ['the sign', 'de', '5', '-5', 'wrong'],
+    ['the sign the other way', 'de', '-5', '5', 'wrong'],
+    ['another range', 'de', '3-4', '3 bis 5', 'wrong'],
+  ])('%s: "%s" for "%s"', (_, language, solution, answer, verdict) => {
+    expect(checkAnswer(textRiddle(solution, language), answer)).toBe(verdict);
+  });
+
+  it('allows more typos on the easy level and fewer on the hard one', () => {
+    expect(checkAnswer(textRiddle('Tannenbaum', 'de', 'easy'), 'Tanenbaun')).toBe('correct');
+    expect(checkAnswer(textRiddle('Tannenbaum', 'de', 'hard'), 'Tanenbaun')).toBe('close');
+  });
+
+  it('accepts the alternative answers', () => {
+    const riddle = textRiddle('Nikolaus');
+    expect(checkAnswer(riddle, 'Sankt Nikolaus')).toBe('close');
+    expect(checkAnswer({ ...riddle, acceptedAnswers: ['Sankt Nikolaus'] }, 'sankt nikolaus')).toBe('correct');
+  });
+});
+
+describe('checkAnswer for numbers', () => {
+  const numberRiddle = (correctAnswer: string, fields: Partial<Riddle> = {}): Riddle => ({
+    ...textRiddle(correctAnswer),
+    type: 'number',
+    ...fields,
+  });
+
+  it.each<[string, Partial<Riddle>, string, AnswerVerdict]>([
+    // [solution, riddle fields, answer, verdict]
+    ['24', {}, '24', 'correct'],
+    ['24', {}, 'vierundzwanzig', 'correct'],
+    ['24', {}, 'ca. 24', 'correct'],
+    ['1500', { unit: 'm' }, '1,5 km', 'correct'],
+    ['100', { tolerance: 5 }, '104', 'correct'],
+    ['100', {}, '104', 'close'],
+    ['-5', { unit: '°C' }, '-5', 'correct'],
+    ['5', {}, '-5', 'wrong'],
+    ['1000', {}, '100', 'wrong'],
+    ['1,000', { language: 'en' }, '1000', 'correct'],
+    ['1000', { language: 'en' }, '1,000', 'correct'],
+  ])('"%s" %o: "%s" is %s', (solution, fields, answer, verdict) => {
+    expect(checkAnswer(numberRiddle(solution, fields), answer)).toBe(verdict);
+  });
+});
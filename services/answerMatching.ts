@@ -0,0 +1,240 @@
+import { Language, Riddle, RiddleAnswer } from "../types";
+import { DEFAULT_DIFFICULTY, DIFFICULTY_SETTINGS, FuzzyTolerance } from "./difficulty";
+import { parseNumber } from "./riddleTypes";
+import { flattenGridSolution } from "./logicGrid";
+import { DEFAULT_LANGUAGE } from "./languages";
+import { Quantity, UnitDefinition, findUnit, isNumberToken, normalizeAnswer, parseQuantity } from "./answerNormalization";
+
+// Answers are 'correct', 'wrong', or 'close': not accepted, but near enough that the modal says so.
+// Free text is normalized first (answerNormalization.ts), then compared with the typo tolerance of the
+// riddle's difficulty; near misses can optionally go to the model as a judge (checkAnswerWithJudge).
+export type AnswerVerdict = 'correct' | 'close' | 'wrong';
+
+// Decides whether a near-miss answer means the same as the solution, see RiddleProvider.judgeAnswer
+export type AnswerJudge = (riddle: Riddle, answer: string) => Promise<boolean>;
+
+// Helper: Levenshtein Distance for fuzzy string matching
+const getLevenshteinDistance = (a: string, b: string): number => {
+  if (!a) return b ? b.length : 0;
+  if (!b) return a ? a.length : 0;
+
+  const matrix: number[][] = [];
+
+  // Initialize first column
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i];
+  }
+
+  // Initialize first row
+  for (let j = 0; j <= a.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b.charAt(i - 1) === a.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1, // substitution
+          Math.min(
+            matrix[i][j - 1] + 1, // insertion
+            matrix[i - 1][j] + 1  // deletion
+          )
+        );
+      }
+    }
+  }
+
+  return matrix[b.length][a.length];
+};
+
+// Tolerance rules:
+// Short words (<= 3 chars): Must be exact
+// Medium words (4-7 chars): 1 error allowed
+// Long words (> 7 chars): 2 errors allowed
+// 'lenient' allows one more error at every length, 'strict' only one error on long words
+const getAllowedDistance = (len: number, tolerance: FuzzyTolerance): number => {
+  if (tolerance === 'lenient') {
+    if (len <= 3) return 1;
+    if (len <= 7) return 2;
+    return 3;
+  }
+  if (tolerance === 'strict') {
+    return len > 7 ? 1 : 0;
+  }
+  if (len <= 3) return 0;
+  if (len <= 7) return 1;
+  return 2;
+};
+
+const bestVerdict = (verdicts: AnswerVerdict[]): AnswerVerdict =>
+  verdicts.includes('correct') ? 'correct' : verdicts.includes('close') ? 'close' : 'wrong';
+
+// Up to two typos more than allowed still count as close, except on very short words
+const compareStrings = (a: string, b: string, tolerance: FuzzyTolerance): AnswerVerdict => {
+  if (!a || !b) return 'wrong';
+  if (a === b) return 'correct';
+
+  const dist = getLevenshteinDistance(a, b);
+  const len = Math.max(a.length, b.length);
+  const allowed = getAllowedDistance(len, tolerance);
+  if (dist <= allowed) return 'correct';
+  return len >= 4 && dist <= allowed + 2 ? 'close' : 'wrong';
+};
+
+// The numbers of both answers must be the same, in any order. They get no typo tolerance: one edit turns
+// 12 into 13 or 100 into 1000.
+const hasSameNumbers = (user: string[], correct: string[]): boolean => {
+  const numbers = (tokens: string[]) => tokens.filter(isNumberToken).map(Number).sort((a, b) => a - b).join(' ');
+  return numbers(user) === numbers(correct);
+};
+
+// Numbers exactly, the words as written, in any word order ("Rentier Rudolph") and without spaces ("Weihnachts-Mann")
+const compareTokens = (userTokens: string[], correctTokens: string[], tolerance: FuzzyTolerance): AnswerVerdict => {
+  if (!hasSameNumbers(userTokens, correctTokens)) return 'wrong';
+  const user = userTokens.filter(token => !isNumberToken(token));
+  const correct = correctTokens.filter(token => !isNumberToken(token));
+  if (user.length === 0 && correct.length === 0) return 'correct';
+
+  const sorted = (tokens: string[]) => [...tokens].sort().join(' ');
+  const verdict = bestVerdict([
+    compareStrings(user.join(' '), correct.join(' '), tolerance),
+    compareStrings(sorted(user), sorted(correct), tolerance),
+    compareStrings(user.join(''), correct.join(''), tolerance),
+  ]);
+  if (verdict !== 'wrong') return verdict;
+
+  // Part of the answer, or the answer with extra words ("roter Weihnachtsmann"), is close
+  const userCompact = user.join('');
+  const correctCompact = correct.join('');
+  const sharesWord = correct.some(token => token.length >= 3 && user.includes(token));
+  const contains = correctCompact.length >= 4 && userCompact.length >= 4
+    && (userCompact.includes(correctCompact) || correctCompact.includes(userCompact));
+  return sharesWord || contains ? 'close' : 'wrong';
+};
+
+// Converts into the expected unit if both units are known; unknown units ("12 Kerzen") are ignored
+const compareQuantity = (given: Quantity, expected: number, expectedUnit: UnitDefinition | undefined, tolerance: number): AnswerVerdict => {
+  let value = given.value;
+  if (given.unit && expectedUnit) {
+    if (given.unit.dimension !== expectedUnit.dimension) return 'wrong';
+    value = value * given.unit.factor / expectedUnit.factor;
+  }
+  const diff = Math.abs(value - expected);
+  // The small epsilon keeps 0.1 + 0.2 style rounding and unit conversions from failing an exact answer
+  if (diff <= tolerance + 1e-9 * Math.max(1, Math.abs(expected))) return 'correct';
+  // Within 10 % of the solution, or twice the tolerance, is close
+  return diff <= Math.max(2 * tolerance, Math.abs(expected) * 0.1) ? 'close' : 'wrong';
+};
+
+// Only known units are converted; other words after the number ("3 Hirten", "3 Könige") must be the same
+// or missing on one side ("12" for "12 Kekse"), everything else is left to the token comparison
+const haveComparableUnits = (given: Quantity, expected: Quantity): boolean =>
+  (given.unit !== undefined && expected.unit !== undefined)
+  || !given.unitText || !expected.unitText || given.unitText === expected.unitText;
+
+const compareText = (user: string, correct: string, tolerance: FuzzyTolerance, language: Language): AnswerVerdict => {
+  if (!user || !correct) return 'wrong';
+  const given = normalizeAnswer(user, language);
+  const expected = normalizeAnswer(correct, language);
+  if (given.words.length === 0 || expected.words.length === 0) return 'wrong';
+
+  // "3 Meter" and "300 cm" are the same answer
+  const givenQuantity = parseQuantity(user, language);
+  const expectedQuantity = parseQuantity(correct, language);
+  if (givenQuantity && expectedQuantity && haveComparableUnits(givenQuantity, expectedQuantity)
+    && compareQuantity(givenQuantity, expectedQuantity.value, expectedQuantity.unit, 0) === 'correct') {
+    return 'correct';
+  }
+  // With number words as written and as digits, so "zwölf" matches "12" and "Elfe" still matches "Elf"
+  return bestVerdict([
+    compareTokens(given.words, expected.words, tolerance),
+    compareTokens(given.numeric, expected.numeric, tolerance),
+  ]);
+};
+
+export const isFuzzyMatch = (
+  user: string,
+  correct: string,
+  tolerance: FuzzyTolerance = 'normal',
+  language: Language = DEFAULT_LANGUAGE
+): boolean => compareText(user, correct, tolerance, language) === 'correct';
+
+// List entries are compared without regard to case and surrounding spaces
+const isSameItem = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The number may come with a unit ("1,5 km" for 1500 m) or as a word ("zwölf"); text around it ("ca. 12") is skipped
+const checkNumber = (riddle: Riddle, answer: string): AnswerVerdict => {
+  const language = riddle.language ?? DEFAULT_LANGUAGE;
+  const toQuantity = (text: string): Quantity | null => {
+    const value = parseNumber(text, language);
+    return parseQuantity(text, language) ?? (value === null ? null : { value });
+  };
+  const expected = toQuantity(riddle.correctAnswer);
+  const given = toQuantity(answer);
+  if (!expected || !given) return 'wrong';
+  return compareQuantity(given, expected.value, findUnit(riddle.unit) ?? expected.unit, riddle.tolerance ?? 0);
+};
+
+// 'order' needs the items in sequence, 'multi' exactly the correct set, 'match' the right partner for every pair,
+// 'grid' the unique solution
+const isListMatch = (riddle: Riddle, answer: string[]): boolean => {
+  if (riddle.type === 'order') {
+    const expected = riddle.options ?? [];
+    return answer.length === expected.length && expected.every((item, idx) => isSameItem(item, answer[idx]));
+  }
+  if (riddle.type === 'multi') {
+    const expected = riddle.correctAnswers ?? [];
+    const selected = answer.filter((item, idx) => answer.findIndex(other => isSameItem(other, item)) === idx);
+    return selected.length === expected.length && expected.every(item => selected.some(other => isSameItem(other, item)));
+  }
+  if (riddle.type === 'grid') {
+    const expected = riddle.grid?.solution ? flattenGridSolution(riddle.grid.solution) : [];
+    return expected.length > 0 && answer.length === expected.length && expected.every((item, idx) => isSameItem(item, answer[idx]));
+  }
+  const pairs = riddle.pairs ?? [];
+  return answer.length === pairs.length && pairs.every((pair, idx) => isSameItem(pair.right, answer[idx]));
+};
+
+const checkText = (riddle: Riddle, answer: string): AnswerVerdict => {
+  // The riddle's difficulty decides how many typos pass
+  const tolerance = DIFFICULTY_SETTINGS[riddle.difficulty ?? DEFAULT_DIFFICULTY].fuzzyTolerance;
+  const language = riddle.language ?? DEFAULT_LANGUAGE;
+  // Alternative accepted answers count like the solution itself
+  const candidates = [riddle.correctAnswer, ...(Array.isArray(riddle.acceptedAnswers) ? riddle.acceptedAnswers : [])];
+  return bestVerdict(candidates.map(candidate => compareText(answer, candidate, tolerance, language)));
+};
+
+// Checks an answer against the riddle: exact option for 'choice', numeric with tolerance and units for 'number',
+// structured for the list types, normalized and fuzzy for free text. Only 'number' and 'text' answers can be close.
+export const checkAnswer = (riddle: Riddle, answer: RiddleAnswer): AnswerVerdict => {
+  if (riddle.type === 'order' || riddle.type === 'multi' || riddle.type === 'match' || riddle.type === 'grid') {
+    return isListMatch(riddle, Array.isArray(answer) ? answer : [answer]) ? 'correct' : 'wrong';
+  }
+  if (Array.isArray(answer)) {
+    return 'wrong';
+  }
+  if (riddle.type === 'choice') {
+    return answer === riddle.correctAnswer ? 'correct' : 'wrong';
+  }
+  if (riddle.type === 'number') {
+    return checkNumber(riddle, answer);
+  }
+  return checkText(riddle, answer);
+};
+
+export const isCorrectAnswer = (riddle: Riddle, answer: RiddleAnswer): boolean => checkAnswer(riddle, answer) === 'correct';
+
+// Close free-text answers are passed to the judge, which can accept them ("Nikolaus" for "Sankt Nikolaus").
+// Everything else is decided locally; a failing judge leaves the answer close.
+export const checkAnswerWithJudge = async (riddle: Riddle, answer: RiddleAnswer, judge?: AnswerJudge): Promise<AnswerVerdict> => {
+  const verdict = checkAnswer(riddle, answer);
+  if (verdict !== 'close' || !judge || riddle.type !== 'text' || typeof answer !== 'string') return verdict;
+  try {
+    return (await judge(riddle, answer)) ? 'correct' : 'close';
+  } catch (e) {
+    console.warn("Answer judge failed:", e);
+    return 'close';
+  }
+};
@@ -0,0 +1,194 @@
+import { Language } from "../types";
+import { parseNumber } from "./riddleTypes";
+import { DEFAULT_LANGUAGE } from "./languages";
+
+// Turns free-text answers into comparable tokens: lowercase, umlauts and accents folded ("ä" = "ae"),
+// articles and filler words dropped, numbers written as words turned into digits, units recognized.
+// answerMatching.ts compares the results.
+
+// Words that carry no meaning in an answer ("der Weihnachtsmann", "the star", "c'est la lune", "ich glaube ...")
+const STOP_WORDS: Record<Language, string[]> = {
+  de: ['der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'eines',
+    'es', 'ist', 'sind', 'ich', 'glaube', 'denke', 'vielleicht', 'wohl', 'antwort', 'loesung', 'lautet'],
+  en: ['the', 'a', 'an', 'it', 'is', 'its', 's', 'i', 'think', 'maybe', 'probably', 'answer'],
+  fr: ['le', 'la', 'les', 'l', 'un', 'une', 'des', 'du', 'de', 'd', 'c', 'est', 'ce', 'je', 'pense', 'peut', 'etre', 'reponse'],
+};
+
+const GERMAN_BELOW_TWENTY = new Map<string, number>(Object.entries({
+  null: 0, ein: 1, eins: 1, eine: 1, zwei: 2, drei: 3, vier: 4, fuenf: 5, sechs: 6, sieben: 7, acht: 8, neun: 9,
+  zehn: 10, elf: 11, zwoelf: 12, dreizehn: 13, vierzehn: 14, fuenfzehn: 15, sechzehn: 16, siebzehn: 17, achtzehn: 18, neunzehn: 19,
+}));
+const GERMAN_TENS = new Map<string, number>(Object.entries({
+  zwanzig: 20, dreissig: 30, vierzig: 40, fuenfzig: 50, sechzig: 60, siebzig: 70, achtzig: 80, neunzig: 90,
+}));
+
+const ENGLISH_BELOW_TWENTY = new Map<string, number>(Object.entries({
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+}));
+const ENGLISH_TENS = new Map<string, number>(Object.entries({
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+}));
+
+export interface UnitDefinition {
+  dimension: 'length' | 'mass' | 'time' | 'volume' | 'temperature' | 'money';
+  factor: number; // in the dimension's base unit (m, g, s, l, °C, €)
+}
+
+// Spellings are folded like answers, so "stück" would be written "stueck"
+const UNIT_ALIASES: [UnitDefinition, string[]][] = [
+  [{ dimension: 'length', factor: 0.001 }, ['mm', 'millimeter', 'millimetre', 'millimetern']],
+  [{ dimension: 'length', factor: 0.01 }, ['cm', 'zentimeter', 'centimeter', 'centimetre', 'zentimetern', 'centimeters', 'centimetres']],
+  [{ dimension: 'length', factor: 1 }, ['m', 'meter', 'metre', 'metern', 'meters', 'metres']],
+  [{ dimension: 'length', factor: 1000 }, ['km', 'kilometer', 'kilometre', 'kilometern', 'kilometers', 'kilometres']],
+  [{ dimension: 'mass', factor: 1 }, ['g', 'gramm', 'gram', 'grams', 'gramme', 'grammes']],
+  [{ dimension: 'mass', factor: 1000 }, ['kg', 'kilo', 'kilos', 'kilogramm', 'kilogram', 'kilograms', 'kilogramme', 'kilogrammes']],
+  [{ dimension: 'time', factor: 1 }, ['s', 'sek', 'sekunde', 'sekunden', 'second', 'seconds', 'seconde', 'secondes']],
+  [{ dimension: 'time', factor: 60 }, ['min', 'minute', 'minuten', 'minutes']],
+  [{ dimension: 'time', factor: 3600 }, ['h', 'std', 'stunde', 'stunden', 'hour', 'hours', 'heure', 'heures']],
+  [{ dimension: 'time', factor: 86400 }, ['tag', 'tage', 'tagen', 'day', 'days', 'jour', 'jours']],
+  [{ dimension: 'time', factor: 604800 }, ['woche', 'wochen', 'week', 'weeks', 'semaine', 'semaines']],
+  [{ dimension: 'volume', factor: 0.001 }, ['ml', 'milliliter', 'millilitre', 'millilitres']],
+  [{ dimension: 'volume', factor: 1 }, ['l', 'liter', 'litre', 'litern', 'liters', 'litres']],
+  [{ dimension: 'temperature', factor: 1 }, ['c', 'grad', 'grad celsius', 'celsius', 'degrees', 'degres']],
+  [{ dimension: 'money', factor: 0.01 }, ['cent', 'cents', 'ct']],
+  [{ dimension: 'money', factor: 1 }, ['euro', 'euros', 'eur']],
+];
+
+const UNITS = new Map<string, UnitDefinition>(UNIT_ALIASES.flatMap(([unit, aliases]) => aliases.map(alias => [alias, unit] as const)));
+
+// Lowercase without umlauts, ß and accents; decomposed input ("a" + combining diaeresis) is composed first
+export const foldText = (text: string): string =>
+  text.normalize('NFC').toLowerCase()
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Digits in any common spelling ("1.000", "1,5", "-5") become plain numbers before splitting into tokens.
+// The minus is kept unless it joins two words or numbers, as in "3-4".
+const canonicalizeDigits = (text: string, language: Language): string =>
+  text.replace(/(?:(?<![\p{L}\p{N}])-)?(?:\d[\d.,]*\d|\d)/gu, match => {
+    const value = parseNumber(match, language);
+    return value === null ? match : ` ${value} `;
+  });
+
+// Words and numbers; a minus only counts at the start of a number, not inside "3-4"
+const tokenize = (text: string, language: Language): string[] =>
+  canonicalizeDigits(foldText(text), language).match(/(?<![\p{L}\p{N}])-\d+(?:\.\d+)?|\d+(?:\.\d+)?|\p{L}+/gu) ?? [];
+
+const parseGermanBelowHundred = (word: string): number | null => {
+  const simple = GERMAN_BELOW_TWENTY.get(word) ?? GERMAN_TENS.get(word);
+  if (simple !== undefined) return simple;
+  // "einundzwanzig", "dreiundvierzig"
+  const compound = word.match(/^(\p{L}+?)und(\p{L}+)$/u);
+  if (!compound) return null;
+  const ones = GERMAN_BELOW_TWENTY.get(compound[1]);
+  const tens = GERMAN_TENS.get(compound[2]);
+  return ones !== undefined && ones >= 1 && ones <= 9 && tens !== undefined ? tens + ones : null;
+};
+
+// Splits "zweihundertzwölf" into the multiplier before the scale word and the rest after it
+const parseGermanScale = (
+  word: string,
+  scale: 'hundert' | 'tausend',
+  parsePart: (part: string) => number | null
+): number | null => {
+  const idx = word.indexOf(scale);
+  if (idx === -1) return parsePart(word);
+  const head = word.slice(0, idx);
+  const tail = word.slice(idx + scale.length).replace(/^und/, '');
+  const multiplier = head ? parsePart(head) : 1;
+  const rest = tail ? parsePart(tail) : 0;
+  if (multiplier === null || multiplier < 1 || rest === null) return null;
+  return multiplier * (scale === 'hundert' ? 100 : 1000) + rest;
+};
+
+const parseGermanBelowThousand = (word: string): number | null => {
+  const value = parseGermanScale(word, 'hundert', parseGermanBelowHundred);
+  return value !== null && value < 1000 ? value : null;
+};
+
+// German numbers are one word up to 999999: "tausendeins", "dreihundertsiebenundzwanzig"
+const parseGermanNumberWord = (word: string): number | null =>
+  parseGermanScale(word, 'tausend', parseGermanBelowThousand);
+
+// English numbers span several words ("two hundred and five"), so runs of number words are combined
+const replaceEnglishNumberWords = (tokens: string[]): string[] => {
+  const result: string[] = [];
+  let total = 0;
+  let current = 0;
+  let inNumber = false;
+  const flush = () => {
+    if (inNumber) result.push(String(total + current));
+    total = 0;
+    current = 0;
+    inNumber = false;
+  };
+  const wordValue = (token: string | undefined) =>
+    token === undefined ? undefined : ENGLISH_BELOW_TWENTY.get(token) ?? ENGLISH_TENS.get(token);
+  tokens.forEach((token, idx) => {
+    const value = wordValue(token);
+    if (value !== undefined) {
+      current += value;
+      inNumber = true;
+    } else if (token === 'hundred') {
+      current = (current || 1) * 100;
+      inNumber = true;
+    } else if (token === 'thousand') {
+      total += (current || 1) * 1000;
+      current = 0;
+      inNumber = true;
+    } else if (token === 'and' && inNumber && wordValue(tokens[idx + 1]) !== undefined) {
+      // "one hundred and five"
+    } else {
+      flush();
+      result.push(token);
+    }
+  });
+  flush();
+  return result;
+};
+
+// Number words of the riddle's language become digits; French answers keep their words
+const replaceNumberWords = (tokens: string[], language: Language): string[] => {
+  if (language === 'de') return tokens.map(token => String(parseGermanNumberWord(token) ?? token));
+  if (language === 'en') return replaceEnglishNumberWords(tokens);
+  return tokens;
+};
+
+export interface NormalizedAnswer {
+  words: string[]; // folded, without stop words
+  numeric: string[]; // the same with number words as digits
+}
+
+export const isNumberToken = (token: string): boolean => /^-?\d+(\.\d+)?$/.test(token);
+
+export const normalizeAnswer = (text: string, language: Language): NormalizedAnswer => {
+  const tokens = tokenize(text, language);
+  const stopWords = STOP_WORDS[language];
+  const meaningful = tokens.filter(token => !stopWords.includes(token));
+  // An answer made only of stop words keeps them, otherwise nothing would be left to compare
+  const words = meaningful.length > 0 ? meaningful : tokens;
+  return { words, numeric: replaceNumberWords(words, language) };
+};
+
+// Unit names hold no digits, so the language does not matter here
+export const findUnit = (text: string | undefined): UnitDefinition | undefined =>
+  text === undefined ? undefined : UNITS.get(tokenize(text, DEFAULT_LANGUAGE).join(' '));
+
+export interface Quantity {
+  value: number;
+  unitText?: string; // folded, as written
+  unit?: UnitDefinition; // if it is a unit we can convert
+}
+
+// "12", "zwölf", "1,5 km", "300 Zentimeter", "-5 °C"; null if the answer is not a number with an optional unit
+export const parseQuantity = (text: string, language: Language): Quantity | null => {
+  const [first, ...rest] = normalizeAnswer(text, language).numeric;
+  if (first === undefined || !isNumberToken(first)) return null;
+  const value = Number(first);
+  if (rest.length === 0) return { value };
+  // "3 bis 4" is a range, not 3 of some unit
+  if (rest.some(isNumberToken)) return null;
+  const unitText = rest.join(' ');
+  return { value, unitText, unit: UNITS.get(unitText) };
+};
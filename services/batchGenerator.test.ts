@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import { Riddle, RiddleProvider, RiddleRequestOptions } from "../types";
+import { generateCalendarBatch } from "./batchGenerator";
+import { HttpStatusError } from "./resilience";
+import { getOfflineRiddle } from "./riddleFallback";
+
+const createProvider = (generate: (day: number, options?: RiddleRequestOptions) => Promise<Riddle>) => {
+  const generateRiddle = vi.fn(generate);
+  const provider: RiddleProvider = { id: 'gemini', generateRiddle };
+  return { provider, generateRiddle };
+};
+
+describe('generateCalendarBatch', () => {
+  it('aborts the request in flight when cancelled', async () => {
+    const controller = new AbortController();
+    const { provider, generateRiddle } = createProvider((_, options) => new Promise((_, reject) => {
+      // Like fetch, the request only ends when it is aborted
+      options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    const batch = generateCalendarBatch(provider, [1, 2, 3], { concurrency: 1, signal: controller.signal, baseDelayMs: 1 });
+    await vi.waitFor(() => expect(generateRiddle).toHaveBeenCalledOnce());
+    controller.abort();
+    const result = await batch;
+
+    expect(generateRiddle).toHaveBeenCalledOnce();
+    expect(result).toEqual({ riddles: [], failures: [], cancelled: true });
+  });
+
+  it('does not retry requests the backend refuses', async () => {
+    const { provider, generateRiddle } = createProvider(async (day) => {
+      if (day === 2) throw new HttpStatusError(403, 'Tür 2 ist noch verschlossen.');
+      return getOfflineRiddle(day);
+    });
+
+    const result = await generateCalendarBatch(provider, [1, 2], { baseDelayMs: 1 });
+
+    expect(generateRiddle).toHaveBeenCalledTimes(2);
+    expect(result.riddles.map(riddle => riddle.day)).toEqual([1]);
+    expect(result.failures).toEqual([{ day: 2, attempts: 1, error: 'Tür 2 ist noch verschlossen.' }]);
+  });
+
+  it('retries failures that may go away', async () => {
+    let calls = 0;
+    const { provider } = createProvider(async (day) => {
+      if (++calls === 1) throw new HttpStatusError(503, 'overloaded');
+      return getOfflineRiddle(day);
+    });
+
+    const result = await generateCalendarBatch(provider, [1], { baseDelayMs: 1 });
+
+    expect(result.riddles).toHaveLength(1);
+    expect(result.failures).toEqual([]);
+  });
+});
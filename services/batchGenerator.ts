@@ -0,0 +1,99 @@
+import { Riddle, RiddleProvider, RiddleRequestOptions } from "../types";
+import { RiddleRejectedError } from "./riddleValidator";
+import { isRetryableError } from "./resilience";
+
+export interface BatchOptions {
+  concurrency?: number; // Parallel requests, keep low to respect API rate limits
+  maxRetries?: number; // Additional attempts per day after the first failure
+  baseDelayMs?: number; // Backoff before retry n is baseDelayMs * 2^(n-1)
+  signal?: AbortSignal;
+  onProgress?: (event: BatchProgressEvent) => void;
+  onRiddle?: (riddle: Riddle) => void; // Called as soon as a single day is done
+  request?: RiddleRequestOptions; // Passed to every generation, e.g. the difficulty
+}
+
+export interface BatchProgressEvent {
+  day: number;
+  status: 'started' | 'retrying' | 'done' | 'failed';
+  attempt: number;
+  completed: number;
+  total: number;
+  error?: string;
+}
+
+export interface BatchFailure {
+  day: number;
+  attempts: number;
+  error: string;
+}
+
+export interface BatchResult {
+  riddles: Riddle[];
+  failures: BatchFailure[];
+  cancelled: boolean;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+// Generates riddles for all given days with limited concurrency and exponential backoff.
+// Never throws for a single day: failures are collected and reported in the result.
+export const generateCalendarBatch = async (
+  provider: RiddleProvider,
+  days: number[],
+  options: BatchOptions = {}
+): Promise<BatchResult> => {
+  const { concurrency = 2, maxRetries = 3, baseDelayMs = 2000, signal, onProgress, onRiddle, request } = options;
+  const queue = [...days];
+  const riddles: Riddle[] = [];
+  const failures: BatchFailure[] = [];
+  let completed = 0;
+
+  const report = (day: number, status: BatchProgressEvent['status'], attempt: number, error?: string) => {
+    onProgress?.({ day, status, attempt, completed, total: days.length, error });
+  };
+
+  const processDay = async (day: number) => {
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      if (signal?.aborted) return;
+      report(day, attempt === 1 ? 'started' : 'retrying', attempt);
+      try {
+        // The signal also stops the request in flight, not just the days after it
+        const riddle = await provider.generateRiddle(day, { ...request, signal: signal ?? request?.signal });
+        riddles.push(riddle);
+        completed++;
+        onRiddle?.(riddle);
+        report(day, 'done', attempt);
+        return;
+      } catch (e) {
+        // Cancelled, not failed
+        if (signal?.aborted) return;
+        const message = e instanceof Error ? e.message : String(e);
+        // Rejected riddles already used up their own regeneration budget; refused requests (4xx) fail the same way again
+        if (attempt > maxRetries || e instanceof RiddleRejectedError || !isRetryableError(e)) {
+          failures.push({ day, attempts: attempt, error: message });
+          completed++;
+          report(day, 'failed', attempt, message);
+          return;
+        }
+        await sleep(baseDelayMs * 2 ** (attempt - 1), signal);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      await processDay(queue.shift()!);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, days.length)) }, worker));
+
+  return {
+    riddles: riddles.sort((a, b) => a.day - b.day),
+    failures: failures.sort((a, b) => a.day - b.day),
+    cancelled: Boolean(signal?.aborted),
+  };
+};
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CalendarConfig,
+  DEFAULT_CALENDAR_CONFIG,
+  getSeasonDay,
+  isDoorUnlocked,
+  parseCalendarConfig,
+} from "./calendarConfig";
+
+const config = (overrides: Partial<CalendarConfig> = {}): CalendarConfig => ({
+  ...DEFAULT_CALENDAR_CONFIG,
+  timeZone: 'Europe/Berlin',
+  ...overrides,
+});
+
+let warn: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseCalendarConfig', () => {
+  it('uses the defaults when nothing is set', () => {
+    expect(parseCalendarConfig({})).toEqual(DEFAULT_CALENDAR_CONFIG);
+    expect(parseCalendarConfig({ CALENDAR_START_DAY: ' ', CALENDAR_CATCH_UP_DAYS: '' })).toEqual(DEFAULT_CALENDAR_CONFIG);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('reads valid values', () => {
+    expect(parseCalendarConfig({
+      CALENDAR_START_DAY: '1',
+      CALENDAR_END_DAY: '24',
+      CALENDAR_BONUS_DAYS: '26, 25,26',
+      CALENDAR_TIMEZONE: 'America/New_York',
+      CALENDAR_CATCH_UP_DAYS: '0',
+      CALENDAR_OPEN_ALL: 'true',
+    })).toEqual({ startDay: 1, endDay: 24, bonusDays: [25, 26], timeZone: 'America/New_York', catchUpDays: 0, openAll: true });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a start after the end', { CALENDAR_START_DAY: '20', CALENDAR_END_DAY: '10' }],
+    ['a day outside December', { CALENDAR_START_DAY: '0' }],
+    ['a day past the 31st', { CALENDAR_END_DAY: '32' }],
+    ['a fractional day', { CALENDAR_START_DAY: '1.5' }],
+    ['text', { CALENDAR_END_DAY: 'Heiligabend' }],
+  ])('falls back to the default range for %s', (_, env) => {
+    const parsed = parseCalendarConfig(env);
+    expect([parsed.startDay, parsed.endDay]).toEqual([6, 24]);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('ignores bonus doors that are not after the last regular door', () => {
+    const parsed = parseCalendarConfig({ CALENDAR_BONUS_DAYS: '24,25,x,32,26' });
+    expect(parsed.bonusDays).toEqual([25, 26]);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('uses the device zone for an unknown time zone', () => {
+    expect(parseCalendarConfig({ CALENDAR_TIMEZONE: 'Europe/Nirgendwo' }).timeZone).toBeUndefined();
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it.each(['-1', '2.5', 'eine Woche'])('falls back to the default catch-up window for "%s"', (value) => {
+    expect(parseCalendarConfig({ CALENDAR_CATCH_UP_DAYS: value }).catchUpDays).toBe(7);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it.each(['1', 'TRUE', 'yes', ''])('only opens all doors for exactly "true", not "%s"', (value) => {
+    expect(parseCalendarConfig({ CALENDAR_OPEN_ALL: value }).openAll).toBe(false);
+  });
+});
+
+describe('getSeasonDay', () => {
+  it.each([
+    // [instant, zone, season day]
+    ['2025-12-01T00:00:00+01:00', 'Europe/Berlin', 1],
+    ['2025-11-30T23:59:59+01:00', 'Europe/Berlin', 0],
+    ['2025-12-31T12:00:00Z', 'Europe/Berlin', 31],
+    // New Year: the season of the previous December goes on
+    ['2026-01-01T00:30:00+01:00', 'Europe/Berlin', 32],
+    ['2026-01-07T12:00:00Z', 'Europe/Berlin', 38],
+    ['2026-06-30T12:00:00Z', 'Europe/Berlin', 212],
+    // From July on, the next season counts down to its December
+    ['2026-07-01T12:00:00Z', 'Europe/Berlin', -152],
+  ])('%s in %s is day %i', (instant, timeZone, expected) => {
+    expect(getSeasonDay(new Date(instant), config({ timeZone }))).toBe(expected);
+  });
+
+  it('follows the configured zone, not UTC', () => {
+    // 23:30 UTC on December 5th is already the 6th in Berlin and Tokyo, still the 5th in New York
+    const instant = new Date('2025-12-05T23:30:00Z');
+    expect(getSeasonDay(instant, config({ timeZone: 'Europe/Berlin' }))).toBe(6);
+    expect(getSeasonDay(instant, config({ timeZone: 'Asia/Tokyo' }))).toBe(6);
+    expect(getSeasonDay(instant, config({ timeZone: 'America/New_York' }))).toBe(5);
+    expect(getSeasonDay(instant, config({ timeZone: 'UTC' }))).toBe(5);
+  });
+
+  it('changes the year in each zone at its own midnight', () => {
+    const instant = new Date('2025-12-31T23:30:00Z');
+    expect(getSeasonDay(instant, config({ timeZone: 'Europe/Berlin' }))).toBe(32);
+    expect(getSeasonDay(instant, config({ timeZone: 'Pacific/Honolulu' }))).toBe(31);
+    expect(getSeasonDay(instant, config({ timeZone: 'Pacific/Kiritimati' }))).toBe(32);
+  });
+});
+
+describe('isDoorUnlocked', () => {
+  const berlin = (time: string) => new Date(`${time}+01:00`);
+
+  it('opens a door at midnight of its day in the configured zone', () => {
+    expect(isDoorUnlocked(6, berlin('2025-12-05T23:59:59'), config())).toBe(false);
+    expect(isDoorUnlocked(6, berlin('2025-12-06T00:00:00'), config())).toBe(true);
+    expect(isDoorUnlocked(7, berlin('2025-12-06T23:59:59'), config())).toBe(false);
+  });
+
+  it('keeps earlier doors open', () => {
+    expect(isDoorUnlocked(6, berlin('2025-12-24T12:00:00'), config())).toBe(true);
+  });
+
+  it('keeps doors open over New Year until the catch-up window ends', () => {
+    // Last door 24, seven catch-up days: open through December 31st, closed on January 1st
+    expect(isDoorUnlocked(24, berlin('2025-12-31T23:59:59'), config())).toBe(true);
+    expect(isDoorUnlocked(24, berlin('2026-01-01T00:00:00'), config())).toBe(false);
+    // With 10 days the window reaches into January
+    expect(isDoorUnlocked(6, berlin('2026-01-03T23:59:59'), config({ catchUpDays: 10 }))).toBe(true);
+    expect(isDoorUnlocked(6, berlin('2026-01-04T00:00:00'), config({ catchUpDays: 10 }))).toBe(false);
+  });
+
+  it('closes right after the last door without a catch-up window', () => {
+    expect(isDoorUnlocked(24, berlin('2025-12-24T23:59:59'), config({ catchUpDays: 0 }))).toBe(true);
+    expect(isDoorUnlocked(24, berlin('2025-12-25T00:00:00'), config({ catchUpDays: 0 }))).toBe(false);
+  });
+
+  it('counts the catch-up window from the last bonus door', () => {
+    const withBonus = config({ bonusDays: [25, 26], catchUpDays: 0 });
+    expect(isDoorUnlocked(25, berlin('2025-12-25T00:00:00'), withBonus)).toBe(true);
+    expect(isDoorUnlocked(6, berlin('2025-12-26T23:59:59'), withBonus)).toBe(true);
+    expect(isDoorUnlocked(6, berlin('2025-12-27T00:00:00'), withBonus)).toBe(false);
+  });
+
+  it('opens nothing before the season and nothing in the summer', () => {
+    expect(isDoorUnlocked(1, berlin('2025-11-30T12:00:00'), config({ startDay: 1 }))).toBe(false);
+    expect(isDoorUnlocked(6, berlin('2026-06-30T12:00:00'), config())).toBe(false);
+    expect(isDoorUnlocked(6, berlin('2026-07-01T12:00:00'), config())).toBe(false);
+  });
+
+  it('opens every door at any time with openAll', () => {
+    const replay = config({ openAll: true });
+    expect(isDoorUnlocked(24, berlin('2025-11-01T12:00:00'), replay)).toBe(true);
+    expect(isDoorUnlocked(24, berlin('2026-02-15T12:00:00'), replay)).toBe(true);
+    expect(isDoorUnlocked(31, berlin('2025-12-01T00:00:00'), replay)).toBe(true);
+  });
+
+  it('decides by the configured zone, not the device', () => {
+    // 20:00 in New York on December 6th is already December 7th in Berlin
+    const instant = new Date('2025-12-06T20:00:00-05:00');
+    expect(isDoorUnlocked(7, instant, config({ timeZone: 'Europe/Berlin' }))).toBe(true);
+    expect(isDoorUnlocked(7, instant, config({ timeZone: 'America/New_York' }))).toBe(false);
+  });
+});
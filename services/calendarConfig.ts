@@ -0,0 +1,136 @@
+// Which doors the calendar has and when they unlock.
+// Everything is read from .env.local (CALENDAR_*), invalid values fall back to the defaults with a warning.
+
+export interface CalendarConfig {
+  startDay: number; // First regular door in December
+  endDay: number; // Last regular door in December
+  bonusDays: number[]; // Extra doors after the regular range, e.g. 25 and 26
+  timeZone?: string; // IANA zone that decides when a day starts; the device zone if unset
+  catchUpDays: number; // Days after the last door during which missed doors can still be opened
+  openAll: boolean; // January replay: every door is open regardless of the date
+}
+
+export const DEFAULT_CALENDAR_CONFIG: CalendarConfig = {
+  startDay: 6,
+  endDay: 24,
+  bonusDays: [],
+  timeZone: undefined,
+  catchUpDays: 7, // Until New Year's Eve, as before the setting existed
+  openAll: false,
+};
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const isDecemberDay = (day: number) => Number.isInteger(day) && day >= 1 && day <= 31;
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('de-DE', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseNumber = (value: string | undefined, fallback: number) =>
+  value !== undefined && value.trim() !== '' ? Number(value) : fallback;
+
+export const parseCalendarConfig = (env: Record<string, string | undefined>): CalendarConfig => {
+  const config: CalendarConfig = {
+    startDay: parseNumber(env.CALENDAR_START_DAY, DEFAULT_CALENDAR_CONFIG.startDay),
+    endDay: parseNumber(env.CALENDAR_END_DAY, DEFAULT_CALENDAR_CONFIG.endDay),
+    bonusDays: env.CALENDAR_BONUS_DAYS
+      ? env.CALENDAR_BONUS_DAYS.split(',').map(day => Number(day.trim()))
+      : DEFAULT_CALENDAR_CONFIG.bonusDays,
+    timeZone: env.CALENDAR_TIMEZONE || DEFAULT_CALENDAR_CONFIG.timeZone,
+    catchUpDays: parseNumber(env.CALENDAR_CATCH_UP_DAYS, DEFAULT_CALENDAR_CONFIG.catchUpDays),
+    openAll: env.CALENDAR_OPEN_ALL === 'true',
+  };
+
+  if (!isDecemberDay(config.startDay) || !isDecemberDay(config.endDay) || config.startDay > config.endDay) {
+    console.warn(`Invalid calendar range ${config.startDay}-${config.endDay}, using the default.`);
+    config.startDay = DEFAULT_CALENDAR_CONFIG.startDay;
+    config.endDay = DEFAULT_CALENDAR_CONFIG.endDay;
+  }
+  const bonusDays = config.bonusDays.filter(day => isDecemberDay(day) && day > config.endDay);
+  if (bonusDays.length !== config.bonusDays.length) {
+    console.warn("Bonus doors must be December days after the last regular door, ignoring the others.");
+  }
+  config.bonusDays = Array.from(new Set(bonusDays)).sort((a, b) => a - b);
+  if (config.timeZone && !isValidTimeZone(config.timeZone)) {
+    console.warn(`Unknown time zone "${config.timeZone}", using the device time zone.`);
+    config.timeZone = undefined;
+  }
+  if (!Number.isInteger(config.catchUpDays) || config.catchUpDays < 0) {
+    console.warn(`Invalid catch-up window "${config.catchUpDays}", using the default.`);
+    config.catchUpDays = DEFAULT_CALENDAR_CONFIG.catchUpDays;
+  }
+  return config;
+};
+
+export const CALENDAR_CONFIG = parseCalendarConfig({
+  CALENDAR_START_DAY: process.env.CALENDAR_START_DAY,
+  CALENDAR_END_DAY: process.env.CALENDAR_END_DAY,
+  CALENDAR_BONUS_DAYS: process.env.CALENDAR_BONUS_DAYS,
+  CALENDAR_TIMEZONE: process.env.CALENDAR_TIMEZONE,
+  CALENDAR_CATCH_UP_DAYS: process.env.CALENDAR_CATCH_UP_DAYS,
+  CALENDAR_OPEN_ALL: process.env.CALENDAR_OPEN_ALL,
+});
+
+export const getDoorDays = (config: CalendarConfig): number[] => [
+  ...Array.from({ length: config.endDay - config.startDay + 1 }, (_, i) => i + config.startDay),
+  ...config.bonusDays,
+];
+
+// Regular doors followed by the bonus doors
+export const DOOR_DAYS = getDoorDays(CALENDAR_CONFIG);
+
+export const isBonusDay = (day: number, config: CalendarConfig = CALENDAR_CONFIG) => config.bonusDays.includes(day);
+
+// The wall-clock date in the configured zone, so a door opens at local midnight there
+export const getCalendarDate = (now: Date, timeZone?: string): CalendarDate => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, year: 'numeric', month: 'numeric', day: 'numeric',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: part('year'), month: part('month'), day: part('day') };
+};
+
+export const isTimeOfDay = (value: unknown): value is string =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+// Wall-clock time as "HH:MM" in the configured zone, comparable as a string
+export const getTimeOfDay = (now: Date, timeZone?: string): string =>
+  new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(now);
+
+// Day number within the Advent season: 1-31 in December, 32 for January 1st and so on.
+// The first half of a year still belongs to the season that started the previous December.
+export const getSeasonDay = (now: Date, config: CalendarConfig = CALENDAR_CONFIG): number => {
+  const { year, month, day } = getCalendarDate(now, config.timeZone);
+  const seasonYear = month >= 7 ? year : year - 1;
+  const decemberFirst = Date.UTC(seasonYear, 11, 1);
+  return Math.round((Date.UTC(year, month - 1, day) - decemberFirst) / 86_400_000) + 1;
+};
+
+// Doors open on their day and stay open until the catch-up window after the last door closes
+export const isDoorUnlocked = (day: number, now: Date, config: CalendarConfig = CALENDAR_CONFIG): boolean => {
+  if (config.openAll) return true;
+  const seasonDay = getSeasonDay(now, config);
+  const lastDoor = Math.max(...getDoorDays(config));
+  return day <= seasonDay && seasonDay <= lastDoor + config.catchUpDays;
+};
+
+// A door whose day is over; used to tell missed doors from today's
+export const isDoorDayPast = (day: number, now: Date, config: CalendarConfig = CALENDAR_CONFIG): boolean =>
+  getSeasonDay(now, config) > day;
+
+// Noon UTC of a December day in the season of `now`, on the same calendar day in every zone from UTC-11 to UTC+11
+export const getSimulatedDate = (day: number, now: Date = new Date(), config: CalendarConfig = CALENDAR_CONFIG): Date => {
+  const { year, month } = getCalendarDate(now, config.timeZone);
+  const seasonYear = month >= 7 ? year : year - 1;
+  return new Date(Date.UTC(seasonYear, 11, day, 12));
+};
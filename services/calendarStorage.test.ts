@@ -0,0 +1,215 @@
+import { readFileSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CURRENT_SCHEMA_VERSION,
+  STORAGE_KEY,
+  StorageVersionError,
+  getQuarantinedEntries,
+  loadCalendarStore,
+  loadPackSettings,
+  runMigrations,
+} from "./calendarStorage";
+import { RIDDLE_PACK_FORMAT, RIDDLE_PACK_VERSION } from "./riddlePack";
+
+const LEGACY_STORAGE_KEY = 'advent_calendar_progress_v1';
+
+const readFixture = (name: string): string =>
+  readFileSync(new URL(`./__fixtures__/storage/${name}`, import.meta.url), 'utf8');
+
+// Just enough of the Storage interface for calendarStorage.ts
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, String(value)); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+};
+
+let storage: ReturnType<typeof createMemoryStorage>;
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('migrations', () => {
+  it('lifts a schema 1 calendar to a single shared profile', () => {
+    storage.setItem(LEGACY_STORAGE_KEY, readFixture('schema1.json'));
+
+    const { store, quarantined, migratedFrom } = loadCalendarStore();
+
+    expect(migratedFrom).toBe(1);
+    expect(quarantined).toEqual([]);
+    expect(store.profiles).toHaveLength(1);
+    const [profile] = store.profiles;
+    expect(profile).toMatchObject({ name: 'Familie', avatar: '🎄', ageGroup: 'adult', difficulty: 'hard' });
+    expect(store.difficulty).toBe('medium');
+
+    // Schema 2 gave the riddles ids, schema 3 moved them into the shared pool
+    expect(Object.keys(store.sharedRiddles).sort()).toEqual(['1', '2']);
+    expect(store.sharedRiddles[1].riddle.id).toEqual(expect.any(String));
+    expect(store.sharedRiddles[1].riddle.correctAnswer).toBe('Flasche');
+    expect(store.sharedRiddles[2].isLocked).toBe(false);
+
+    const doors = store.doors[profile.id];
+    expect(doors[1]).toMatchObject({ isOpen: true, isSolved: true, hintsUsed: 1 });
+    expect(doors[1].riddle).toBeUndefined();
+    expect(doors[1].isRevealed).toBeUndefined();
+    // Schema 5: four hint clicks on an unsolved door meant the solution was shown
+    expect(doors[2]).toMatchObject({ isSolved: false, hintsUsed: 4, isRevealed: true });
+    expect(doors[3]).toMatchObject({ isOpen: true, isSolved: false });
+  });
+
+  it('saves the migrated store under the current schema and drops the legacy key', () => {
+    storage.setItem(LEGACY_STORAGE_KEY, readFixture('schema1.json'));
+
+    loadCalendarStore();
+
+    expect(storage.getItem(LEGACY_STORAGE_KEY)).toBeNull();
+    const envelope = JSON.parse(storage.getItem(STORAGE_KEY) ?? '{}');
+    expect(envelope.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(envelope.calendar.profiles).toHaveLength(1);
+
+    // The second load finds nothing left to migrate
+    const reloaded = loadCalendarStore();
+    expect(reloaded.migratedFrom).toBeUndefined();
+    expect(reloaded.store.profiles[0].id).toBe(envelope.calendar.profiles[0].id);
+  });
+
+  it('only marks solutions as revealed when lifting schema 4', () => {
+    storage.setItem(STORAGE_KEY, readFixture('schema4.json'));
+
+    const { store, quarantined, migratedFrom } = loadCalendarStore();
+
+    expect(migratedFrom).toBe(4);
+    expect(quarantined).toEqual([]);
+    expect(store.difficulty).toBe('hard');
+    expect(store.profiles.map(p => [p.name, p.difficulty])).toEqual([['Anna', 'easy'], ['Ben', 'hard']]);
+    expect(store.doors['p-anna'][1]).toEqual({
+      isOpen: true, isSolved: true, isLocked: false, hintsUsed: 2, attempts: 3, solvedAt: '2025-12-01T16:00:00.000Z',
+    });
+    expect(store.doors['p-anna'][2].isRevealed).toBe(true);
+    expect(store.doors['p-ben'][1].isRevealed).toBe(true);
+    expect(store.sharedRiddles[1]).toMatchObject({ isLocked: true, riddle: { id: 'r-1', correctAnswer: 'Flasche' } });
+  });
+
+  it.each([
+    // [from, migrated data, expected]
+    [2, { 1: { isOpen: true, isSolved: false, isLocked: false } }, 'profiles'],
+    [3, { profiles: [{ id: 'p', name: 'Kim', avatar: '⭐', ageGroup: 'teen' }], doors: {}, sharedRiddles: {} }, 'difficulty'],
+  ])('runs every migration after schema %i', (from, data, addedKey) => {
+    const migrated = runMigrations(data, from) as Record<string, unknown>;
+    expect(migrated).toHaveProperty(addedKey);
+  });
+
+  it('gives teens the medium level when profiles get difficulties', () => {
+    const migrated = runMigrations({ profiles: [{ id: 'p', name: 'Kim', avatar: '⭐', ageGroup: 'teen' }] }, 3) as any;
+    expect(migrated.profiles[0].difficulty).toBe('medium');
+    expect(migrated.difficulty).toBe('medium');
+  });
+
+  it('turns an empty schema 1 calendar into an empty store', () => {
+    expect(runMigrations({}, 1)).toEqual({ profiles: [], shareRiddles: true, difficulty: 'medium', sharedRiddles: {}, doors: {} });
+  });
+
+  it('refuses data from a newer schema', () => {
+    storage.setItem(STORAGE_KEY, JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, calendar: {} }));
+    expect(() => loadCalendarStore()).toThrow(StorageVersionError);
+  });
+});
+
+describe('quarantine', () => {
+  it('sets unparseable JSON aside and starts fresh', () => {
+    storage.setItem(STORAGE_KEY, '{"schemaVersion": 5, "calendar": {');
+
+    const { store, quarantined } = loadCalendarStore();
+
+    expect(store.profiles).toEqual([]);
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0]).toMatchObject({ key: '*', raw: '{"schemaVersion": 5, "calendar": {' });
+    expect(quarantined[0].reason).toContain('kein gültiges JSON');
+    expect(getQuarantinedEntries()).toEqual(quarantined);
+  });
+
+  it('also catches a broken legacy calendar', () => {
+    storage.setItem(LEGACY_STORAGE_KEY, 'not json');
+
+    const { quarantined } = loadCalendarStore();
+
+    expect(quarantined.map(e => e.raw)).toEqual(['not json']);
+  });
+
+  it('keeps the valid parts and quarantines broken profiles, doors and riddles', () => {
+    storage.setItem(STORAGE_KEY, readFixture('broken.json'));
+
+    const { store, quarantined, migratedFrom } = loadCalendarStore();
+
+    expect(migratedFrom).toBeUndefined();
+    expect(store.profiles.map(p => p.name)).toEqual(['Anna']);
+    expect(quarantined.map(e => e.key).sort()).toEqual([
+      'Anna.1.riddle', 'Anna.2', 'Anna.40', 'profiles.1', 'profiles.2', 'shared.4', 'shared.abc',
+    ]);
+
+    const doors = store.doors['p-anna'];
+    // The progress survives, the door loses its riddle and its lock so a new one gets generated
+    expect(doors[1]).toEqual({ isOpen: true, isSolved: true, isLocked: false });
+    expect(doors[3]).toEqual({ isOpen: true, isSolved: false, isLocked: false, hintsUsed: 4 });
+    expect(Object.keys(doors).sort()).toEqual(['1', '3']);
+    expect(store.sharedRiddles).toEqual({});
+  });
+
+  it('appends to earlier quarantined entries', () => {
+    storage.setItem(STORAGE_KEY, 'kaputt');
+    loadCalendarStore();
+    storage.setItem(STORAGE_KEY, readFixture('broken.json'));
+    loadCalendarStore();
+
+    expect(getQuarantinedEntries()).toHaveLength(8);
+  });
+});
+
+describe('stored riddle pack', () => {
+  const PACK_STORAGE_KEY = 'advent_calendar_pack_v1';
+  const pack = {
+    format: RIDDLE_PACK_FORMAT,
+    version: RIDDLE_PACK_VERSION,
+    meta: { title: 'Familienpaket', language: 'de' },
+    riddles: [{
+      day: 1,
+      type: 'text',
+      question: 'Was leuchtet am Baum?',
+      correctAnswer: 'Kerze',
+      solutionExplanation: 'Kerzen leuchten.',
+      hints: ['a', 'b', 'c'],
+    }],
+  };
+
+  it('loads a valid pack', () => {
+    storage.setItem(PACK_STORAGE_KEY, JSON.stringify({ pack, usePack: true }));
+    const settings = loadPackSettings();
+    expect(settings.usePack).toBe(true);
+    expect(settings.pack?.riddles.map(riddle => riddle.correctAnswer)).toEqual(['Kerze']);
+  });
+
+  it.each([
+    ['a pack in an old format', { ...pack, version: 0 }],
+    ['a riddle without hints', { ...pack, riddles: [{ ...pack.riddles[0], hints: undefined }] }],
+    ['a logic grid without its solution', { ...pack, riddles: [{ ...pack.riddles[0], type: 'grid', grid: {
+      entities: ['Anna', 'Ben'],
+      attributes: [{ name: 'Geschenk', values: ['Buch', 'Ball'] }],
+      clues: [{ text: 'Anna bekommt das Buch.', kind: 'same', a: 'Anna', b: 'Buch' }],
+    } }] }],
+  ])('falls back to no pack for %s', (_, stored) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.setItem(PACK_STORAGE_KEY, JSON.stringify({ pack: stored, usePack: true }));
+    expect(loadPackSettings()).toEqual({ pack: null, usePack: false });
+  });
+});
@@ -0,0 +1,413 @@
+import { CalendarState, CalendarStore, DoorState, Profile, Riddle, RiddlePack, RiddleSlot } from "../types";
+import { createId, sanitizeRiddle } from "./riddleSanitizer";
+import { createEmptyStore } from "./profiles";
+import { DEFAULT_DIFFICULTY, getDefaultDifficultyForAgeGroup, isDifficulty } from "./difficulty";
+import { isTimeOfDay } from "./calendarConfig";
+import { parseStoredRiddlePack } from "./riddlePack";
+
+// Owns everything the calendar persists in localStorage.
+// Every change to DoorState or Riddle that affects saved data needs a new schema version and a migration below.
+export const CURRENT_SCHEMA_VERSION = 5;
+
+export const STORAGE_KEY = 'advent_calendar_state';
+const LEGACY_STORAGE_KEY = 'advent_calendar_progress_v1'; // Schema 1: the raw CalendarState
+const QUARANTINE_KEY = 'advent_calendar_quarantine';
+const PACK_STORAGE_KEY = 'advent_calendar_pack_v1';
+
+const MAX_QUARANTINED_ENTRIES = 50;
+
+interface StoredEnvelope {
+  schemaVersion: number;
+  savedAt: string;
+  calendar: unknown;
+}
+
+export interface QuarantinedEntry {
+  key: string;
+  reason: string;
+  raw: unknown;
+  schemaVersion: number;
+  quarantinedAt: string;
+}
+
+export interface LoadResult {
+  store: CalendarStore;
+  quarantined: QuarantinedEntry[];
+  migratedFrom?: number;
+}
+
+// Thrown when stored data was written by a newer version of the app
+export class StorageVersionError extends Error {
+  constructor(public readonly storedVersion: number) {
+    super(`Gespeicherte Daten stammen von einer neueren Version (Schema ${storedVersion}, unterstützt: ${CURRENT_SCHEMA_VERSION}).`);
+    this.name = 'StorageVersionError';
+  }
+}
+
+interface Migration {
+  version: number; // The schema version this migration produces
+  migrate: (calendar: any) => any;
+}
+
+// Ordered migrations, each one lifts the data from `version - 1` to `version`
+export const MIGRATIONS: Migration[] = [
+  {
+    // Schema 2: riddles carry an id (keys the image store), doors have an explicit isLocked flag
+    version: 2,
+    migrate: (calendar) => {
+      const migrated: Record<string, unknown> = {};
+      Object.keys(calendar || {}).forEach((key) => {
+        const door = calendar[key];
+        if (door && typeof door === 'object') {
+          migrated[key] = {
+            ...door,
+            isLocked: Boolean(door.isLocked),
+            riddle: door.riddle && typeof door.riddle === 'object'
+              ? { ...door.riddle, id: door.riddle.id || createId() }
+              : door.riddle,
+          };
+        } else {
+          migrated[key] = door;
+        }
+      });
+      return migrated;
+    },
+  },
+  {
+    // Schema 3: player profiles. The single calendar becomes the first profile, its riddles are shared.
+    version: 3,
+    migrate: (calendar) => {
+      const store = createEmptyStore();
+      const keys = Object.keys(calendar || {});
+      if (keys.length === 0) return store;
+
+      const profile: Omit<Profile, 'difficulty'> = { id: createId(), name: 'Familie', avatar: '🎄', ageGroup: 'adult' };
+      const doors: Record<string, unknown> = {};
+      keys.forEach((key) => {
+        const door = calendar[key];
+        if (door && typeof door === 'object') {
+          const { riddle, isLocked, ...progress } = door;
+          doors[key] = progress;
+          if (riddle !== undefined) store.sharedRiddles[Number(key)] = { riddle, isLocked };
+        } else {
+          doors[key] = door;
+        }
+      });
+      store.profiles = [profile as Profile];
+      store.doors = { [profile.id]: doors as CalendarState };
+      return store;
+    },
+  },
+  {
+    // Schema 4: difficulty levels. Profiles start at the level of their age group, the calendar at medium.
+    version: 4,
+    migrate: (store) => {
+      if (!store || typeof store !== 'object') return store;
+      return {
+        ...store,
+        difficulty: store.difficulty ?? DEFAULT_DIFFICULTY,
+        profiles: Array.isArray(store.profiles)
+          ? store.profiles.map((profile: any) => (profile && typeof profile === 'object' && !profile.difficulty)
+            ? { ...profile, difficulty: getDefaultDifficultyForAgeGroup(profile.ageGroup) }
+            : profile)
+          : store.profiles,
+      };
+    },
+  },
+  {
+    // Schema 5: scoring. Four hint clicks used to be the only trace of a shown solution.
+    version: 5,
+    migrate: (store) => {
+      if (!store || typeof store !== 'object' || !store.doors || typeof store.doors !== 'object') return store;
+      const doors: Record<string, unknown> = {};
+      Object.entries(store.doors).forEach(([profileId, calendar]: [string, any]) => {
+        if (!calendar || typeof calendar !== 'object') {
+          doors[profileId] = calendar;
+          return;
+        }
+        const migrated: Record<string, unknown> = {};
+        Object.keys(calendar).forEach((key) => {
+          const door = calendar[key];
+          migrated[key] = door && typeof door === 'object' && door.hintsUsed >= 4 && !door.isSolved
+            ? { ...door, isRevealed: true }
+            : door;
+        });
+        doors[profileId] = migrated;
+      });
+      return { ...store, doors };
+    },
+  },
+];
+
+export const runMigrations = (calendar: unknown, fromVersion: number): unknown => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new StorageVersionError(fromVersion);
+  }
+  return MIGRATIONS
+    .filter(m => m.version > fromVersion && m.version <= CURRENT_SCHEMA_VERSION)
+    .sort((a, b) => a.version - b.version)
+    .reduce((data, m) => m.migrate(data), calendar);
+};
+
+const quarantine = (entries: QuarantinedEntry[], key: string, reason: string, raw: unknown) => {
+  entries.push({ key, reason, raw, schemaVersion: CURRENT_SCHEMA_VERSION, quarantinedAt: new Date().toISOString() });
+};
+
+const isTimestamp = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const isValidRiddle = (riddle: any): riddle is Riddle =>
+  Boolean(riddle) && typeof riddle === 'object'
+  && typeof riddle.question === 'string' && riddle.question.trim().length > 0
+  && typeof riddle.correctAnswer === 'string' && riddle.correctAnswer.trim().length > 0;
+
+// Validates one calendar door by door; broken doors (or just their riddle) are set aside instead of failing the load
+export const validateCalendar = (calendar: unknown, keyPrefix = ''): { state: CalendarState; quarantined: QuarantinedEntry[] } => {
+  const state: CalendarState = {};
+  const quarantined: QuarantinedEntry[] = [];
+
+  if (!calendar || typeof calendar !== 'object' || Array.isArray(calendar)) {
+    quarantine(quarantined, `${keyPrefix}*`, 'Kalenderdaten sind kein Objekt.', calendar);
+    return { state, quarantined };
+  }
+
+  Object.entries(calendar as Record<string, any>).forEach(([dayKey, door]) => {
+    const key = `${keyPrefix}${dayKey}`;
+    const day = Number(dayKey);
+    if (!Number.isInteger(day) || day < 1 || day > 31) {
+      quarantine(quarantined, key, 'Ungültige Türnummer.', door);
+      return;
+    }
+    if (!door || typeof door !== 'object' || Array.isArray(door)) {
+      quarantine(quarantined, key, 'Türdaten sind kein Objekt.', door);
+      return;
+    }
+
+    const clean: DoorState = {
+      isOpen: door.isOpen === true,
+      isSolved: door.isSolved === true,
+      isLocked: door.isLocked === true,
+    };
+    if (Number.isInteger(door.hintsUsed) && door.hintsUsed > 0) {
+      clean.hintsUsed = Math.min(door.hintsUsed, 4);
+    }
+    if (Number.isInteger(door.attempts) && door.attempts > 0) {
+      clean.attempts = door.attempts;
+    }
+    if (door.isRevealed === true) {
+      clean.isRevealed = true;
+    }
+    if (typeof door.timeSpentMs === 'number' && Number.isFinite(door.timeSpentMs) && door.timeSpentMs >= 0) {
+      clean.timeSpentMs = door.timeSpentMs;
+    }
+    if (isTimestamp(door.solvedAt)) {
+      clean.solvedAt = door.solvedAt;
+    }
+    if (isTimestamp(door.riddleEditedAt)) {
+      clean.riddleEditedAt = door.riddleEditedAt;
+    }
+
+    const riddle = door.riddle;
+    if (riddle !== undefined && riddle !== null) {
+      if (!isValidRiddle(riddle)) {
+        // Keep the progress, the door simply gets a fresh riddle
+        quarantine(quarantined, `${key}.riddle`, 'Rätsel ohne Frage oder Antwort.', riddle);
+        clean.isLocked = false;
+      } else {
+        clean.riddle = sanitizeRiddle(riddle, day);
+      }
+    }
+
+    state[day] = clean;
+  });
+
+  return { state, quarantined };
+};
+
+const isValidProfile = (profile: any): profile is Profile =>
+  Boolean(profile) && typeof profile === 'object'
+  && typeof profile.id === 'string' && profile.id.length > 0
+  && typeof profile.name === 'string' && profile.name.trim().length > 0;
+
+// Validates the whole store: profiles, their doors and the shared riddle pool
+export const validateStore = (data: unknown): { store: CalendarStore; quarantined: QuarantinedEntry[] } => {
+  const store = createEmptyStore();
+  const quarantined: QuarantinedEntry[] = [];
+  const raw = data as any;
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    quarantine(quarantined, '*', 'Gespeicherte Daten sind kein Objekt.', data);
+    return { store, quarantined };
+  }
+
+  store.shareRiddles = raw.shareRiddles !== false;
+  store.difficulty = isDifficulty(raw.difficulty) ? raw.difficulty : DEFAULT_DIFFICULTY;
+  if (isTimestamp(raw.settingsUpdatedAt)) store.settingsUpdatedAt = raw.settingsUpdatedAt;
+  if (Array.isArray(raw.removedProfileIds)) {
+    store.removedProfileIds = raw.removedProfileIds.filter((id: unknown) => typeof id === 'string');
+  }
+
+  (Array.isArray(raw.profiles) ? raw.profiles : []).forEach((profile: any, idx: number) => {
+    if (!isValidProfile(profile)) {
+      quarantine(quarantined, `profiles.${idx}`, 'Profil ohne Id oder Name.', profile);
+      return;
+    }
+    const ageGroup = ['child', 'teen', 'adult'].includes(profile.ageGroup) ? profile.ageGroup : 'adult';
+    const clean: Profile = {
+      id: profile.id,
+      name: profile.name,
+      avatar: typeof profile.avatar === 'string' && profile.avatar ? profile.avatar : '🎄',
+      ageGroup,
+      difficulty: isDifficulty(profile.difficulty) ? profile.difficulty : getDefaultDifficultyForAgeGroup(ageGroup),
+    };
+    if (isTimestamp(profile.updatedAt)) clean.updatedAt = profile.updatedAt;
+    if (isTimestamp(profile.resetAt)) clean.resetAt = profile.resetAt;
+    if (isTimeOfDay(profile.notificationTime)) clean.notificationTime = profile.notificationTime;
+    store.profiles.push(clean);
+    const result = validateCalendar(raw.doors?.[profile.id] ?? {}, `${profile.name}.`);
+    store.doors[profile.id] = result.state;
+    quarantined.push(...result.quarantined);
+  });
+
+  Object.entries((raw.sharedRiddles && typeof raw.sharedRiddles === 'object') ? raw.sharedRiddles : {})
+    .forEach(([dayKey, slot]: [string, any]) => {
+      const day = Number(dayKey);
+      if (!Number.isInteger(day) || day < 1 || day > 31 || !slot || !isValidRiddle(slot.riddle)) {
+        quarantine(quarantined, `shared.${dayKey}`, 'Ungültiges gemeinsames Rätsel.', slot);
+        return;
+      }
+      store.sharedRiddles[day] = { riddle: sanitizeRiddle(slot.riddle, day), isLocked: slot.isLocked === true };
+      if (isTimestamp(slot.editedAt)) store.sharedRiddles[day].editedAt = slot.editedAt;
+    });
+
+  return { store, quarantined };
+};
+
+const readEnvelope = (): { version: number; calendar: unknown } | null => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    const envelope: StoredEnvelope = JSON.parse(stored);
+    return { version: Number(envelope.schemaVersion) || 1, calendar: envelope.calendar };
+  }
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy) {
+    return { version: 1, calendar: JSON.parse(legacy) };
+  }
+  return null;
+};
+
+export const getQuarantinedEntries = (): QuarantinedEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const storeQuarantine = (entries: QuarantinedEntry[]) => {
+  if (entries.length === 0) return;
+  console.warn(`${entries.length} stored calendar entries quarantined:`, entries.map(e => `${e.key}: ${e.reason}`));
+  try {
+    const all = [...getQuarantinedEntries(), ...entries].slice(-MAX_QUARANTINED_ENTRIES);
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.error("Failed to store quarantined entries", e);
+  }
+};
+
+export const loadCalendarStore = (): LoadResult => {
+  let envelope;
+  try {
+    envelope = readEnvelope();
+  } catch (e) {
+    // Unparseable JSON: keep the raw text for inspection and start fresh
+    const raw = localStorage.getItem(STORAGE_KEY) ?? localStorage.getItem(LEGACY_STORAGE_KEY);
+    const quarantined: QuarantinedEntry[] = [];
+    quarantine(quarantined, '*', `Gespeicherte Daten sind kein gültiges JSON: ${String(e)}`, raw);
+    storeQuarantine(quarantined);
+    return { store: createEmptyStore(), quarantined };
+  }
+
+  if (!envelope) {
+    return { store: createEmptyStore(), quarantined: [] };
+  }
+
+  const migrated = runMigrations(envelope.calendar, envelope.version);
+  const { store, quarantined } = validateStore(migrated);
+  storeQuarantine(quarantined);
+
+  const result: LoadResult = { store, quarantined };
+  if (envelope.version < CURRENT_SCHEMA_VERSION) {
+    result.migratedFrom = envelope.version;
+    saveCalendarStore(store);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  return result;
+};
+
+const stripImage = <T extends { riddle?: Riddle }>(entry: T): T => ({
+  ...entry,
+  riddle: entry.riddle ? { ...entry.riddle, imageUrl: undefined } : undefined,
+});
+
+// Copy of the store without image data; also what the sync service sends
+export const stripStoreImages = (store: CalendarStore): CalendarStore => {
+  const sharedRiddles: Record<number, RiddleSlot> = {};
+  Object.keys(store.sharedRiddles).forEach((key) => {
+    sharedRiddles[Number(key)] = stripImage(store.sharedRiddles[Number(key)]);
+  });
+
+  const doors: Record<string, CalendarState> = {};
+  Object.keys(store.doors).forEach((profileId) => {
+    const calendar: CalendarState = {};
+    Object.keys(store.doors[profileId]).forEach((key) => {
+      const door: DoorState | undefined = store.doors[profileId][Number(key)];
+      if (door) calendar[Number(key)] = stripImage(door);
+    });
+    doors[profileId] = calendar;
+  });
+  return { ...store, sharedRiddles, doors };
+};
+
+// We MUST strip the 'imageUrl' (Base64) because it's too large for localStorage (5MB limit).
+// Images live in the image store instead.
+export const saveCalendarStore = (store: CalendarStore) => {
+  const envelope: StoredEnvelope = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    calendar: stripStoreImages(store),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+};
+
+export const clearCalendarStore = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+export interface StoredPackSettings {
+  pack: RiddlePack | null;
+  usePack: boolean;
+}
+
+export const loadPackSettings = (): StoredPackSettings => {
+  try {
+    const stored = localStorage.getItem(PACK_STORAGE_KEY);
+    if (!stored) return { pack: null, usePack: false };
+    const parsed = JSON.parse(stored);
+    if (!parsed.pack) return { pack: null, usePack: false };
+    // A corrupted or outdated pack is not used at all
+    return { pack: parseStoredRiddlePack(parsed.pack), usePack: Boolean(parsed.usePack) };
+  } catch (e) {
+    console.error("Failed to parse riddle pack", e);
+    return { pack: null, usePack: false };
+  }
+};
+
+export const savePackSettings = ({ pack, usePack }: StoredPackSettings) => {
+  if (pack) {
+    localStorage.setItem(PACK_STORAGE_KEY, JSON.stringify({ pack, usePack }));
+  } else {
+    localStorage.removeItem(PACK_STORAGE_KEY);
+  }
+};
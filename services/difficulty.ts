@@ -0,0 +1,48 @@
+import { AgeGroup, Difficulty, RiddleType } from "../types";
+
+export type FuzzyTolerance = 'lenient' | 'normal' | 'strict';
+
+export interface DifficultySettings {
+  promptLevel: string; // Inserted into the generation prompt
+  allowedTypes: RiddleType[];
+  optionCount: number; // Choices offered for 'choice' riddles
+  fuzzyTolerance: FuzzyTolerance; // Typos accepted in free-text answers
+  hintStyle: string; // How the three hints should be worded
+}
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'medium';
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
+  easy: {
+    promptLevel: 'leicht, für Kinder von 6 bis 9 Jahren: kurze Sätze, einfache Wörter, Zahlen höchstens bis 20, keine Fangfragen',
+    allowedTypes: ['choice', 'order', 'number'],
+    optionCount: 3,
+    fuzzyTolerance: 'lenient',
+    hintStyle: 'Sprich das Kind direkt und ermutigend an, jeder Hinweis ist ein kurzer, konkreter Satz.',
+  },
+  medium: {
+    promptLevel: 'mittelschwer bis knifflig',
+    allowedTypes: ['choice', 'text', 'number', 'order', 'multi', 'match', 'grid'],
+    optionCount: 4,
+    fuzzyTolerance: 'normal',
+    hintStyle: 'Hinweis 1 ist ein vager Denkanstoß, Hinweis 2 etwas konkreter, Hinweis 3 fast schon die Lösung.',
+  },
+  hard: {
+    promptLevel: 'schwer, für geübte erwachsene Rätselfans: mehrstufige Schlussfolgerungen, gerne mit überraschender Wendung',
+    allowedTypes: ['text', 'choice', 'number', 'order', 'multi', 'match', 'grid'],
+    optionCount: 5,
+    fuzzyTolerance: 'strict',
+    hintStyle: 'Die Hinweise bleiben knapp und verraten wenig; erst Hinweis 3 zeigt den entscheidenden Schritt.',
+  },
+};
+
+export const DIFFICULTIES = Object.keys(DIFFICULTY_SETTINGS) as Difficulty[];
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  typeof value === 'string' && (DIFFICULTIES as string[]).includes(value);
+
+export const getDefaultDifficultyForAgeGroup = (ageGroup: AgeGroup): Difficulty => {
+  if (ageGroup === 'child') return 'easy';
+  if (ageGroup === 'teen') return 'medium';
+  return 'hard';
+};
@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+
+// Reduced motion and high contrast follow the system settings until they are switched in the app.
+// App puts the result on <html> as the classes "reduce-motion" and "high-contrast" (see index.css).
+// Stored per device like the language.
+
+export interface DisplaySettings {
+  reduceMotion: boolean | null; // null follows prefers-reduced-motion
+  highContrast: boolean | null; // null follows prefers-contrast: more
+}
+
+const DISPLAY_KEY = 'advent_calendar_display_v1';
+
+const isSetting = (value: unknown): value is boolean | null => value === null || typeof value === 'boolean';
+
+export const loadDisplaySettings = (): DisplaySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DISPLAY_KEY) || '{}');
+    return {
+      reduceMotion: isSetting(stored.reduceMotion) ? stored.reduceMotion : null,
+      highContrast: isSetting(stored.highContrast) ? stored.highContrast : null,
+    };
+  } catch (e) {
+    console.warn("Could not read the display settings:", e);
+    return { reduceMotion: null, highContrast: null };
+  }
+};
+
+export const saveDisplaySettings = (settings: DisplaySettings) => {
+  try {
+    localStorage.setItem(DISPLAY_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save the display settings", e);
+  }
+};
+
+// Whether a media query such as "(prefers-reduced-motion: reduce)" currently matches, updated live
+export const useMediaQuery = (query: string): boolean => {
+  const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
+
+  useEffect(() => {
+    const media = window.matchMedia(query);
+    const handleChange = () => setMatches(media.matches);
+    handleChange();
+    media.addEventListener('change', handleChange);
+    return () => media.removeEventListener('change', handleChange);
+  }, [query]);
+
+  return matches;
+};
@@ -0,0 +1,56 @@
+import { Riddle } from "../types";
+import { loadImage, saveImage } from "./imageStore";
+import {
+  SyncOfflineError, claimFamilyRiddle, fetchFamilyImage, fetchFamilyRiddle, isSyncAvailable, loadSyncSettings, uploadFamilyImage,
+} from "./syncService";
+
+// Shared family calendar: with a family code and shared riddles, a door's riddle is generated once
+// and stored on the calendar server, so every device shows the same riddle and image.
+// Offline the device generates its own; the next sync replaces it with the family's riddle if there is one.
+
+const getFamilyCode = (): string | null => (isSyncAvailable() ? loadSyncSettings()?.familyCode ?? null : null);
+
+export const getOrCreateFamilyRiddle = async (
+  familyCode: string,
+  day: number,
+  generate: () => Promise<Riddle>
+): Promise<Riddle> => {
+  try {
+    const existing = await fetchFamilyRiddle(familyCode, day);
+    if (existing) return existing;
+  } catch (e) {
+    if (!(e instanceof SyncOfflineError)) throw e;
+    console.warn(`Family riddle for door ${day} unavailable, generating locally:`, e);
+    return generate();
+  }
+
+  const riddle = await generate();
+  // A bundled replacement would hold the door for the whole family, so it stays on this device
+  if (riddle.isFallback) return riddle;
+  try {
+    return await claimFamilyRiddle(familyCode, riddle);
+  } catch (e) {
+    console.warn(`Could not share riddle for door ${day}, keeping the local one:`, e);
+    return riddle;
+  }
+};
+
+// Image store first; images painted on another device of the family are fetched once and kept locally
+export const loadRiddleImage = async (day: number, riddleId: string): Promise<string | undefined> => {
+  const stored = await loadImage(day, riddleId);
+  const familyCode = getFamilyCode();
+  if (stored || !familyCode) return stored;
+
+  const imageUrl = await fetchFamilyImage(familyCode, riddleId);
+  if (imageUrl) {
+    saveImage(day, riddleId, imageUrl).catch((e) => console.error("Image store save failed:", e));
+  }
+  return imageUrl;
+};
+
+// A repainted image replaces the family's copy, so the other devices pick it up too
+export const shareRiddleImage = async (riddleId: string, imageUrl: string): Promise<void> => {
+  const familyCode = getFamilyCode();
+  if (!familyCode) return;
+  await uploadFamilyImage(familyCode, riddleId, imageUrl);
+};
@@ -0,0 +1,161 @@
+import { RiddleProviderId } from "../types";
+import { getCategoryNameForDay } from "./riddlePrompt";
+import { createId } from "./riddleSanitizer";
+
+// Structured log of every model call: text and image generation, solver checks, editor revisions
+// and rejected riddles. In the browser it is kept in localStorage for the diagnostics page; the
+// Gemini proxy collects its calls per request and sends them along, so they end up there too.
+
+const LOG_KEY = 'advent_calendar_generation_log_v1';
+const MAX_LOGGED_CALLS = 300;
+const MAX_RAW_RESPONSE_CHARS = 2000;
+
+export type GenerationCallKind = 'text' | 'image' | 'solve' | 'revise' | 'judge' | 'validation';
+
+export interface GenerationCall {
+  id: string;
+  timestamp: string;
+  provider: RiddleProviderId;
+  kind: GenerationCallKind;
+  model: string;
+  day?: number;
+  category?: string; // Prompt category of the day
+  attempt?: number; // Retry of a model call, or validation attempt of a rejected riddle
+  latencyMs: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  ok: boolean;
+  error?: string;
+  rawResponse?: string; // Only kept for failures, shortened
+}
+
+export type CallMeta = Pick<GenerationCall, 'provider' | 'kind' | 'model' | 'day' | 'attempt'>;
+
+// Filled in by the call while it runs: usage from the response, the raw text in case parsing fails
+export interface CallDetails {
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  rawResponse?: string;
+}
+
+// USD list prices per million tokens and per image; models not listed (local ones) cost nothing
+const MODEL_PRICES: Record<string, { input: number; output: number; image?: number }> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 0, image: 0.039 },
+};
+
+export const getLoggedGenerationCalls = (): GenerationCall[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOG_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const clearGenerationLog = () => localStorage.removeItem(LOG_KEY);
+
+const persistLocally = (call: GenerationCall) => {
+  // The CLI runs without localStorage and installs its own sink
+  if (typeof localStorage === 'undefined') return;
+  try {
+    const logged = getLoggedGenerationCalls();
+    // Proxy answers served again from the offline cache bring their calls along a second time
+    if (logged.some(existing => existing.id === call.id)) return;
+    const log = [...logged, call].slice(-MAX_LOGGED_CALLS);
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error("Failed to persist generation log", e);
+  }
+};
+
+let sink: (call: GenerationCall) => void = persistLocally;
+
+// The server and the CLI collect calls themselves instead of writing to localStorage
+export const setGenerationLogSink = (next: (call: GenerationCall) => void) => {
+  sink = next;
+};
+
+export const logGenerationCall = (call: CallMeta & CallDetails & Pick<GenerationCall, 'latencyMs' | 'ok' | 'error'>) => {
+  const { rawResponse, ...rest } = call;
+  const entry: GenerationCall = {
+    ...rest,
+    id: createId(),
+    timestamp: new Date().toISOString(),
+    category: call.day !== undefined ? getCategoryNameForDay(call.day) : undefined,
+  };
+  if (!call.ok && rawResponse) entry.rawResponse = rawResponse.slice(0, MAX_RAW_RESPONSE_CHARS);
+  if (!call.ok) console.error(`Model call failed (${call.kind}, ${call.model}, day ${call.day ?? '-'}):`, call.error);
+  sink(entry);
+};
+
+// Calls that were logged somewhere else, e.g. by the Gemini proxy, keep their ids and times
+export const importGenerationCalls = (calls: unknown) => {
+  if (!Array.isArray(calls)) return;
+  calls
+    .filter((call): call is GenerationCall => Boolean(call) && typeof call.kind === 'string' && typeof call.latencyMs === 'number')
+    .forEach(call => sink(call));
+};
+
+// Times one model call and logs it, whether it succeeds or fails
+export const trackModelCall = async <T,>(meta: CallMeta, call: (details: CallDetails) => Promise<T>): Promise<T> => {
+  const details: CallDetails = {};
+  const startedAt = Date.now();
+  try {
+    const result = await call(details);
+    logGenerationCall({ ...meta, ...details, latencyMs: Date.now() - startedAt, ok: true });
+    return result;
+  } catch (e) {
+    logGenerationCall({
+      ...meta, ...details, latencyMs: Date.now() - startedAt, ok: false,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    throw e;
+  }
+};
+
+export const estimateCallCost = (call: GenerationCall): number => {
+  const price = MODEL_PRICES[call.model];
+  if (!price) return 0;
+  return ((call.inputTokens ?? 0) * price.input + (call.outputTokens ?? 0) * price.output) / 1_000_000
+    + (call.images ?? 0) * (price.image ?? 0);
+};
+
+export interface GenerationSummary {
+  day: number | null; // null for the total
+  calls: number;
+  failures: number;
+  rejections: number; // Riddles thrown away by the quality checks, each one means a retry
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  averageLatencyMs: number | null;
+  cost: number;
+}
+
+const summarize = (day: number | null, calls: GenerationCall[]): GenerationSummary => {
+  const modelCalls = calls.filter(call => call.kind !== 'validation');
+  return {
+    day,
+    calls: modelCalls.length,
+    failures: modelCalls.filter(call => !call.ok).length,
+    rejections: calls.filter(call => call.kind === 'validation').length,
+    inputTokens: modelCalls.reduce((sum, call) => sum + (call.inputTokens ?? 0), 0),
+    outputTokens: modelCalls.reduce((sum, call) => sum + (call.outputTokens ?? 0), 0),
+    images: modelCalls.reduce((sum, call) => sum + (call.images ?? 0), 0),
+    averageLatencyMs: modelCalls.length > 0
+      ? Math.round(modelCalls.reduce((sum, call) => sum + call.latencyMs, 0) / modelCalls.length)
+      : null,
+    cost: modelCalls.reduce((sum, call) => sum + estimateCallCost(call), 0),
+  };
+};
+
+// Cost and failures per door, followed by the total over all calls
+export const summarizeGenerationLog = (calls: GenerationCall[]): { days: GenerationSummary[]; total: GenerationSummary } => {
+  const days = Array.from(new Set(calls.map(call => call.day).filter((day): day is number => day !== undefined)))
+    .sort((a, b) => a - b)
+    .map(day => summarize(day, calls.filter(call => call.day === day)));
+  return { days, total: summarize(null, calls) };
+};
@@ -0,0 +1,54 @@
+import { createContext, useContext } from "react";
+import { Language } from "../types";
+import { MESSAGES, Messages } from "./i18nMessages";
+import { DEFAULT_LANGUAGE, getLocale, isLanguage } from "./languages";
+
+// Language of the app on this device: it picks the UI texts (services/i18nMessages.ts), the locale
+// for dates, and the language new riddles are generated in. Stored per device, not synced.
+
+const LANGUAGE_KEY = 'advent_calendar_language_v1';
+
+// A stored choice wins, otherwise the first browser language we have texts for
+export const loadLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    if (isLanguage(stored)) return stored;
+  } catch (e) {
+    console.warn("Could not read the language setting:", e);
+  }
+  const preferred = (navigator.languages ?? [navigator.language]).map(tag => tag.slice(0, 2).toLowerCase());
+  return preferred.find(isLanguage) ?? DEFAULT_LANGUAGE;
+};
+
+export const saveLanguage = (language: Language) => {
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch (e) {
+    console.error("Failed to save the language setting", e);
+  }
+};
+
+export interface I18n {
+  language: Language;
+  locale: string;
+  t: Messages;
+  formatDoorDate: (day: number) => string; // "1. Dezember", "1 December", "1 décembre"
+  formatDate: (date: Date, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+export const createI18n = (language: Language): I18n => {
+  const locale = getLocale(language);
+  return {
+    language,
+    locale,
+    t: MESSAGES[language],
+    // Doors are December days; UTC keeps the device's time zone from shifting the day
+    formatDoorDate: (day) => new Date(Date.UTC(2000, 11, day)).toLocaleDateString(locale, { day: 'numeric', month: 'long', timeZone: 'UTC' }),
+    formatDate: (date, options) => date.toLocaleDateString(locale, options),
+  };
+};
+
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LANGUAGE));
+
+// Components below the App read texts and formatters from here
+export const useI18n = (): I18n => useContext(I18nContext);
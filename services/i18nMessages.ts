@@ -0,0 +1,951 @@
+import type { AgeGroup, Difficulty, Language, RiddleType } from "../types";
+import type { GenerationCall } from "./generationLog";
+import type { GenerationFailureReason } from "./riddleFallback";
+import type { DoorStatus } from "./statistics";
+import type { SyncStatus } from "./syncService";
+import type { TimeSource } from "./trustedTime";
+
+// UI texts of the app, including the parent tools behind the PIN. German is the source catalog;
+// the others must provide every key (the Messages type enforces it).
+
+const de = {
+  app: {
+    title: 'Adventskalender',
+    subtitle: 'Öffne jeden Tag ein Türchen und löse das Rätsel!',
+    switchProfile: 'Profil wechseln',
+    statistics: 'Statistik',
+    language: 'Sprache',
+    reduceMotion: 'Weniger Bewegung',
+    highContrast: 'Hoher Kontrast',
+    footer: 'Weihnachts-Rätselspaß',
+    confirmDisconnectSync: 'Dieses Gerät nicht mehr synchronisieren? Der Fortschritt bleibt hier gespeichert.',
+    confirmResetProfile: (name: string) => `Fortschritt von ${name} wirklich zurücksetzen?`,
+    nothingToExport: 'Es gibt noch keine Rätsel zum Exportieren.',
+  },
+  debug: {
+    menu: 'Debug-Menü',
+    title: 'Debug Modus',
+    simulateDate: 'Simuliere ein Datum:',
+    anyDate: 'Beliebiges Datum, z. B. für den Jahreswechsel',
+    current: 'Aktuell:',
+    timeSource: 'Zeitquelle:',
+    backToRealTime: 'Zurück zur echten Zeit',
+    replayMode: 'Wiederholungsmodus: alle Türen offen',
+    shareRiddles: 'Gleiche Rätsel für alle Profile',
+    difficultyAll: 'Schwierigkeit (alle Profile)',
+    difficultyOf: (name: string) => `Schwierigkeit von ${name}`,
+    resetProgressOf: (name: string) => `Fortschritt von ${name} zurücksetzen`,
+    editor: 'Rätsel-Editor',
+    diagnostics: 'Diagnose',
+  },
+  timeSources: {
+    server: 'Kalender-Server',
+    host: 'Webserver',
+    device: 'Geräteuhr (nicht geprüft)',
+  } as Record<TimeSource, string>,
+  difficulties: {
+    easy: 'Leicht',
+    medium: 'Mittel',
+    hard: 'Schwer',
+  } as Record<Difficulty, string>,
+  errorBoundary: {
+    title: 'Ups, ein Fehler!',
+    text: 'Beim Anzeigen des Rätsels ist etwas schiefgelaufen. Keine Sorge, dein Fortschritt ist sicher.',
+    retry: 'Schließen & nochmal versuchen',
+  },
+  doors: {
+    points: (points: number) => `${points} Punkte`,
+    bonus: 'Bonus',
+    revealed: 'Aufgelöst',
+    gridLabel: 'Türchen',
+    keyboardHint: 'Mit den Pfeiltasten zwischen den Türchen wechseln, mit Enter öffnen.',
+    states: {
+      solved: 'gelöst',
+      open: 'geöffnet, noch nicht gelöst',
+      available: 'kann geöffnet werden',
+      locked: 'noch verschlossen',
+    },
+  },
+  riddle: {
+    loading: 'Der Wichtel malt das Rätsel...',
+    correct: 'Richtig!',
+    fallbackLabel: 'Ersatzrätsel: ',
+    fallbackDefault: 'Das eigentliche Rätsel konnte nicht erstellt werden.',
+    fallbackNote: 'Bis dahin gibt es ein Rätsel aus dem Vorrat.',
+    retryReal: 'Echtes Rätsel erneut versuchen',
+    imageAlt: (scene: string) => `Weihnachtliches Aquarell zum Rätsel: ${scene}`,
+    closeDialog: 'Schließen',
+    imagePlaceholder: 'Weihnachtsrätsel',
+    hintLabel: (n: number) => `Tipp ${n}:`,
+    solutionIs: 'Die Lösung ist:',
+    wrong: "Das stimmt leider noch nicht. Versuch's nochmal!",
+    close: 'Knapp daneben! Du bist ganz nah dran, prüf noch mal die Schreibweise.',
+    judging: 'Antwort wird geprüft …',
+    check: 'Antwort prüfen',
+    hintButton: (n: number) => `${n}. Hinweis`,
+    showSolution: 'Lösung anzeigen',
+    solutionShown: 'Lösung angezeigt',
+    offlineTitle: 'Du bist offline',
+    offlineText: 'Das Rätsel hinter dieser Tür wurde noch nicht geladen. Sobald wieder eine Internetverbindung besteht, wird es automatisch geholt.',
+    errorTitle: 'Das Rätsel konnte nicht erstellt werden',
+    errorDefault: 'Ein Fehler ist aufgetreten. Bitte versuche es später erneut.',
+    retry: 'Erneut versuchen',
+    failures: {
+      timeout: 'Das Sprachmodell hat zu lange für eine Antwort gebraucht.',
+      offline: 'Der Rätseldienst ist gerade nicht erreichbar. Prüfe die Internetverbindung.',
+      rateLimit: 'In kurzer Zeit wurden zu viele Rätsel angefordert. Bitte versuche es etwas später noch einmal.',
+      rejected: 'Die erzeugten Rätsel haben die Qualitätsprüfung nicht bestanden.',
+      model: 'Das Sprachmodell hat einen Fehler gemeldet.',
+      unknown: 'Beim Erstellen des Rätsels ist ein unerwarteter Fehler aufgetreten.',
+    } as Record<GenerationFailureReason, string>,
+  },
+  answer: {
+    label: 'Deine Antwort',
+    textPlaceholder: 'Deine Antwort...',
+    numberPlaceholder: 'Deine Zahl...',
+    pickAll: 'Wähle alle passenden Antworten aus.',
+    orderPrompt: 'Bring die Einträge in die richtige Reihenfolge.',
+    moveUp: 'Nach oben',
+    moveDown: 'Nach unten',
+    matchPrompt: 'Ordne jedem Eintrag das Passende zu.',
+    choose: 'Bitte wählen…',
+  },
+  grid: {
+    markClue: 'Als erledigt markieren',
+    yes: 'ja',
+    no: 'nein',
+    open: 'offen',
+    undo: 'Rückgängig',
+    clear: 'Alles leeren',
+    conflicts: 'Die rot markierten Felder widersprechen sich.',
+  },
+  pin: {
+    setupTitle: 'Eltern-PIN festlegen',
+    setupText: 'Die PIN schützt das Debug-Menü und den Rätsel-Editor vor neugierigen Kindern. Wähle 4 bis 8 Ziffern.',
+    enterText: 'Bitte gib die Eltern-PIN ein.',
+    placeholder: 'PIN',
+    confirmPlaceholder: 'PIN wiederholen',
+    invalidFormat: 'Die PIN muss aus 4 bis 8 Ziffern bestehen.',
+    mismatch: 'Die PINs stimmen nicht überein.',
+    wrong: 'Falsche PIN.',
+    cancel: 'Abbrechen',
+    save: 'Festlegen',
+    unlock: 'Entsperren',
+  },
+  common: {
+    close: 'Schließen',
+    noProfiles: 'Noch keine Profile angelegt.',
+  },
+  profiles: {
+    title: 'Wer rätselt heute?',
+    confirmDelete: (name: string) => `Profil "${name}" mit allem Fortschritt löschen?`,
+    delete: 'Profil löschen',
+    namePlaceholder: 'Name',
+    avatar: 'Avatar',
+    // In the order of PROFILE_AVATARS
+    avatars: ['Weihnachtsmann', 'Weihnachtsfrau', 'Rentier', 'Schneemann', 'Wichtel', 'Pinguin', 'Tannenbaum', 'Stern', 'Keks', 'Geschenk'],
+    ageGroup: 'Altersgruppe',
+    difficulty: 'Schwierigkeit',
+    difficultyOption: (label: string) => `Schwierigkeit: ${label}`,
+    start: "Los geht's!",
+    create: 'Neues Profil',
+    ageGroups: {
+      child: 'Kind (6–9)',
+      teen: 'Jugendlich (10–14)',
+      adult: 'Erwachsen',
+    } as Record<AgeGroup, string>,
+  },
+  missedDoor: {
+    missed: (day: number) => `Gestern ist Tür ${day} zu geblieben.`,
+    catchUp: 'Du kannst sie noch nachholen!',
+    openNow: 'Jetzt öffnen',
+    dismiss: 'Ausblenden',
+  },
+  notifications: {
+    title: 'Erinnerungen',
+    unsupported: 'Dieser Browser unterstützt keine Benachrichtigungen.',
+    blocked: 'Benachrichtigungen sind in den Browser-Einstellungen blockiert.',
+    explanation: 'Erinnert an die Tür des Tages, solange sie noch nicht geöffnet wurde.',
+    reminderTitle: (avatar: string, day: number) => `${avatar} Tür ${day} ist offen!`,
+    reminderBody: (name: string) => `${name}, heute wartet ein neues Rätsel im Adventskalender.`,
+  },
+  statistics: {
+    leaderboard: 'Bestenliste',
+    solvedCount: (count: number) => `${count} gelöst`,
+    score: (score: number) => `${score} P.`,
+    doorStatus: {
+      solved: 'Gelöst',
+      revealed: 'Aufgelöst',
+      open: 'Offen',
+      missed: 'Verpasst',
+      locked: 'Noch zu',
+    } as Record<DoorStatus, string>,
+    streak: 'Serie:',
+    longestStreak: 'Längste Serie:',
+    averageTime: 'Ø Lösungszeit:',
+    hintsByCategory: 'Hinweise nach Kategorie',
+    category: 'Kategorie',
+    doors: 'Türen',
+    averageHints: 'Ø Hinweise',
+    // In the order of RIDDLE_CATEGORIES
+    categories: ['Logik & Deduktion', 'Weihnachts-Mathematik', 'Mustererkennung & Reihenfolgen', 'Laterales Denken & Wortspiele'],
+    exportCsv: 'Als CSV exportieren',
+    csvHeaders: ['Profil', 'Tür', 'Kategorie', 'Status', 'Hinweise', 'Versuche', 'Zeit (s)', 'Punkte'],
+    csvFileName: (year: number) => `adventskalender-statistik-${year}.csv`,
+  },
+  sync: {
+    title: 'Geräte synchronisieren',
+    status: {
+      syncing: 'Synchronisiere…',
+      synced: 'Synchronisiert',
+      offline: 'Offline',
+      error: 'Sync-Fehler',
+    } as Record<Exclude<SyncStatus, 'off'>, string>,
+    syncNow: 'Jetzt synchronisieren',
+    unavailable: (setting: string) => `Dafür muss ${setting} auf den Kalender-Server zeigen.`,
+    familyCode: 'Familiencode:',
+    codeHint: 'Auf weiteren Geräten diesen Code eingeben.',
+    lastSynced: 'Zuletzt:',
+    disconnect: 'Trennen',
+    createCode: 'Neuen Familiencode erstellen',
+    join: 'Beitreten',
+  },
+  diagnostics: {
+    empty: 'Noch keine Modellaufrufe protokolliert.',
+    calls: 'Aufrufe',
+    failed: 'Fehlgeschlagen',
+    rejected: 'Verworfen',
+    estimatedCost: 'Kosten (geschätzt)',
+    perDoor: 'Pro Tür',
+    door: 'Tür',
+    errors: 'Fehler',
+    averageDuration: 'Ø Dauer',
+    tokens: 'Tokens',
+    images: 'Bilder',
+    cost: 'Kosten',
+    total: 'Gesamt',
+    costNote: 'Kosten nach Listenpreis der Gemini-Modelle; lokale Modelle kosten nichts.',
+    recentFailures: 'Letzte Fehler',
+    noFailures: 'Keine Fehler protokolliert.',
+    doorOf: (day: number) => `Tür ${day}`,
+    attempt: (attempt: number) => `Versuch ${attempt}`,
+    category: 'Kategorie:',
+    clear: 'Protokoll leeren',
+    kinds: {
+      text: 'Rätsel',
+      image: 'Bild',
+      solve: 'Lösungsprüfung',
+      revise: 'Überarbeitung',
+      judge: 'Antwortbewertung',
+      validation: 'Verworfen',
+    } as Record<GenerationCall['kind'], string>,
+  },
+  riddleTypes: {
+    text: 'Freitext',
+    choice: 'Multiple Choice',
+    number: 'Zahl',
+    order: 'Reihenfolge',
+    multi: 'Mehrfachauswahl',
+    match: 'Zuordnung',
+    grid: 'Logikgitter',
+  } as Record<RiddleType, string>,
+  editor: {
+    title: (date: string) => `Rätsel-Editor · ${date}`,
+    reviseTitle: 'Nur dieses Feld neu erzeugen',
+    revise: 'Neu erzeugen',
+    gridLabel: 'Logikgitter (JSON)',
+    gridHelp: 'Hinweise: "same", "different", "before" oder "nextTo" mit Namen/Werten in "a" und "b"; die beiden letzten brauchen eine Eigenschaft mit "ordered": true in "attribute".',
+    gridInvalid: 'Jede Eigenschaft braucht genau einen Wert pro Eintrag, und alle Namen müssen verschieden sein.',
+    gridUnique: 'Die Hinweise ergeben genau eine Lösung.',
+    reviseFailed: (error: string) => `Feld konnte nicht neu erzeugt werden: ${error}`,
+    regenerateFailed: (error: string) => `Rätsel konnte nicht neu erzeugt werden: ${error}`,
+    noImageReturned: 'Es kam kein Bild zurück.',
+    imageFailed: (error: string) => `Bild konnte nicht neu gemalt werden: ${error}`,
+    imageAlt: 'Rätsel Bild',
+    noImage: 'Kein Bild',
+    redrawImage: 'Bild neu malen',
+    question: 'Frage',
+    type: 'Typ',
+    difficulty: 'Schwierigkeit',
+    noDifficulty: 'Nicht festgelegt',
+    orderItems: 'Elemente in richtiger Reihenfolge (eines pro Zeile)',
+    options: 'Antwortmöglichkeiten (eine pro Zeile)',
+    shuffledNote: 'Im Rätsel werden sie gemischt angezeigt.',
+    correctAnswers: 'Richtige Antworten (eine pro Zeile)',
+    pairsLeft: 'Links (einer pro Zeile)',
+    pairsRight: 'Passend rechts (gleiche Zeile)',
+    correctNumber: 'Richtige Zahl',
+    correctAnswer: 'Richtige Antwort',
+    tolerance: 'Toleranz (±)',
+    unit: 'Einheit',
+    unitPlaceholder: 'z. B. kg',
+    acceptedAnswers: 'Weitere akzeptierte Antworten (eine pro Zeile)',
+    hints: 'Hinweise',
+    hintPlaceholder: (n: number) => `Tipp ${n}`,
+    solution: 'Lösungsweg',
+    lock: 'Rätsel sperren (wird nie neu erzeugt oder ersetzt)',
+    regenerateAll: 'Ganzes Rätsel neu erzeugen',
+    preview: 'Vorschau',
+    saved: 'Gespeichert ✓',
+    save: 'Speichern',
+  },
+  pack: {
+    title: 'Rätselpaket',
+    riddleCount: (count: number) => `${count} Rätsel`,
+    usePack: 'Rätsel aus dem Paket verwenden',
+    remove: 'Paket entfernen',
+    none: 'Kein Paket geladen.',
+    import: 'Paket importieren',
+    defaultTitle: 'Unser Adventskalender',
+    titlePlaceholder: 'Titel',
+    authorPlaceholder: 'Autor (optional)',
+    export: 'Kalender exportieren',
+  },
+  batch: {
+    title: 'Vorab erzeugen',
+    progress: (completed: number, total: number) => `${completed}/${total} fertig`,
+    days: (days: string) => `Tag ${days}`,
+    cancel: 'Abbrechen',
+    allPresent: 'Alle Rätsel sind vorhanden',
+    generateMissing: (count: number) => `${count} fehlende Rätsel erzeugen`,
+    failed: (days: string) => `Fehlgeschlagen: Tag ${days}`,
+    failure: (day: number, error: string) => `Tag ${day}: ${error}`,
+  },
+  images: {
+    title: 'Bilderspeicher',
+    confirmClear: 'Alle gespeicherten Bilder löschen? Die Rätsel bleiben erhalten.',
+    usage: (count: number, used: string, max: string) => `${count} Bilder · ${used} von max. ${max}`,
+    browserUsage: (used: string, quota: string) => `Browser-Speicher: ${used} von ${quota}`,
+    evictionNote: 'Bei Platzmangel werden die am längsten nicht angesehenen Bilder gelöscht.',
+    clear: 'Bilder löschen',
+    loading: 'Lade...',
+  },
+};
+
+export type Messages = typeof de;
+
+const en: Messages = {
+  app: {
+    title: 'Advent Calendar',
+    subtitle: 'Open a door every day and solve the riddle!',
+    switchProfile: 'Switch profile',
+    statistics: 'Statistics',
+    language: 'Language',
+    reduceMotion: 'Less motion',
+    highContrast: 'High contrast',
+    footer: 'Christmas Riddle Fun',
+    confirmDisconnectSync: 'Stop syncing this device? The progress stays saved here.',
+    confirmResetProfile: (name) => `Really reset the progress of ${name}?`,
+    nothingToExport: 'There are no riddles to export yet.',
+  },
+  debug: {
+    menu: 'Debug menu',
+    title: 'Debug mode',
+    simulateDate: 'Simulate a date:',
+    anyDate: 'Any date, e.g. for the turn of the year',
+    current: 'Current:',
+    timeSource: 'Time source:',
+    backToRealTime: 'Back to the real time',
+    replayMode: 'Replay mode: all doors open',
+    shareRiddles: 'Same riddles for all profiles',
+    difficultyAll: 'Difficulty (all profiles)',
+    difficultyOf: (name) => `Difficulty of ${name}`,
+    resetProgressOf: (name) => `Reset the progress of ${name}`,
+    editor: 'Riddle editor',
+    diagnostics: 'Diagnostics',
+  },
+  timeSources: {
+    server: 'Calendar server',
+    host: 'Web server',
+    device: 'Device clock (not verified)',
+  },
+  difficulties: {
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Hard',
+  },
+  errorBoundary: {
+    title: 'Oops, something broke!',
+    text: 'Something went wrong while showing the riddle. Don\'t worry, your progress is safe.',
+    retry: 'Close & try again',
+  },
+  doors: {
+    points: (points) => `${points} points`,
+    bonus: 'Bonus',
+    revealed: 'Revealed',
+    gridLabel: 'Doors',
+    keyboardHint: 'Use the arrow keys to move between doors and Enter to open one.',
+    states: {
+      solved: 'solved',
+      open: 'opened, not solved yet',
+      available: 'ready to open',
+      locked: 'still locked',
+    },
+  },
+  riddle: {
+    loading: 'The elf is painting the riddle...',
+    correct: 'Correct!',
+    fallbackLabel: 'Replacement riddle: ',
+    fallbackDefault: 'The actual riddle could not be created.',
+    fallbackNote: 'Until then, here is a riddle from the stock.',
+    retryReal: 'Try the real riddle again',
+    imageAlt: (scene) => `Christmas watercolour for the riddle: ${scene}`,
+    closeDialog: 'Close',
+    imagePlaceholder: 'Christmas riddle',
+    hintLabel: (n) => `Hint ${n}:`,
+    solutionIs: 'The solution is:',
+    wrong: 'That is not quite right yet. Try again!',
+    close: 'So close! You are nearly there, check the spelling once more.',
+    judging: 'Checking your answer …',
+    check: 'Check answer',
+    hintButton: (n) => `Hint ${n}`,
+    showSolution: 'Show solution',
+    solutionShown: 'Solution shown',
+    offlineTitle: 'You are offline',
+    offlineText: 'The riddle behind this door has not been loaded yet. It will be fetched automatically as soon as there is an internet connection again.',
+    errorTitle: 'The riddle could not be created',
+    errorDefault: 'An error occurred. Please try again later.',
+    retry: 'Try again',
+    failures: {
+      timeout: 'The language model took too long to answer.',
+      offline: 'The riddle service cannot be reached right now. Check the internet connection.',
+      rateLimit: 'Too many riddles were requested in a short time. Please try again a bit later.',
+      rejected: 'The generated riddles did not pass the quality checks.',
+      model: 'The language model reported an error.',
+      unknown: 'An unexpected error occurred while creating the riddle.',
+    },
+  },
+  answer: {
+    label: 'Your answer',
+    textPlaceholder: 'Your answer...',
+    numberPlaceholder: 'Your number...',
+    pickAll: 'Select all matching answers.',
+    orderPrompt: 'Put the items in the right order.',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    matchPrompt: 'Match each item with its partner.',
+    choose: 'Please choose…',
+  },
+  grid: {
+    markClue: 'Mark as done',
+    yes: 'yes',
+    no: 'no',
+    open: 'open',
+    undo: 'Undo',
+    clear: 'Clear all',
+    conflicts: 'The fields marked in red contradict each other.',
+  },
+  pin: {
+    setupTitle: 'Set a parent PIN',
+    setupText: 'The PIN keeps curious children out of the debug menu and the riddle editor. Choose 4 to 8 digits.',
+    enterText: 'Please enter the parent PIN.',
+    placeholder: 'PIN',
+    confirmPlaceholder: 'Repeat PIN',
+    invalidFormat: 'The PIN must have 4 to 8 digits.',
+    mismatch: 'The PINs do not match.',
+    wrong: 'Wrong PIN.',
+    cancel: 'Cancel',
+    save: 'Set PIN',
+    unlock: 'Unlock',
+  },
+  common: {
+    close: 'Close',
+    noProfiles: 'No profiles yet.',
+  },
+  profiles: {
+    title: 'Who is puzzling today?',
+    confirmDelete: (name) => `Delete the profile "${name}" with all its progress?`,
+    delete: 'Delete profile',
+    namePlaceholder: 'Name',
+    avatar: 'Avatar',
+    avatars: ['Santa Claus', 'Mrs. Claus', 'Reindeer', 'Snowman', 'Elf', 'Penguin', 'Christmas tree', 'Star', 'Cookie', 'Present'],
+    ageGroup: 'Age group',
+    difficulty: 'Difficulty',
+    difficultyOption: (label) => `Difficulty: ${label}`,
+    start: "Let's go!",
+    create: 'New profile',
+    ageGroups: {
+      child: 'Child (6–9)',
+      teen: 'Teen (10–14)',
+      adult: 'Adult',
+    },
+  },
+  missedDoor: {
+    missed: (day) => `Door ${day} stayed closed yesterday.`,
+    catchUp: 'You can still catch up!',
+    openNow: 'Open now',
+    dismiss: 'Dismiss',
+  },
+  notifications: {
+    title: 'Reminders',
+    unsupported: 'This browser does not support notifications.',
+    blocked: 'Notifications are blocked in the browser settings.',
+    explanation: 'Reminds of the door of the day as long as it has not been opened.',
+    reminderTitle: (avatar, day) => `${avatar} Door ${day} is open!`,
+    reminderBody: (name) => `${name}, a new riddle is waiting in the Advent calendar today.`,
+  },
+  statistics: {
+    leaderboard: 'Leaderboard',
+    solvedCount: (count) => `${count} solved`,
+    score: (score) => `${score} pts`,
+    doorStatus: {
+      solved: 'Solved',
+      revealed: 'Revealed',
+      open: 'Open',
+      missed: 'Missed',
+      locked: 'Not yet',
+    },
+    streak: 'Streak:',
+    longestStreak: 'Longest streak:',
+    averageTime: 'Ø solving time:',
+    hintsByCategory: 'Hints by category',
+    category: 'Category',
+    doors: 'Doors',
+    averageHints: 'Ø hints',
+    categories: ['Logic & deduction', 'Christmas maths', 'Patterns & sequences', 'Lateral thinking & wordplay'],
+    exportCsv: 'Export as CSV',
+    csvHeaders: ['Profile', 'Door', 'Category', 'Status', 'Hints', 'Attempts', 'Time (s)', 'Points'],
+    csvFileName: (year) => `advent-calendar-statistics-${year}.csv`,
+  },
+  sync: {
+    title: 'Sync devices',
+    status: {
+      syncing: 'Syncing…',
+      synced: 'Synced',
+      offline: 'Offline',
+      error: 'Sync error',
+    },
+    syncNow: 'Sync now',
+    unavailable: (setting) => `This needs ${setting} to point to the calendar server.`,
+    familyCode: 'Family code:',
+    codeHint: 'Enter this code on your other devices.',
+    lastSynced: 'Last:',
+    disconnect: 'Disconnect',
+    createCode: 'Create a new family code',
+    join: 'Join',
+  },
+  diagnostics: {
+    empty: 'No model calls logged yet.',
+    calls: 'Calls',
+    failed: 'Failed',
+    rejected: 'Rejected',
+    estimatedCost: 'Cost (estimated)',
+    perDoor: 'Per door',
+    door: 'Door',
+    errors: 'Errors',
+    averageDuration: 'Ø duration',
+    tokens: 'Tokens',
+    images: 'Images',
+    cost: 'Cost',
+    total: 'Total',
+    costNote: 'Cost at the list price of the Gemini models; local models cost nothing.',
+    recentFailures: 'Recent errors',
+    noFailures: 'No errors logged.',
+    doorOf: (day) => `Door ${day}`,
+    attempt: (attempt) => `Attempt ${attempt}`,
+    category: 'Category:',
+    clear: 'Clear log',
+    kinds: {
+      text: 'Riddle',
+      image: 'Image',
+      solve: 'Solver check',
+      revise: 'Revision',
+      judge: 'Answer judging',
+      validation: 'Rejected',
+    },
+  },
+  riddleTypes: {
+    text: 'Free text',
+    choice: 'Multiple choice',
+    number: 'Number',
+    order: 'Order',
+    multi: 'Multiple select',
+    match: 'Matching',
+    grid: 'Logic grid',
+  },
+  editor: {
+    title: (date) => `Riddle editor · ${date}`,
+    reviseTitle: 'Regenerate only this field',
+    revise: 'Regenerate',
+    gridLabel: 'Logic grid (JSON)',
+    gridHelp: 'Clues: "same", "different", "before" or "nextTo" with names/values in "a" and "b"; the last two need a property with "ordered": true in "attribute".',
+    gridInvalid: 'Every property needs exactly one value per entry, and all names must be different.',
+    gridUnique: 'The clues lead to exactly one solution.',
+    reviseFailed: (error) => `Could not regenerate the field: ${error}`,
+    regenerateFailed: (error) => `Could not regenerate the riddle: ${error}`,
+    noImageReturned: 'No image came back.',
+    imageFailed: (error) => `Could not repaint the image: ${error}`,
+    imageAlt: 'Riddle image',
+    noImage: 'No image',
+    redrawImage: 'Repaint image',
+    question: 'Question',
+    type: 'Type',
+    difficulty: 'Difficulty',
+    noDifficulty: 'Not set',
+    orderItems: 'Items in the right order (one per line)',
+    options: 'Answer options (one per line)',
+    shuffledNote: 'The riddle shows them shuffled.',
+    correctAnswers: 'Correct answers (one per line)',
+    pairsLeft: 'Left (one per line)',
+    pairsRight: 'Matching right (same line)',
+    correctNumber: 'Correct number',
+    correctAnswer: 'Correct answer',
+    tolerance: 'Tolerance (±)',
+    unit: 'Unit',
+    unitPlaceholder: 'e.g. kg',
+    acceptedAnswers: 'Other accepted answers (one per line)',
+    hints: 'Hints',
+    hintPlaceholder: (n) => `Hint ${n}`,
+    solution: 'Solution',
+    lock: 'Lock riddle (never regenerated or replaced)',
+    regenerateAll: 'Regenerate the whole riddle',
+    preview: 'Preview',
+    saved: 'Saved ✓',
+    save: 'Save',
+  },
+  pack: {
+    title: 'Riddle pack',
+    riddleCount: (count) => `${count} riddles`,
+    usePack: 'Use the riddles from the pack',
+    remove: 'Remove pack',
+    none: 'No pack loaded.',
+    import: 'Import pack',
+    defaultTitle: 'Our Advent calendar',
+    titlePlaceholder: 'Title',
+    authorPlaceholder: 'Author (optional)',
+    export: 'Export calendar',
+  },
+  batch: {
+    title: 'Generate ahead',
+    progress: (completed, total) => `${completed}/${total} done`,
+    days: (days) => `Day ${days}`,
+    cancel: 'Cancel',
+    allPresent: 'All riddles are there',
+    generateMissing: (count) => `Generate ${count} missing riddles`,
+    failed: (days) => `Failed: day ${days}`,
+    failure: (day, error) => `Day ${day}: ${error}`,
+  },
+  images: {
+    title: 'Image storage',
+    confirmClear: 'Delete all stored images? The riddles are kept.',
+    usage: (count, used, max) => `${count} images · ${used} of max. ${max}`,
+    browserUsage: (used, quota) => `Browser storage: ${used} of ${quota}`,
+    evictionNote: 'When space runs out, the images not viewed for the longest time are deleted.',
+    clear: 'Delete images',
+    loading: 'Loading...',
+  },
+};
+
+const fr: Messages = {
+  app: {
+    title: 'Calendrier de l\'Avent',
+    subtitle: 'Ouvre une porte chaque jour et résous l\'énigme !',
+    switchProfile: 'Changer de profil',
+    statistics: 'Statistiques',
+    language: 'Langue',
+    reduceMotion: 'Moins d\'animations',
+    highContrast: 'Contraste élevé',
+    footer: 'Énigmes de Noël',
+    confirmDisconnectSync: 'Ne plus synchroniser cet appareil ? La progression reste enregistrée ici.',
+    confirmResetProfile: (name) => `Vraiment réinitialiser la progression de ${name} ?`,
+    nothingToExport: 'Il n\'y a pas encore d\'énigmes à exporter.',
+  },
+  debug: {
+    menu: 'Menu de débogage',
+    title: 'Mode débogage',
+    simulateDate: 'Simuler une date :',
+    anyDate: 'N\'importe quelle date, p. ex. pour le Nouvel An',
+    current: 'Actuellement :',
+    timeSource: 'Source de l\'heure :',
+    backToRealTime: 'Revenir à l\'heure réelle',
+    replayMode: 'Mode rejeu : toutes les portes sont ouvertes',
+    shareRiddles: 'Mêmes énigmes pour tous les profils',
+    difficultyAll: 'Difficulté (tous les profils)',
+    difficultyOf: (name) => `Difficulté de ${name}`,
+    resetProgressOf: (name) => `Réinitialiser la progression de ${name}`,
+    editor: 'Éditeur d\'énigmes',
+    diagnostics: 'Diagnostic',
+  },
+  timeSources: {
+    server: 'Serveur du calendrier',
+    host: 'Serveur web',
+    device: 'Horloge de l\'appareil (non vérifiée)',
+  },
+  difficulties: {
+    easy: 'Facile',
+    medium: 'Moyen',
+    hard: 'Difficile',
+  },
+  errorBoundary: {
+    title: 'Oups, une erreur !',
+    text: 'Un problème est survenu lors de l\'affichage de l\'énigme. Pas d\'inquiétude, ta progression est sauvegardée.',
+    retry: 'Fermer et réessayer',
+  },
+  doors: {
+    points: (points) => `${points} points`,
+    bonus: 'Bonus',
+    revealed: 'Révélée',
+    gridLabel: 'Portes',
+    keyboardHint: 'Utilise les flèches pour passer d\'une porte à l\'autre et Entrée pour l\'ouvrir.',
+    states: {
+      solved: 'résolue',
+      open: 'ouverte, pas encore résolue',
+      available: 'peut être ouverte',
+      locked: 'encore fermée',
+    },
+  },
+  riddle: {
+    loading: 'Le lutin dessine l\'énigme...',
+    correct: 'Bravo !',
+    fallbackLabel: 'Énigme de secours : ',
+    fallbackDefault: 'La vraie énigme n\'a pas pu être créée.',
+    fallbackNote: 'En attendant, voici une énigme de la réserve.',
+    retryReal: 'Réessayer la vraie énigme',
+    imageAlt: (scene) => `Aquarelle de Noël pour l'énigme : ${scene}`,
+    closeDialog: 'Fermer',
+    imagePlaceholder: 'Énigme de Noël',
+    hintLabel: (n) => `Indice ${n} :`,
+    solutionIs: 'La solution est :',
+    wrong: 'Ce n\'est pas encore ça. Essaie encore !',
+    close: 'Presque ! Tu y es presque, vérifie encore l\'orthographe.',
+    judging: 'Vérification de la réponse …',
+    check: 'Vérifier la réponse',
+    hintButton: (n) => `${n}${n === 1 ? 'er' : 'e'} indice`,
+    showSolution: 'Afficher la solution',
+    solutionShown: 'Solution affichée',
+    offlineTitle: 'Tu es hors ligne',
+    offlineText: 'L\'énigme derrière cette porte n\'a pas encore été chargée. Elle sera récupérée automatiquement dès que la connexion Internet sera rétablie.',
+    errorTitle: 'L\'énigme n\'a pas pu être créée',
+    errorDefault: 'Une erreur s\'est produite. Réessaie plus tard.',
+    retry: 'Réessayer',
+    failures: {
+      timeout: 'Le modèle de langage a mis trop de temps à répondre.',
+      offline: 'Le service d\'énigmes est injoignable pour le moment. Vérifie la connexion Internet.',
+      rateLimit: 'Trop d\'énigmes ont été demandées en peu de temps. Réessaie un peu plus tard.',
+      rejected: 'Les énigmes générées n\'ont pas passé le contrôle de qualité.',
+      model: 'Le modèle de langage a signalé une erreur.',
+      unknown: 'Une erreur inattendue s\'est produite lors de la création de l\'énigme.',
+    },
+  },
+  answer: {
+    label: 'Ta réponse',
+    textPlaceholder: 'Ta réponse...',
+    numberPlaceholder: 'Ton nombre...',
+    pickAll: 'Sélectionne toutes les bonnes réponses.',
+    orderPrompt: 'Remets les éléments dans le bon ordre.',
+    moveUp: 'Monter',
+    moveDown: 'Descendre',
+    matchPrompt: 'Associe chaque élément à son partenaire.',
+    choose: 'Choisis…',
+  },
+  grid: {
+    markClue: 'Marquer comme fait',
+    yes: 'oui',
+    no: 'non',
+    open: 'ouvert',
+    undo: 'Annuler',
+    clear: 'Tout effacer',
+    conflicts: 'Les cases en rouge se contredisent.',
+  },
+  pin: {
+    setupTitle: 'Choisir un code parental',
+    setupText: 'Le code protège le menu de débogage et l\'éditeur d\'énigmes des enfants curieux. Choisis 4 à 8 chiffres.',
+    enterText: 'Saisis le code parental.',
+    placeholder: 'Code',
+    confirmPlaceholder: 'Répéter le code',
+    invalidFormat: 'Le code doit comporter 4 à 8 chiffres.',
+    mismatch: 'Les codes ne correspondent pas.',
+    wrong: 'Code incorrect.',
+    cancel: 'Annuler',
+    save: 'Valider',
+    unlock: 'Déverrouiller',
+  },
+  common: {
+    close: 'Fermer',
+    noProfiles: 'Aucun profil pour l\'instant.',
+  },
+  profiles: {
+    title: 'Qui joue aujourd\'hui ?',
+    confirmDelete: (name) => `Supprimer le profil « ${name} » avec toute sa progression ?`,
+    delete: 'Supprimer le profil',
+    namePlaceholder: 'Nom',
+    avatar: 'Avatar',
+    avatars: ['Père Noël', 'Mère Noël', 'Renne', 'Bonhomme de neige', 'Lutin', 'Pingouin', 'Sapin', 'Étoile', 'Biscuit', 'Cadeau'],
+    ageGroup: 'Tranche d\'âge',
+    difficulty: 'Difficulté',
+    difficultyOption: (label) => `Difficulté : ${label}`,
+    start: 'C\'est parti !',
+    create: 'Nouveau profil',
+    ageGroups: {
+      child: 'Enfant (6–9)',
+      teen: 'Ado (10–14)',
+      adult: 'Adulte',
+    },
+  },
+  missedDoor: {
+    missed: (day) => `Hier, la porte ${day} est restée fermée.`,
+    catchUp: 'Tu peux encore la rattraper !',
+    openNow: 'Ouvrir maintenant',
+    dismiss: 'Masquer',
+  },
+  notifications: {
+    title: 'Rappels',
+    unsupported: 'Ce navigateur ne prend pas en charge les notifications.',
+    blocked: 'Les notifications sont bloquées dans les réglages du navigateur.',
+    explanation: 'Rappelle la porte du jour tant qu\'elle n\'a pas été ouverte.',
+    reminderTitle: (avatar, day) => `${avatar} La porte ${day} est ouverte !`,
+    reminderBody: (name) => `${name}, une nouvelle énigme t\'attend aujourd\'hui dans le calendrier de l\'Avent.`,
+  },
+  statistics: {
+    leaderboard: 'Classement',
+    solvedCount: (count) => `${count} résolues`,
+    score: (score) => `${score} pts`,
+    doorStatus: {
+      solved: 'Résolue',
+      revealed: 'Dévoilée',
+      open: 'Ouverte',
+      missed: 'Manquée',
+      locked: 'Pas encore',
+    },
+    streak: 'Série :',
+    longestStreak: 'Plus longue série :',
+    averageTime: 'Temps moyen :',
+    hintsByCategory: 'Indices par catégorie',
+    category: 'Catégorie',
+    doors: 'Portes',
+    averageHints: 'Ø indices',
+    categories: ['Logique & déduction', 'Maths de Noël', 'Motifs & suites', 'Pensée latérale & jeux de mots'],
+    exportCsv: 'Exporter en CSV',
+    csvHeaders: ['Profil', 'Porte', 'Catégorie', 'Statut', 'Indices', 'Essais', 'Temps (s)', 'Points'],
+    csvFileName: (year) => `calendrier-avent-statistiques-${year}.csv`,
+  },
+  sync: {
+    title: 'Synchroniser les appareils',
+    status: {
+      syncing: 'Synchronisation…',
+      synced: 'Synchronisé',
+      offline: 'Hors ligne',
+      error: 'Erreur de synchronisation',
+    },
+    syncNow: 'Synchroniser maintenant',
+    unavailable: (setting) => `Il faut pour cela que ${setting} pointe vers le serveur du calendrier.`,
+    familyCode: 'Code famille :',
+    codeHint: 'Saisis ce code sur les autres appareils.',
+    lastSynced: 'Dernière fois :',
+    disconnect: 'Déconnecter',
+    createCode: 'Créer un nouveau code famille',
+    join: 'Rejoindre',
+  },
+  diagnostics: {
+    empty: 'Aucun appel de modèle enregistré pour l\'instant.',
+    calls: 'Appels',
+    failed: 'Échoués',
+    rejected: 'Rejetés',
+    estimatedCost: 'Coût (estimé)',
+    perDoor: 'Par porte',
+    door: 'Porte',
+    errors: 'Erreurs',
+    averageDuration: 'Ø durée',
+    tokens: 'Tokens',
+    images: 'Images',
+    cost: 'Coût',
+    total: 'Total',
+    costNote: 'Coût au prix catalogue des modèles Gemini ; les modèles locaux ne coûtent rien.',
+    recentFailures: 'Dernières erreurs',
+    noFailures: 'Aucune erreur enregistrée.',
+    doorOf: (day) => `Porte ${day}`,
+    attempt: (attempt) => `Essai ${attempt}`,
+    category: 'Catégorie :',
+    clear: 'Vider le journal',
+    kinds: {
+      text: 'Énigme',
+      image: 'Image',
+      solve: 'Vérification',
+      revise: 'Révision',
+      judge: 'Évaluation de réponse',
+      validation: 'Rejetée',
+    },
+  },
+  riddleTypes: {
+    text: 'Texte libre',
+    choice: 'Choix multiple',
+    number: 'Nombre',
+    order: 'Ordre',
+    multi: 'Sélection multiple',
+    match: 'Association',
+    grid: 'Grille logique',
+  },
+  editor: {
+    title: (date) => `Éditeur d\'énigmes · ${date}`,
+    reviseTitle: 'Régénérer seulement ce champ',
+    revise: 'Régénérer',
+    gridLabel: 'Grille logique (JSON)',
+    gridHelp: 'Indices : "same", "different", "before" ou "nextTo" avec des noms/valeurs dans "a" et "b" ; les deux derniers demandent une propriété avec "ordered": true dans "attribute".',
+    gridInvalid: 'Chaque propriété demande exactement une valeur par entrée, et tous les noms doivent être différents.',
+    gridUnique: 'Les indices mènent à une seule solution.',
+    reviseFailed: (error) => `Impossible de régénérer le champ : ${error}`,
+    regenerateFailed: (error) => `Impossible de régénérer l\'énigme : ${error}`,
+    noImageReturned: 'Aucune image n\'a été renvoyée.',
+    imageFailed: (error) => `Impossible de repeindre l\'image : ${error}`,
+    imageAlt: 'Image de l\'énigme',
+    noImage: 'Pas d\'image',
+    redrawImage: 'Repeindre l\'image',
+    question: 'Question',
+    type: 'Type',
+    difficulty: 'Difficulté',
+    noDifficulty: 'Non définie',
+    orderItems: 'Éléments dans le bon ordre (un par ligne)',
+    options: 'Choix de réponse (un par ligne)',
+    shuffledNote: 'L\'énigme les affiche mélangés.',
+    correctAnswers: 'Bonnes réponses (une par ligne)',
+    pairsLeft: 'À gauche (un par ligne)',
+    pairsRight: 'À droite correspondant (même ligne)',
+    correctNumber: 'Bon nombre',
+    correctAnswer: 'Bonne réponse',
+    tolerance: 'Tolérance (±)',
+    unit: 'Unité',
+    unitPlaceholder: 'p. ex. kg',
+    acceptedAnswers: 'Autres réponses acceptées (une par ligne)',
+    hints: 'Indices',
+    hintPlaceholder: (n) => `Indice ${n}`,
+    solution: 'Solution',
+    lock: 'Verrouiller l\'énigme (jamais régénérée ni remplacée)',
+    regenerateAll: 'Régénérer toute l\'énigme',
+    preview: 'Aperçu',
+    saved: 'Enregistré ✓',
+    save: 'Enregistrer',
+  },
+  pack: {
+    title: 'Pack d\'énigmes',
+    riddleCount: (count) => `${count} énigmes`,
+    usePack: 'Utiliser les énigmes du pack',
+    remove: 'Retirer le pack',
+    none: 'Aucun pack chargé.',
+    import: 'Importer un pack',
+    defaultTitle: 'Notre calendrier de l\'Avent',
+    titlePlaceholder: 'Titre',
+    authorPlaceholder: 'Auteur (facultatif)',
+    export: 'Exporter le calendrier',
+  },
+  batch: {
+    title: 'Générer à l\'avance',
+    progress: (completed, total) => `${completed}/${total} terminées`,
+    days: (days) => `Jour ${days}`,
+    cancel: 'Annuler',
+    allPresent: 'Toutes les énigmes sont là',
+    generateMissing: (count) => `Générer ${count} énigmes manquantes`,
+    failed: (days) => `Échec : jour ${days}`,
+    failure: (day, error) => `Jour ${day} : ${error}`,
+  },
+  images: {
+    title: 'Stockage des images',
+    confirmClear: 'Supprimer toutes les images enregistrées ? Les énigmes sont conservées.',
+    usage: (count, used, max) => `${count} images · ${used} sur ${max} max.`,
+    browserUsage: (used, quota) => `Stockage du navigateur : ${used} sur ${quota}`,
+    evictionNote: 'Quand la place manque, les images vues le moins récemment sont supprimées.',
+    clear: 'Supprimer les images',
+    loading: 'Chargement...',
+  },
+};
+
+export const MESSAGES: Record<Language, Messages> = { de, en, fr };
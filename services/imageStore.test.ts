@@ -0,0 +1,44 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { CalendarStore } from "../types";
+import { clearImages, loadImage, removeUnusedImages, saveImage } from "./imageStore";
+import { addProfile, createEmptyStore, createProfile, getAllRiddles, setShareRiddles, updateDoor } from "./profiles";
+import { getOfflineRiddle } from "./riddleFallback";
+
+const anna = createProfile('Anna', '🦌', 'child');
+const ben = createProfile('Ben', '⛄', 'teen');
+
+const riddleIds = (store: CalendarStore) => getAllRiddles(store).map(riddle => riddle.id!);
+
+beforeEach(async () => {
+  await clearImages();
+});
+
+describe('image store with riddles per profile', () => {
+  const twoProfiles = setShareRiddles(addProfile(addProfile(createEmptyStore(), anna), ben), false);
+  const store = updateDoor(
+    updateDoor(twoProfiles, anna.id, 5, { riddle: { ...getOfflineRiddle(5), id: 'anna-5' } }),
+    ben.id, 5, { riddle: { ...getOfflineRiddle(5), id: 'ben-5' } }
+  );
+
+  it('keeps both profiles\' images for the same door', async () => {
+    await saveImage(5, 'anna-5', 'data:image/png;base64,anna');
+    await saveImage(5, 'ben-5', 'data:image/png;base64,ben');
+    await removeUnusedImages(riddleIds(store));
+
+    expect(await loadImage(5, 'anna-5')).toBe('data:image/png;base64,anna');
+    expect(await loadImage(5, 'ben-5')).toBe('data:image/png;base64,ben');
+  });
+
+  it('drops the image of a replaced riddle only', async () => {
+    await saveImage(5, 'anna-5', 'data:image/png;base64,anna');
+    await saveImage(5, 'ben-5', 'data:image/png;base64,ben');
+    const replaced = updateDoor(store, anna.id, 5, { riddle: { ...getOfflineRiddle(5), id: 'anna-5b' } });
+    await saveImage(5, 'anna-5b', 'data:image/png;base64,anna-new');
+    await removeUnusedImages(riddleIds(replaced));
+
+    expect(await loadImage(5, 'anna-5')).toBeUndefined();
+    expect(await loadImage(5, 'anna-5b')).toBe('data:image/png;base64,anna-new');
+    expect(await loadImage(5, 'ben-5')).toBe('data:image/png;base64,ben');
+  });
+});
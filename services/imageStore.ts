@@ -0,0 +1,131 @@
+// Generated images are too large for localStorage (5 MB limit), so they live in IndexedDB,
+// keyed by day and riddle id so a replaced riddle never shows a stale painting.
+const DB_NAME = 'advent_calendar_images';
+const DB_VERSION = 1;
+const STORE_NAME = 'images';
+
+// Least recently viewed images are evicted above this size
+export const MAX_IMAGE_STORE_BYTES = 40 * 1024 * 1024;
+
+interface StoredImage {
+  key: string;
+  day: number;
+  riddleId: string;
+  dataUrl: string;
+  size: number;
+  lastAccessed: number;
+}
+
+export interface ImageStoreUsage {
+  imageCount: number;
+  imageBytes: number;
+  usage?: number; // Whole origin, from navigator.storage.estimate()
+  quota?: number;
+}
+
+const imageKey = (day: number, riddleId: string) => `${day}:${riddleId}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB ist nicht verfügbar."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('day', 'day');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const getAllImages = async (): Promise<StoredImage[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll() as IDBRequest<StoredImage[]>);
+};
+
+// Drops least recently viewed images until the store fits MAX_IMAGE_STORE_BYTES again
+const evictIfNeeded = async (keepKey: string) => {
+  const images = await getAllImages();
+  let total = images.reduce((sum, img) => sum + img.size, 0);
+  if (total <= MAX_IMAGE_STORE_BYTES) return;
+
+  const db = await openDb();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  for (const img of images.sort((a, b) => a.lastAccessed - b.lastAccessed)) {
+    if (total <= MAX_IMAGE_STORE_BYTES) break;
+    if (img.key === keepKey) continue;
+    store.delete(img.key);
+    total -= img.size;
+  }
+};
+
+export const saveImage = async (day: number, riddleId: string, dataUrl: string): Promise<void> => {
+  const db = await openDb();
+  const key = imageKey(day, riddleId);
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  store.put({ key, day, riddleId, dataUrl, size: dataUrl.length, lastAccessed: Date.now() } satisfies StoredImage);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+  await evictIfNeeded(key);
+};
+
+// Images of riddles the calendar no longer has can never be shown again. The same door can hold other
+// riddles for other profiles, so only the riddle id decides; keys are read without the image data.
+export const removeUnusedImages = async (riddleIds: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  const used = new Set(riddleIds);
+  const keys = await requestToPromise(store.getAllKeys());
+  keys.map(String).filter(key => !used.has(key.slice(key.indexOf(':') + 1))).forEach(key => store.delete(key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const loadImage = async (day: number, riddleId: string): Promise<string | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const image = await requestToPromise(store.get(imageKey(day, riddleId)) as IDBRequest<StoredImage | undefined>);
+  if (!image) return undefined;
+
+  store.put({ ...image, lastAccessed: Date.now() });
+  return image.dataUrl;
+};
+
+export const clearImages = async (): Promise<void> => {
+  const db = await openDb();
+  await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+};
+
+export const getImageStoreUsage = async (): Promise<ImageStoreUsage> => {
+  const images = await getAllImages();
+  const estimate = await navigator.storage?.estimate?.();
+  return {
+    imageCount: images.length,
+    imageBytes: images.reduce((sum, img) => sum + img.size, 0),
+    usage: estimate?.usage,
+    quota: estimate?.quota,
+  };
+};
@@ -0,0 +1,31 @@
+import { Language } from "../types";
+
+// The languages the app and the riddles come in; kept free of React so the server and the CLI can use it
+
+export const LANGUAGES: Language[] = ['de', 'en', 'fr'];
+export const DEFAULT_LANGUAGE: Language = 'de';
+
+// Each language in its own name, for the picker
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  de: 'Deutsch',
+  en: 'English',
+  fr: 'Français',
+};
+
+// Inserted into the (German) generation prompt
+export const PROMPT_LANGUAGE_NAMES: Record<Language, string> = {
+  de: 'Deutsch',
+  en: 'Englisch',
+  fr: 'Französisch',
+};
+
+const LOCALES: Record<Language, string> = {
+  de: 'de-DE',
+  en: 'en-GB',
+  fr: 'fr-FR',
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && (LANGUAGES as string[]).includes(value);
+
+export const getLocale = (language: Language): string => LOCALES[language];
@@ -0,0 +1,90 @@
+import { Riddle, RiddleEditableField, RiddleProvider, RiddleRequestOptions } from "../types";
+import { buildFieldRevisionPrompt, buildJudgePrompt, buildRiddleJsonInstructions, buildRiddlePrompt, buildSolverPrompt } from "./riddlePrompt";
+import { applyFieldRevision, parseRiddleJson, sanitizeNewRiddle, sanitizeString } from "./riddleSanitizer";
+import { CallMeta, trackModelCall } from "./generationLog";
+import { HttpStatusError, RetryOptions, isRetryableError, parseCount, retryWithBackoff, withModelFallback } from "./resilience";
+
+// Talks to any OpenAI-compatible chat endpoint, e.g. llama.cpp server or Ollama
+const baseUrl = (process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+const model = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+const apiKey = process.env.LOCAL_LLM_API_KEY || '';
+// Tried once the main model has used up its retries, e.g. a smaller model that answers faster
+const models = [model, process.env.LOCAL_LLM_FALLBACK_MODEL].filter((name): name is string => Boolean(name));
+
+// Local models can be slow on the first call while they load, hence the generous default
+const retryOptions: RetryOptions = {
+  timeoutMs: Number(process.env.LOCAL_LLM_TIMEOUT_MS) || 120_000,
+  retries: parseCount(process.env.LOCAL_LLM_RETRIES, 1),
+  baseDelayMs: 1000,
+};
+
+// One attempt with one model, logged on its own
+const requestJsonOnce = (name: string, prompt: string, signal: AbortSignal, meta: Pick<CallMeta, 'kind' | 'day' | 'attempt'>): Promise<any> =>
+  trackModelCall({ ...meta, provider: 'local', model: name }, async (details) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: name,
+        messages: [
+          { role: 'user', content: prompt },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.9,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new HttpStatusError(response.status, `Lokales Modell antwortete mit Status ${response.status}`);
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content || "";
+    details.inputTokens = body?.usage?.prompt_tokens;
+    details.outputTokens = body?.usage?.completion_tokens;
+    details.rawResponse = content;
+    return parseRiddleJson(content);
+  });
+
+// Sends a single user prompt and returns the parsed JSON object from the reply, with retries and the fallback model.
+// The caller's signal (e.g. a cancelled batch) stops the request in flight and any further attempts.
+const requestJson = (prompt: string, meta: Pick<CallMeta, 'kind' | 'day'>, signal?: AbortSignal): Promise<any> =>
+  withModelFallback(models, name => {
+    signal?.throwIfAborted();
+    const options: RetryOptions = { ...retryOptions, shouldRetry: e => !signal?.aborted && isRetryableError(e) };
+    return retryWithBackoff(`Lokales Modell (${name})`, options, (attemptSignal, attempt) =>
+      requestJsonOnce(name, prompt, signal ? AbortSignal.any([attemptSignal, signal]) : attemptSignal, { ...meta, attempt }));
+  });
+
+// Failures are reported by the generation log
+export const generateRiddleWithLocalModel = async (day: number, options: RiddleRequestOptions = {}): Promise<Riddle> => {
+  const data = await requestJson(
+    buildRiddlePrompt(day, options.difficulty, options.language) + buildRiddleJsonInstructions(options.difficulty),
+    { kind: 'text', day },
+    options.signal
+  );
+
+  // Local models do not paint, the modal falls back to its placeholder
+  return sanitizeNewRiddle({ ...data, difficulty: options.difficulty, language: options.language }, day);
+};
+
+export const reviseRiddleFieldWithLocalModel = async (riddle: Riddle, field: RiddleEditableField): Promise<Riddle> =>
+  applyFieldRevision(riddle, field, await requestJson(buildFieldRevisionPrompt(riddle, field), { kind: 'revise', day: riddle.day }));
+
+export const solveRiddleWithLocalModel = async (riddle: Riddle): Promise<string> =>
+  sanitizeString((await requestJson(buildSolverPrompt(riddle), { kind: 'solve', day: riddle.day })).answer);
+
+export const judgeAnswerWithLocalModel = async (riddle: Riddle, answer: string): Promise<boolean> =>
+  (await requestJson(buildJudgePrompt(riddle, answer), { kind: 'judge', day: riddle.day })).correct === true;
+
+export const localModelRiddleProvider: RiddleProvider = {
+  id: 'local',
+  generateRiddle: generateRiddleWithLocalModel,
+  reviseField: reviseRiddleFieldWithLocalModel,
+  solveRiddle: solveRiddleWithLocalModel,
+  judgeAnswer: judgeAnswerWithLocalModel,
+};
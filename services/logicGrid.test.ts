@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+import { findLogicGridProblems, parseLogicGrid, withGridSolution } from "./logicGrid";
+import { findRiddleProblems, sanitizeNewRiddle, sanitizeRiddle } from "./riddleSanitizer";
+
+const rawGrid = (clues: unknown[]) => ({
+  entityLabel: 'Kind',
+  entities: ['Anna', 'Ben', 'Clara'],
+  attributes: [
+    { name: 'Geschenk', values: ['Mütze', 'Buch', 'Schlitten'] },
+    { name: 'Platz', values: ['links', 'Mitte', 'rechts'], ordered: true },
+  ],
+  clues,
+});
+
+const solvingClues = [
+  { text: 'Ben bekommt den Schlitten.', kind: 'same', a: 'Ben', b: 'Schlitten' },
+  { text: 'Anna bekommt nicht das Buch.', kind: 'different', a: 'Anna', b: 'Buch' },
+  { text: 'Clara sitzt links.', kind: 'same', a: 'Clara', b: 'links' },
+  { text: 'Anna sitzt vor Ben.', kind: 'before', a: 'Anna', b: 'Ben', attribute: 'Platz' },
+];
+
+describe('parseLogicGrid', () => {
+  it('keeps usable clues without reporting anything', () => {
+    const { grid, problems } = parseLogicGrid(rawGrid(solvingClues));
+    expect(problems).toEqual([]);
+    expect(grid?.clues).toHaveLength(4);
+    expect(findLogicGridProblems(grid ?? undefined)).toEqual([]);
+  });
+
+  it('keeps a stored solution only if it fits the grid', () => {
+    const solution = [['Mütze', 'Mitte'], ['Schlitten', 'rechts'], ['Buch', 'links']];
+    expect(parseLogicGrid({ ...rawGrid(solvingClues), solution }).grid?.solution).toEqual(solution);
+    expect(parseLogicGrid({ ...rawGrid(solvingClues), solution: solution.slice(1) }).grid?.solution).toBeUndefined();
+    expect(parseLogicGrid({ ...rawGrid(solvingClues), solution: [['Mütze', 'Mitte'], ['Mütze', 'rechts'], ['Buch', 'links']] })
+      .grid?.solution).toBeUndefined();
+    expect(parseLogicGrid({ ...rawGrid(solvingClues), solution: [['Kekse', 'Mitte'], ['Schlitten', 'rechts'], ['Buch', 'links']] })
+      .grid?.solution).toBeUndefined();
+  });
+
+  it('reports dropped clues instead of logging them', () => {
+    const warn = vi.spyOn(console, 'warn');
+    const { grid, problems } = parseLogicGrid(rawGrid([
+      ...solvingClues,
+      { text: 'David mag Kekse.', kind: 'same', a: 'David', b: 'Kekse' },
+      { text: 'Die Mütze liegt neben dem Buch.', kind: 'nextTo', a: 'Mütze', b: 'Buch', attribute: 'Geschenk' },
+      { text: 'Die Mütze ist das Buch.', kind: 'same', a: 'Mütze', b: 'Buch' },
+      { text: 'Anna ist nett.', kind: 'likes', a: 'Anna', b: 'Ben' },
+    ]));
+
+    expect(grid?.clues).toHaveLength(4);
+    expect(problems).toEqual([
+      'Hinweis 5 ("David mag Kekse.") ist unvollständig oder nennt Unbekanntes und wurde entfernt.',
+      'Hinweis 6 ("Die Mütze liegt neben dem Buch.") braucht eine Eigenschaft mit "ordered": true und wurde entfernt.',
+      'Hinweis 7 ("Die Mütze ist das Buch.") verlangt Unmögliches und wurde entfernt.',
+      'Hinweis 8 ("Anna ist nett.") ist unvollständig oder nennt Unbekanntes und wurde entfernt.',
+    ]);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('gives no grid for unusable input', () => {
+    expect(parseLogicGrid(null).grid).toBeNull();
+    expect(parseLogicGrid({ ...rawGrid([]), entities: ['Anna'] }).grid).toBeNull();
+    expect(parseLogicGrid({ ...rawGrid([]), entities: ['Anna', 'Ben', 'Mütze'] }).grid).toBeNull();
+  });
+});
+
+describe('findRiddleProblems for logic grids', () => {
+  const riddle = (clues: unknown[]) => ({
+    day: 4,
+    type: 'grid',
+    question: 'Wer bekommt was?',
+    correctAnswer: 'siehe Gitter',
+    solutionExplanation: 'Schritt für Schritt.',
+    hints: ['a', 'b', 'c'],
+    grid: rawGrid(clues),
+  });
+
+  it('lists dropped clues and the resulting ambiguity', () => {
+    const problems = findRiddleProblems(riddle([...solvingClues.slice(0, 3), { text: 'Kaputt', kind: 'same', a: 'Anna' }]), 'Tag 4');
+    expect(problems).toEqual([
+      'Tag 4: Hinweis 4 ("Kaputt") ist unvollständig oder nennt Unbekanntes und wurde entfernt.',
+      'Tag 4: Die Hinweise des Logikgitters lassen mehrere Lösungen zu.',
+    ]);
+  });
+
+  it('accepts a grid with exactly one solution', () => {
+    expect(findRiddleProblems(riddle(solvingClues), 'Tag 4')).toEqual([]);
+  });
+});
+
+describe('withGridSolution', () => {
+  it('solves a grid with exactly one solution', () => {
+    const grid = withGridSolution(parseLogicGrid(rawGrid(solvingClues)).grid!);
+    expect(grid.solution).toEqual([['Mütze', 'Mitte'], ['Schlitten', 'rechts'], ['Buch', 'links']]);
+  });
+
+  it('leaves an ambiguous grid without a solution', () => {
+    const grid = parseLogicGrid({ ...rawGrid(solvingClues.slice(0, 3)), solution: [['Mütze', 'Mitte'], ['Schlitten', 'rechts'], ['Buch', 'links']] }).grid!;
+    expect(withGridSolution(grid).solution).toBeUndefined();
+  });
+});
+
+describe('sanitizing logic grid riddles', () => {
+  const raw = {
+    type: 'grid',
+    question: 'Wer bekommt was?',
+    correctAnswer: 'siehe Gitter',
+    solutionExplanation: 'Schritt für Schritt.',
+    hints: ['a', 'b', 'c'],
+    grid: rawGrid(solvingClues),
+  };
+
+  it('solves new riddles and keeps the solution when they are loaded again', () => {
+    const riddle = sanitizeNewRiddle(raw, 4);
+    expect(riddle.grid?.solution).toHaveLength(3);
+    expect(riddle.correctAnswer).toBe('Anna: Mütze, Mitte; Ben: Schlitten, rechts; Clara: Buch, links');
+    expect(sanitizeRiddle(JSON.parse(JSON.stringify(riddle)), 4)).toEqual(riddle);
+  });
+
+  it('does not run the solver for stored riddles', () => {
+    expect(sanitizeRiddle(raw, 4).grid?.solution).toBeUndefined();
+  });
+});
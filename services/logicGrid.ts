@@ -0,0 +1,184 @@
+import { LogicClue, LogicClueKind, LogicGrid, LogicGridAttribute } from "../types";
+
+// Logic grids ("Logikgitter"): entities such as children, attributes such as presents or seats,
+// and clues that pin down which entity has which value. The solver tries every assignment and
+// counts the ones that satisfy all clues; a usable grid has exactly one.
+
+export const LOGIC_CLUE_KINDS: LogicClueKind[] = ['same', 'different', 'before', 'nextTo'];
+export const MAX_GRID_ENTITIES = 5;
+export const MAX_GRID_ATTRIBUTES = 3;
+
+const cleanText = (value: unknown): string =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+
+const key = (label: string) => label.trim().toLowerCase();
+
+// Where a label lives: attribute -1 is the entity itself
+interface LabelPosition {
+  attribute: number;
+  index: number;
+}
+
+const indexLabels = (grid: LogicGrid): Map<string, LabelPosition> => {
+  const labels = new Map<string, LabelPosition>();
+  grid.entities.forEach((entity, index) => labels.set(key(entity), { attribute: -1, index }));
+  grid.attributes.forEach((attribute, attributeIdx) =>
+    attribute.values.forEach((value, index) => labels.set(key(value), { attribute: attributeIdx, index }))
+  );
+  return labels;
+};
+
+export interface ParsedLogicGrid {
+  grid: LogicGrid | null; // null if no usable grid is left
+  problems: string[]; // One per dropped clue
+}
+
+// A stored solution names one value of every attribute per entity, and each value once
+const isSolutionShaped = (solution: unknown, grid: LogicGrid): solution is string[][] =>
+  Array.isArray(solution) && solution.length === grid.entities.length
+  && solution.every(row => Array.isArray(row) && row.length === grid.attributes.length
+    && row.every((value, idx) => grid.attributes[idx].values.includes(value)))
+  && grid.attributes.every((_, idx) => new Set(solution.map(row => row[idx])).size === grid.entities.length);
+
+// Brings model output into shape: grids with 2 to 5 entities, up to 3 attributes with one value
+// per entity, and labels that are unique across the whole grid. Clues that refer to unknown labels
+// are dropped and reported in `problems`. The solver does not run here, stored riddles are sanitized on
+// every load and sync: a solution is only kept if it fits the grid, withGridSolution computes it.
+export const parseLogicGrid = (raw: any): ParsedLogicGrid => {
+  const problems: string[] = [];
+  if (!raw || typeof raw !== 'object') return { grid: null, problems };
+  const entities: string[] = Array.isArray(raw.entities) ? raw.entities.map(cleanText).filter(Boolean) : [];
+  if (entities.length < 2 || entities.length > MAX_GRID_ENTITIES) return { grid: null, problems };
+
+  const attributes: LogicGridAttribute[] = (Array.isArray(raw.attributes) ? raw.attributes : [])
+    .map((attribute: any) => ({
+      name: cleanText(attribute?.name),
+      values: Array.isArray(attribute?.values) ? attribute.values.map(cleanText).filter(Boolean) : [],
+      ...(attribute?.ordered === true ? { ordered: true } : {}),
+    }))
+    .filter((attribute: LogicGridAttribute) => attribute.name && attribute.values.length === entities.length);
+  if (attributes.length === 0 || attributes.length > MAX_GRID_ATTRIBUTES) return { grid: null, problems };
+
+  const allLabels = [...entities, ...attributes.flatMap(attribute => attribute.values)].map(key);
+  if (new Set(allLabels).size !== allLabels.length) return { grid: null, problems };
+
+  const grid: LogicGrid = { entityLabel: cleanText(raw.entityLabel) || 'Person', entities, attributes, clues: [] };
+  const labels = indexLabels(grid);
+  const findLabel = (label: string) => [...entities, ...attributes.flatMap(attribute => attribute.values)]
+    .find(known => key(known) === key(label));
+
+  (Array.isArray(raw.clues) ? raw.clues : []).forEach((clue: any, idx: number) => {
+    const text = cleanText(clue?.text);
+    const name = `Hinweis ${idx + 1}${text ? ` ("${text}")` : ''}`;
+    const a = findLabel(cleanText(clue?.a));
+    const b = findLabel(cleanText(clue?.b));
+    if (!text || !a || !b || !LOGIC_CLUE_KINDS.includes(clue.kind)) {
+      problems.push(`${name} ist unvollständig oder nennt Unbekanntes und wurde entfernt.`);
+      return;
+    }
+    const sanitized: LogicClue = { text, kind: clue.kind, a, b };
+    if (clue.kind === 'before' || clue.kind === 'nextTo') {
+      const ordered = attributes.find(attribute => attribute.ordered && key(attribute.name) === key(cleanText(clue.attribute)));
+      if (!ordered) {
+        problems.push(`${name} braucht eine Eigenschaft mit "ordered": true und wurde entfernt.`);
+        return;
+      }
+      sanitized.attribute = ordered.name;
+    }
+    if (labels.get(key(a))?.attribute === labels.get(key(b))?.attribute && clue.kind === 'same') {
+      problems.push(`${name} verlangt Unmögliches und wurde entfernt.`);
+      return;
+    }
+    grid.clues.push(sanitized);
+  });
+
+  if (isSolutionShaped(raw.solution, grid)) grid.solution = raw.solution;
+  return { grid, problems };
+};
+
+export const sanitizeLogicGrid = (raw: any): LogicGrid | null => parseLogicGrid(raw).grid;
+
+// Solves the grid once, when a riddle is generated, edited or imported; without exactly one solution it has none
+export const withGridSolution = (grid: LogicGrid): LogicGrid => {
+  const { solution, ...withoutSolution } = grid;
+  const solutions = solveLogicGrid(withoutSolution);
+  return solutions.length === 1 ? { ...withoutSolution, solution: solutions[0] } : withoutSolution;
+};
+
+// Finds up to `limit` solutions, each as the value of every attribute per entity. Attributes are
+// assigned one at a time and a clue is checked as soon as everything it mentions is assigned.
+export const solveLogicGrid = (grid: LogicGrid, limit = 2): string[][][] => {
+  const labels = indexLabels(grid);
+  const entityCount = grid.entities.length;
+  const attributeCount = grid.attributes.length;
+  // owners[attribute][value index] = entity holding that value
+  const owners: number[][] = [];
+  const solutions: string[][][] = [];
+
+  const clues = grid.clues.flatMap(clue => {
+    const a = labels.get(key(clue.a));
+    const b = labels.get(key(clue.b));
+    const order = clue.attribute === undefined ? -1 : grid.attributes.findIndex(attribute => attribute.name === clue.attribute);
+    if (!a || !b || (clue.attribute !== undefined && order === -1)) return [];
+    return [{ kind: clue.kind, a, b, order, readyAt: Math.max(a.attribute, b.attribute, order) }];
+  });
+
+  const ownerOf = (position: LabelPosition) =>
+    position.attribute === -1 ? position.index : owners[position.attribute][position.index];
+  const positionOf = (entity: number, attribute: number) => owners[attribute].indexOf(entity);
+
+  const holds = (clue: typeof clues[number]): boolean => {
+    const a = ownerOf(clue.a);
+    const b = ownerOf(clue.b);
+    switch (clue.kind) {
+      case 'same': return a === b;
+      case 'different': return a !== b;
+      case 'before': return positionOf(a, clue.order) < positionOf(b, clue.order);
+      case 'nextTo': return Math.abs(positionOf(a, clue.order) - positionOf(b, clue.order)) === 1;
+    }
+  };
+
+  const permutations = (items: number[]): number[][] => items.length <= 1
+    ? [items]
+    : items.flatMap((item, idx) => permutations([...items.slice(0, idx), ...items.slice(idx + 1)]).map(rest => [item, ...rest]));
+  const allOwners = permutations(Array.from({ length: entityCount }, (_, idx) => idx));
+
+  const assign = (attribute: number) => {
+    if (solutions.length >= limit) return;
+    if (attribute === attributeCount) {
+      solutions.push(grid.entities.map((_, entity) =>
+        grid.attributes.map((attr, attrIdx) => attr.values[owners[attrIdx].indexOf(entity)])
+      ));
+      return;
+    }
+    for (const candidate of allOwners) {
+      owners[attribute] = candidate;
+      if (clues.every(clue => clue.readyAt !== attribute || holds(clue))) assign(attribute + 1);
+      if (solutions.length >= limit) return;
+    }
+  };
+  // Clues between entities alone (readyAt -1) do not depend on any assignment
+  if (clues.every(clue => clue.readyAt !== -1 || holds(clue))) assign(0);
+  return solutions;
+};
+
+// Empty if the grid works as a riddle
+export const findLogicGridProblems = (grid: LogicGrid | undefined): string[] => {
+  if (!grid) return ['Das Logikgitter fehlt oder ist unvollständig.'];
+  const solutions = solveLogicGrid(grid);
+  if (solutions.length === 0) return ['Die Hinweise des Logikgitters widersprechen sich, es gibt keine Lösung.'];
+  if (solutions.length > 1) return ['Die Hinweise des Logikgitters lassen mehrere Lösungen zu.'];
+  return [];
+};
+
+// For grids read back from storage, which were solved when they came in: only the stored solution is needed
+export const findStoredLogicGridProblems = (grid: LogicGrid | undefined): string[] => {
+  if (!grid) return ['Das Logikgitter fehlt oder ist unvollständig.'];
+  return grid.solution ? [] : ['Das Logikgitter hat keine gespeicherte Lösung.'];
+};
+
+// The player's answer and the solution both list each entity's values, entity by entity
+export const flattenGridSolution = (solution: string[][]): string[] => solution.flat();
+
+export const describeGridSolution = (grid: LogicGrid): string =>
+  (grid.solution ?? []).map((values, idx) => `${grid.entities[idx]}: ${values.join(', ')}`).join('; ');
@@ -0,0 +1,85 @@
+import { CalendarStore, Profile } from "../types";
+import type { Messages } from "./i18nMessages";
+import { CALENDAR_CONFIG, DOOR_DAYS, getCalendarDate, getSeasonDay, getTimeOfDay, isDoorUnlocked } from "./calendarConfig";
+import { getCalendarForProfile } from "./profiles";
+import { getDoorStatus } from "./statistics";
+
+// Opt-in "today's door is open" reminders, one per profile and day at the profile's notificationTime.
+// There is no push server: the open (or backgrounded) app checks every minute and shows the
+// notification through the service worker, so a click brings the calendar back to the front.
+
+const SENT_KEY = 'advent_calendar_notifications_v1';
+
+export interface DoorReminder {
+  profile: Profile;
+  day: number;
+}
+
+export const areNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission =>
+  areNotificationsSupported() ? Notification.permission : 'denied';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!areNotificationsSupported()) return 'denied';
+  return Notification.requestPermission();
+};
+
+// Profile id -> calendar date of the last reminder, so every profile gets at most one per day
+const loadSentReminders = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(SENT_KEY) || '{}');
+  } catch (e) {
+    console.error("Failed to parse sent reminders", e);
+    return {};
+  }
+};
+
+const getDateKey = (now: Date) => {
+  const { year, month, day } = getCalendarDate(now, CALENDAR_CONFIG.timeZone);
+  return `${year}-${month}-${day}`;
+};
+
+// Profiles whose reminder time has passed today and whose door is still closed.
+// A simulated date stands for the whole day, so its reminders are due regardless of the time.
+export const getDueReminders = (store: CalendarStore, now: Date, ignoreTime = false): DoorReminder[] => {
+  const day = getSeasonDay(now);
+  if (!DOOR_DAYS.includes(day) || !isDoorUnlocked(day, now)) return [];
+  const sent = loadSentReminders();
+  const dateKey = getDateKey(now);
+  const time = getTimeOfDay(now, CALENDAR_CONFIG.timeZone);
+
+  return store.profiles
+    .filter(profile => profile.notificationTime
+      && (ignoreTime || time >= profile.notificationTime)
+      && sent[profile.id] !== dateKey
+      && !getCalendarForProfile(store, profile.id)[day]?.isOpen)
+    .map(profile => ({ profile, day }));
+};
+
+export const showDoorReminder = async ({ profile, day }: DoorReminder, now: Date, text: Messages['notifications']) => {
+  const sent = loadSentReminders();
+  sent[profile.id] = getDateKey(now);
+  localStorage.setItem(SENT_KEY, JSON.stringify(sent));
+
+  const title = text.reminderTitle(profile.avatar, day);
+  const options: NotificationOptions = {
+    body: text.reminderBody(profile.name),
+    tag: `door-${profile.id}-${day}`,
+  };
+  // Through the service worker where there is one (builds), a plain notification in dev
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+};
+
+// Yesterday's door if the profile never opened it; the banner offers to catch up while it is unlocked
+export const getMissedYesterday = (store: CalendarStore, profileId: string, now: Date): number | null => {
+  const yesterday = getSeasonDay(now) - 1;
+  if (!DOOR_DAYS.includes(yesterday)) return null;
+  const door = getCalendarForProfile(store, profileId)[yesterday];
+  return getDoorStatus(yesterday, door, now) === 'missed' ? yesterday : null;
+};
@@ -0,0 +1,40 @@
+const PIN_STORAGE_KEY = 'advent_calendar_parent_pin_v1';
+
+// Only a salted hash is stored; this keeps curious kids out, it is not real security
+const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(`${salt}:${pin}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+}
+
+const readStoredPin = (): StoredPin | null => {
+  try {
+    const stored = localStorage.getItem(PIN_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const hasParentPin = (): boolean => readStoredPin() !== null;
+
+export const isValidPinFormat = (pin: string): boolean => /^\d{4,8}$/.test(pin);
+
+export const setParentPin = async (pin: string): Promise<void> => {
+  if (!isValidPinFormat(pin)) {
+    throw new Error("Die PIN muss aus 4 bis 8 Ziffern bestehen.");
+  }
+  const salt = Array.from(crypto.getRandomValues(new Uint8Array(8))).map(b => b.toString(16)).join('');
+  localStorage.setItem(PIN_STORAGE_KEY, JSON.stringify({ salt, hash: await hashPin(pin, salt) }));
+};
+
+export const verifyParentPin = async (pin: string): Promise<boolean> => {
+  const stored = readStoredPin();
+  if (!stored) return false;
+  return (await hashPin(pin, stored.salt)) === stored.hash;
+};
@@ -0,0 +1,152 @@
+import { AgeGroup, CalendarState, CalendarStore, Difficulty, DoorState, Profile, Riddle } from "../types";
+import { createId } from "./riddleSanitizer";
+import { DEFAULT_DIFFICULTY, getDefaultDifficultyForAgeGroup } from "./difficulty";
+
+export const PROFILE_AVATARS = ['🎅', '🤶', '🦌', '⛄', '🧝', '🐧', '🎄', '⭐', '🍪', '🎁'];
+
+export const AGE_GROUPS: AgeGroup[] = ['child', 'teen', 'adult'];
+
+export const createEmptyStore = (): CalendarStore => ({
+  profiles: [],
+  shareRiddles: true,
+  difficulty: DEFAULT_DIFFICULTY,
+  sharedRiddles: {},
+  doors: {},
+});
+
+export const createProfile = (
+  name: string,
+  avatar: string,
+  ageGroup: AgeGroup,
+  difficulty: Difficulty = getDefaultDifficultyForAgeGroup(ageGroup)
+): Profile => ({
+  id: createId(),
+  name: name.trim(),
+  avatar,
+  ageGroup,
+  difficulty,
+  updatedAt: new Date().toISOString(),
+});
+
+export const addProfile = (store: CalendarStore, profile: Profile): CalendarStore => ({
+  ...store,
+  profiles: [...store.profiles, profile],
+  doors: { ...store.doors, [profile.id]: {} },
+});
+
+export const removeProfile = (store: CalendarStore, profileId: string): CalendarStore => {
+  const { [profileId]: _, ...doors } = store.doors;
+  return {
+    ...store,
+    profiles: store.profiles.filter(p => p.id !== profileId),
+    doors,
+    removedProfileIds: [...(store.removedProfileIds || []), profileId],
+  };
+};
+
+export const updateProfile = (store: CalendarStore, profileId: string, changes: Partial<Omit<Profile, 'id'>>): CalendarStore => ({
+  ...store,
+  profiles: store.profiles.map(p => (p.id === profileId ? { ...p, ...changes, updatedAt: new Date().toISOString() } : p)),
+});
+
+export const setCalendarDifficulty = (store: CalendarStore, difficulty: Difficulty): CalendarStore => ({
+  ...store,
+  difficulty,
+  settingsUpdatedAt: new Date().toISOString(),
+});
+
+// Shared riddles are the same for everyone, so they follow the calendar-wide level instead of the player's
+export const getEffectiveDifficulty = (store: CalendarStore, profileId: string): Difficulty => {
+  if (store.shareRiddles) return store.difficulty;
+  return store.profiles.find(p => p.id === profileId)?.difficulty ?? store.difficulty;
+};
+
+// Clears opened/solved/hint progress of one player; with own riddles those go too
+export const resetProfile = (store: CalendarStore, profileId: string): CalendarStore => {
+  const resetAt = new Date().toISOString();
+  return {
+    ...store,
+    profiles: store.profiles.map(p => (p.id === profileId ? { ...p, resetAt, updatedAt: resetAt } : p)),
+    doors: { ...store.doors, [profileId]: {} },
+  };
+};
+
+// Merges the profile's progress with the riddles it sees into the CalendarState the UI works with
+export const getCalendarForProfile = (store: CalendarStore, profileId: string): CalendarState => {
+  const own = store.doors[profileId] || {};
+  if (!store.shareRiddles) return own;
+
+  const calendar: CalendarState = {};
+  const days = new Set([...Object.keys(own), ...Object.keys(store.sharedRiddles)].map(Number));
+  days.forEach(day => {
+    const door = own[day];
+    const slot = store.sharedRiddles[day];
+    calendar[day] = {
+      isOpen: false,
+      isSolved: false,
+      ...door,
+      riddle: slot?.riddle,
+      isLocked: slot?.isLocked,
+      riddleEditedAt: slot?.editedAt,
+    };
+  });
+  return calendar;
+};
+
+// Applies door changes for one profile; riddle fields go to the shared pool when riddles are shared
+export const updateDoor = (
+  store: CalendarStore,
+  profileId: string,
+  day: number,
+  changes: Partial<DoorState>
+): CalendarStore => {
+  const { riddle, isLocked, riddleEditedAt, ...progress } = changes;
+  const hasRiddleChange = 'riddle' in changes || 'isLocked' in changes || 'riddleEditedAt' in changes;
+  const own = store.doors[profileId] || {};
+  const door: DoorState = { isOpen: false, isSolved: false, ...own[day] };
+
+  if (!store.shareRiddles) {
+    return { ...store, doors: { ...store.doors, [profileId]: { ...own, [day]: { ...door, ...changes } } } };
+  }
+
+  const next: CalendarStore = { ...store, doors: { ...store.doors, [profileId]: { ...own, [day]: { ...door, ...progress } } } };
+  if (hasRiddleChange) {
+    const slot = store.sharedRiddles[day] || {};
+    next.sharedRiddles = {
+      ...store.sharedRiddles,
+      [day]: {
+        riddle: 'riddle' in changes ? riddle : slot.riddle,
+        isLocked: 'isLocked' in changes ? isLocked : slot.isLocked,
+        editedAt: 'riddleEditedAt' in changes ? riddleEditedAt : slot.editedAt,
+      },
+    };
+  }
+  return next;
+};
+
+// When sharing is turned off, every profile keeps a copy of the riddles it could see so far
+export const setShareRiddles = (store: CalendarStore, shareRiddles: boolean): CalendarStore => {
+  if (store.shareRiddles === shareRiddles) return store;
+  const settingsUpdatedAt = new Date().toISOString();
+  if (shareRiddles) return { ...store, shareRiddles, settingsUpdatedAt };
+
+  const doors: Record<string, CalendarState> = {};
+  store.profiles.forEach(profile => {
+    doors[profile.id] = getCalendarForProfile(store, profile.id);
+  });
+  return { ...store, shareRiddles, settingsUpdatedAt, doors };
+};
+
+// Every riddle held in the store, shared or per profile (used to sync images to the image store)
+export const getAllRiddles = (store: CalendarStore): Riddle[] => {
+  const riddles: Riddle[] = [];
+  Object.values(store.sharedRiddles).forEach(slot => {
+    if (slot?.riddle) riddles.push(slot.riddle);
+  });
+  Object.values(store.doors).forEach(calendar => {
+    Object.values(calendar).forEach(door => {
+      if (door?.riddle) riddles.push(door.riddle);
+    });
+  });
+  return riddles;
+};
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HttpStatusError, TimeoutError, retryWithBackoff, withModelFallback, withTimeout } from "./resilience";
+
+// Stands in for a model API: every call takes the next scripted reaction and records what it was asked
+type Reaction = { ok: string } | { error: unknown } | 'hang';
+
+const createFakeClient = (script: Reaction[]) => {
+  const calls: { model?: string; signal: AbortSignal }[] = [];
+  const call = (signal: AbortSignal, model?: string): Promise<string> => {
+    calls.push({ model, signal });
+    const reaction = script.shift() ?? 'hang';
+    if (reaction === 'hang') {
+      // Like fetch, a hanging request only ends when it is aborted
+      return new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    }
+    return 'ok' in reaction ? Promise.resolve(reaction.ok) : Promise.reject(reaction.error);
+  };
+  return { calls, call, generate: (signal: AbortSignal) => call(signal) };
+};
+
+const overloaded = () => new HttpStatusError(503, 'overloaded');
+const badRequest = () => new HttpStatusError(400, 'bad request');
+
+const options = { timeoutMs: 1000, retries: 2, baseDelayMs: 100 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('withTimeout', () => {
+  it('passes the result through', async () => {
+    const client = createFakeClient([{ ok: 'riddle' }]);
+    await expect(withTimeout('Modell', 1000, client.generate)).resolves.toBe('riddle');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('gives up after the time and aborts the request', async () => {
+    const client = createFakeClient(['hang']);
+    const result = withTimeout('Modell', 1000, client.generate);
+    const assertion = expect(result).rejects.toThrow(TimeoutError);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(client.calls[0].signal.aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await assertion;
+    expect(client.calls[0].signal.aborted).toBe(true);
+  });
+
+  it('keeps the error of a failed request', async () => {
+    const client = createFakeClient([{ error: badRequest() }]);
+    await expect(withTimeout('Modell', 1000, client.generate)).rejects.toThrow('bad request');
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('retries failures that may go away, with doubling delays', async () => {
+    const client = createFakeClient([{ error: overloaded() }, { error: new TypeError('fetch failed') }, { ok: 'riddle' }]);
+    const result = retryWithBackoff('Modell', options, client.generate);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(client.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(client.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(client.calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(client.calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('riddle');
+    expect(client.calls).toHaveLength(3);
+  });
+
+  it('tells each attempt its number', async () => {
+    const attempts: number[] = [];
+    const result = retryWithBackoff('Modell', options, async (_signal, attempt) => {
+      attempts.push(attempt);
+      if (attempt < 3) throw overloaded();
+      return 'riddle';
+    });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('riddle');
+    expect(attempts).toEqual([1, 2, 3]);
+  });
+
+  it('times out each attempt on its own and tries again', async () => {
+    const client = createFakeClient(['hang', { ok: 'riddle' }]);
+    const result = retryWithBackoff('Modell', options, client.generate);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(client.calls[0].signal.aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(result).resolves.toBe('riddle');
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('throws the last error once the retries are used up', async () => {
+    const client = createFakeClient(['hang', 'hang', 'hang', { ok: 'too late' }]);
+    const result = retryWithBackoff('Modell', options, client.generate);
+    const assertion = expect(result).rejects.toThrow(TimeoutError);
+
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(client.calls).toHaveLength(3);
+  });
+
+  it('does not retry requests that would fail again', async () => {
+    const client = createFakeClient([{ error: badRequest() }, { ok: 'riddle' }]);
+    await expect(retryWithBackoff('Modell', options, client.generate)).rejects.toThrow('bad request');
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it.each([408, 429, 500, 503])('retries HTTP %i', async (status) => {
+    const client = createFakeClient([{ error: new HttpStatusError(status, 'failed') }, { ok: 'riddle' }]);
+    const result = retryWithBackoff('Modell', options, client.generate);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('riddle');
+  });
+
+  it('asks shouldRetry when it is given', async () => {
+    const client = createFakeClient([{ error: overloaded() }, { ok: 'riddle' }]);
+    const shouldRetry = vi.fn(() => false);
+    await expect(retryWithBackoff('Modell', { ...options, shouldRetry }, client.generate)).rejects.toThrow('overloaded');
+    expect(shouldRetry).toHaveBeenCalledOnce();
+  });
+
+  it('makes a single attempt with no retries', async () => {
+    const client = createFakeClient([{ error: overloaded() }, { ok: 'riddle' }]);
+    await expect(retryWithBackoff('Modell', { ...options, retries: 0 }, client.generate)).rejects.toThrow('overloaded');
+    expect(client.calls).toHaveLength(1);
+  });
+});
+
+describe('withModelFallback', () => {
+  const models = ['gemini-pro', 'gemini-flash', 'gemini-lite'];
+  const run = (client: ReturnType<typeof createFakeClient>) =>
+    (model: string) => client.call(new AbortController().signal, model);
+
+  it('uses the first model that answers', async () => {
+    const client = createFakeClient([{ error: overloaded() }, { ok: 'riddle' }]);
+    await expect(withModelFallback(models, run(client))).resolves.toBe('riddle');
+    expect(client.calls.map(call => call.model)).toEqual(['gemini-pro', 'gemini-flash']);
+  });
+
+  it('throws the last model\'s error when all fail', async () => {
+    const client = createFakeClient([{ error: overloaded() }, { error: overloaded() }, { error: new HttpStatusError(500, 'last') }]);
+    await expect(withModelFallback(models, run(client))).rejects.toThrow('last');
+    expect(client.calls).toHaveLength(3);
+  });
+
+  it('stops at a rejected request instead of trying the next model', async () => {
+    const client = createFakeClient([{ error: badRequest() }, { ok: 'riddle' }]);
+    await expect(withModelFallback(models, run(client))).rejects.toThrow('bad request');
+    expect(client.calls.map(call => call.model)).toEqual(['gemini-pro']);
+  });
+
+  it('falls back after a model timed out with all its retries', async () => {
+    const client = createFakeClient(['hang', 'hang', { ok: 'riddle' }]);
+    const result = withModelFallback(models.slice(0, 2), model =>
+      retryWithBackoff(model, { ...options, retries: 1 }, signal => client.call(signal, model)));
+
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('riddle');
+    expect(client.calls.map(call => call.model)).toEqual(['gemini-pro', 'gemini-pro', 'gemini-flash']);
+  });
+
+  it('fails without models', async () => {
+    await expect(withModelFallback([], async () => 'riddle')).rejects.toThrow('Kein Modell konfiguriert.');
+  });
+});
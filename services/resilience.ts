@@ -0,0 +1,88 @@
+// Timeouts, retries with exponential backoff and model fallback for model calls. The Gemini
+// upstream and the local model use them per call, the app around a whole door (riddleFallback.ts).
+
+export class TimeoutError extends Error {
+  constructor(label: string, ms: number) {
+    super(`${label} hat nicht innerhalb von ${Math.ceil(ms / 1000)} s geantwortet.`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Failed requests that carry the HTTP status, so callers can decide whether trying again helps
+export class HttpStatusError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+export interface RetryOptions {
+  timeoutMs: number; // Per attempt
+  retries: number; // Additional attempts after the first failure
+  baseDelayMs: number; // Backoff before retry n is baseDelayMs * 2^(n-1)
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+// Reads counts like GEMINI_RETRIES, where 0 is a valid setting
+export const parseCount = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Works for our own errors and for the Gemini SDK's ApiError, which both have a numeric status
+export const getErrorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+// Timeouts, network errors, overload and garbled model output may go away; bad requests and missing keys do not
+export const isRetryableError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+};
+
+// The signal is aborted when the time is up, so fetches and SDK calls actually stop
+export const withTimeout = <T,>(label: string, ms: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(label, ms));
+    }, ms);
+    run(controller.signal).then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+};
+
+export const retryWithBackoff = async <T,>(
+  label: string,
+  options: RetryOptions,
+  run: (signal: AbortSignal, attempt: number) => Promise<T>
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await withTimeout(label, options.timeoutMs, signal => run(signal, attempt));
+    } catch (e) {
+      if (attempt > options.retries || !(options.shouldRetry ?? isRetryableError)(e)) throw e;
+      console.warn(`${label} failed (attempt ${attempt}), retrying:`, e);
+      await sleep(options.baseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+};
+
+// Tries the models in order, each with its own retries; throws the last model's error
+export const withModelFallback = async <T,>(models: string[], run: (model: string) => Promise<T>): Promise<T> => {
+  let lastError: unknown = new Error('Kein Modell konfiguriert.');
+  for (const [index, model] of models.entries()) {
+    try {
+      return await run(model);
+    } catch (e) {
+      lastError = e;
+      // Rejected requests would fail with the next model just the same
+      if (!isRetryableError(e)) break;
+      if (index < models.length - 1) console.warn(`Model ${model} failed, falling back to ${models[index + 1]}:`, e);
+    }
+  }
+  throw lastError;
+};
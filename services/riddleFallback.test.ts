@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LANGUAGES } from "./languages";
+import { HttpStatusError } from "./resilience";
+import { generateWithFallback, getOfflineRiddle } from "./riddleFallback";
+import { findRiddleProblems } from "./riddleSanitizer";
+
+describe('getOfflineRiddle', () => {
+  it.each(LANGUAGES)('has a valid %s riddle for every door', (language) => {
+    for (let day = 1; day <= 31; day++) {
+      const riddle = getOfflineRiddle(day, 'hard', language);
+      expect(findRiddleProblems(riddle, `Tag ${day}`)).toEqual([]);
+      expect(riddle).toMatchObject({ day, language, type: 'choice', isFallback: true });
+    }
+  });
+
+  it('picks the same riddle in every language', () => {
+    const [de, en, fr] = LANGUAGES.map(language => getOfflineRiddle(1, 'medium', language));
+    expect(de.correctAnswer).toBe('4');
+    expect(en.correctAnswer).toBe('4');
+    expect(fr.correctAnswer).toBe('4');
+    expect(en.question).toContain('Santa');
+    expect(fr.question).toContain('père Noël');
+  });
+
+  it('keeps the answer among the options of the easiest level', () => {
+    LANGUAGES.forEach(language => {
+      for (let day = 1; day <= 8; day++) {
+        const riddle = getOfflineRiddle(day, 'easy', language);
+        expect(riddle.options).toContain(riddle.correctAnswer);
+      }
+    });
+  });
+
+  it('is German by default', () => {
+    expect(getOfflineRiddle(3).language).toBe('de');
+  });
+});
+
+describe('generateWithFallback', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the generated riddle', async () => {
+    const riddle = getOfflineRiddle(5);
+    await expect(generateWithFallback(5, async () => ({ ...riddle, isFallback: undefined })))
+      .resolves.toEqual({ riddle: { ...riddle, isFallback: undefined }, failure: null });
+  });
+
+  it('hands out the bundled riddle in the requested language after the retry', async () => {
+    const generate = vi.fn(async () => { throw new HttpStatusError(503, 'overloaded'); });
+    const outcome = generateWithFallback(9, generate, { difficulty: 'easy', language: 'fr' });
+    await vi.runAllTimersAsync();
+
+    const { riddle, failure } = await outcome;
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(failure).toEqual({ reason: 'model', detail: 'overloaded' });
+    expect(riddle).toMatchObject({ day: 9, language: 'fr', difficulty: 'easy', isFallback: true });
+  });
+
+  it('does not retry the rate limit', async () => {
+    const generate = vi.fn(async () => { throw new HttpStatusError(429, 'later'); });
+    const { failure } = await generateWithFallback(9, generate);
+    expect(generate).toHaveBeenCalledOnce();
+    expect(failure?.reason).toBe('rateLimit');
+  });
+
+  it('can leave the door empty instead', async () => {
+    const { riddle } = await generateWithFallback(9, async () => { throw new HttpStatusError(400, 'bad'); }, { useOfflineRiddle: false });
+    expect(riddle).toBeNull();
+  });
+});
@@ -0,0 +1,293 @@
+import { Difficulty, Language, Riddle } from "../types";
+import { DEFAULT_DIFFICULTY, DIFFICULTY_SETTINGS } from "./difficulty";
+import { DEFAULT_LANGUAGE } from "./languages";
+import { RIDDLE_CATEGORIES } from "./riddlePrompt";
+import { RiddleRejectedError } from "./riddleValidator";
+import { SyncOfflineError } from "./syncService";
+import { TimeoutError, getErrorStatus, isRetryableError, parseCount, retryWithBackoff } from "./resilience";
+
+// What the app does when a door's riddle cannot be generated: the whole request gives up after
+// RIDDLE_TIMEOUT_MS and is retried RIDDLE_RETRIES times with backoff. If it still fails, the door
+// gets a bundled riddle of its category (off with RIDDLE_OFFLINE_FALLBACK=false) and the modal
+// explains what went wrong. Retries and the fallback model on the way to the model itself are
+// handled by the providers (see services/resilience.ts).
+
+const retryOptions = {
+  timeoutMs: Number(process.env.RIDDLE_TIMEOUT_MS) || 240_000,
+  retries: parseCount(process.env.RIDDLE_RETRIES, 1),
+  baseDelayMs: 2000,
+  // The proxy's rate limit lasts for its whole window, rejected riddles already had their retries
+  shouldRetry: (e: unknown) => !(e instanceof RiddleRejectedError) && getErrorStatus(e) !== 429 && isRetryableError(e),
+};
+const offlineFallbackEnabled = process.env.RIDDLE_OFFLINE_FALLBACK !== 'false';
+
+export type GenerationFailureReason = 'timeout' | 'offline' | 'rateLimit' | 'rejected' | 'model' | 'unknown';
+
+export interface GenerationFailure {
+  reason: GenerationFailureReason; // The modal explains it in the app's language (services/i18nMessages.ts)
+  detail: string; // The original error message
+}
+
+const getFailureReason = (error: unknown): GenerationFailureReason => {
+  const status = getErrorStatus(error);
+  if (error instanceof TimeoutError) return 'timeout';
+  // fetch rejects with a TypeError when there is no connection at all
+  if (error instanceof SyncOfflineError || error instanceof TypeError || !navigator.onLine) return 'offline';
+  if (status === 429) return 'rateLimit';
+  if (status === 422 || error instanceof RiddleRejectedError) return 'rejected';
+  if (status !== undefined && status >= 500) return 'model';
+  return 'unknown';
+};
+
+export const describeGenerationFailure = (error: unknown): GenerationFailure => {
+  const reason = getFailureReason(error);
+  return { reason, detail: error instanceof Error ? error.message : String(error) };
+};
+
+type OfflineRiddle = Pick<Riddle, 'question' | 'options' | 'correctAnswer' | 'hints' | 'solutionExplanation'>;
+
+// A few hand-written riddles per language and category, in the order of RIDDLE_CATEGORIES. All are multiple
+// choice with the answer among the first three options, so they fit every difficulty.
+const OFFLINE_RIDDLES: Record<Language, OfflineRiddle[][]> = {
+  de: [
+    [
+      {
+        question: 'Anna, Ben und Clara bekommen je ein Geschenk: eine Mütze, ein Buch und einen Schlitten. Anna bekommt nicht das Buch. Ben bekommt den Schlitten. Was bekommt Anna?',
+        options: ['Das Buch', 'Die Mütze', 'Den Schlitten', 'Einen Ball', 'Nichts'],
+        correctAnswer: 'Die Mütze',
+        hints: ['Der Schlitten ist schon vergeben.', 'Anna bekommt auch nicht das Buch.', 'Es bleibt nur ein Geschenk übrig.'],
+        solutionExplanation: 'Ben hat den Schlitten und Anna nicht das Buch, also bekommt Anna die Mütze und Clara das Buch.',
+      },
+      {
+        question: 'Drei Wichtel stehen in einer Reihe. Flinki steht links von Tapsi, und Tapsi steht links von Zwirbel. Wer steht ganz rechts?',
+        options: ['Zwirbel', 'Flinki', 'Tapsi', 'Niemand', 'Alle gleich'],
+        correctAnswer: 'Zwirbel',
+        hints: ['Stell die Wichtel nacheinander auf.', 'Flinki steht ganz links.', 'Tapsi steht in der Mitte.'],
+        solutionExplanation: 'Die Reihenfolge ist Flinki, Tapsi, Zwirbel. Ganz rechts steht also Zwirbel.',
+      },
+    ],
+    [
+      {
+        question: 'Der Weihnachtsmann hat 12 Geschenke und packt immer 3 in einen Sack. Wie viele Säcke braucht er?',
+        options: ['3', '6', '4', '9', '12'],
+        correctAnswer: '4',
+        hints: ['Zähle in Dreierschritten.', '3, 6, 9, ...', 'Wie oft passt 3 in 12?'],
+        solutionExplanation: '12 geteilt durch 3 ist 4, also braucht er 4 Säcke.',
+      },
+      {
+        question: 'Am ersten Advent brennt eine Kerze, an jedem weiteren Advent kommt eine dazu. Wie viele Kerzen brennen am dritten Advent?',
+        options: ['2', '3', '4', '1', '6'],
+        correctAnswer: '3',
+        hints: ['Zähle die Adventssonntage.', 'Am zweiten Advent brennen zwei Kerzen.', 'Es ist eine mehr als am zweiten Advent.'],
+        solutionExplanation: 'An jedem Advent kommt eine Kerze dazu, am dritten Advent brennen also 3 Kerzen.',
+      },
+    ],
+    [
+      {
+        question: 'Welche Zahl setzt die Reihe fort: 2, 4, 6, 8, ...?',
+        options: ['10', '9', '12', '16', '11'],
+        correctAnswer: '10',
+        hints: ['Schau, wie groß die Schritte sind.', 'Es kommt immer gleich viel dazu.', 'Jedes Mal kommt 2 dazu.'],
+        solutionExplanation: 'Jede Zahl ist um 2 größer als die vorige, nach 8 kommt also 10.',
+      },
+      {
+        question: 'Stern, Kerze, Stern, Kerze, Stern, ... Was kommt als Nächstes?',
+        options: ['Stern', 'Kerze', 'Tanne', 'Glocke', 'Schneemann'],
+        correctAnswer: 'Kerze',
+        hints: ['Es wiederholt sich etwas.', 'Zwei Dinge wechseln sich ab.', 'Nach einem Stern kam bisher immer ...'],
+        solutionExplanation: 'Stern und Kerze wechseln sich ab, nach dem Stern kommt also eine Kerze.',
+      },
+    ],
+    [
+      {
+        question: 'Was wird nasser, je mehr es trocknet?',
+        options: ['Ein Schneemann', 'Ein Regenschirm', 'Ein Handtuch', 'Ein Schwamm', 'Eine Kerze'],
+        correctAnswer: 'Ein Handtuch',
+        hints: ['Es trocknet nicht sich selbst.', 'Du benutzt es nach dem Baden.', 'Es hängt meistens im Badezimmer.'],
+        solutionExplanation: 'Ein Handtuch trocknet andere ab und wird dabei selbst immer nasser.',
+      },
+      {
+        question: 'Ich habe Nadeln, aber ich nähe nicht. Im Dezember stehe ich geschmückt im Wohnzimmer. Was bin ich?',
+        options: ['Ein Igel', 'Ein Tannenbaum', 'Ein Schneider', 'Ein Kaktus', 'Ein Nadelkissen'],
+        correctAnswer: 'Ein Tannenbaum',
+        hints: ['Die Nadeln sind grün.', 'Ich wachse im Wald.', 'An mir hängen Kugeln und Lichter.'],
+        solutionExplanation: 'Ein Tannenbaum hat Nadeln und wird zu Weihnachten im Wohnzimmer geschmückt.',
+      },
+    ],
+  ],
+  en: [
+    [
+      {
+        question: 'Anna, Ben and Clara each get a present: a hat, a book and a sled. Anna does not get the book. Ben gets the sled. What does Anna get?',
+        options: ['The book', 'The hat', 'The sled', 'A ball', 'Nothing'],
+        correctAnswer: 'The hat',
+        hints: ['The sled is already taken.', 'Anna does not get the book either.', 'Only one present is left.'],
+        solutionExplanation: 'Ben has the sled and Anna not the book, so Anna gets the hat and Clara the book.',
+      },
+      {
+        question: 'Three elves stand in a row. Nippy stands left of Tippy, and Tippy stands left of Twirly. Who stands on the far right?',
+        options: ['Twirly', 'Nippy', 'Tippy', 'Nobody', 'All of them'],
+        correctAnswer: 'Twirly',
+        hints: ['Line the elves up one after another.', 'Nippy stands on the far left.', 'Tippy stands in the middle.'],
+        solutionExplanation: 'The order is Nippy, Tippy, Twirly. So Twirly stands on the far right.',
+      },
+    ],
+    [
+      {
+        question: 'Santa has 12 presents and always puts 3 into one sack. How many sacks does he need?',
+        options: ['3', '6', '4', '9', '12'],
+        correctAnswer: '4',
+        hints: ['Count in steps of three.', '3, 6, 9, ...', 'How often does 3 fit into 12?'],
+        solutionExplanation: '12 divided by 3 is 4, so he needs 4 sacks.',
+      },
+      {
+        question: 'On the first Sunday of Advent one candle burns, and one more is lit every Sunday after. How many candles burn on the third Sunday?',
+        options: ['2', '3', '4', '1', '6'],
+        correctAnswer: '3',
+        hints: ['Count the Sundays of Advent.', 'On the second Sunday two candles burn.', 'It is one more than on the second Sunday.'],
+        solutionExplanation: 'Every Sunday of Advent adds one candle, so 3 candles burn on the third Sunday.',
+      },
+    ],
+    [
+      {
+        question: 'Which number continues the series: 2, 4, 6, 8, ...?',
+        options: ['10', '9', '12', '16', '11'],
+        correctAnswer: '10',
+        hints: ['Look at how big the steps are.', 'The same amount is added every time.', 'Each time 2 is added.'],
+        solutionExplanation: 'Each number is 2 more than the one before, so 10 comes after 8.',
+      },
+      {
+        question: 'Star, candle, star, candle, star, ... What comes next?',
+        options: ['Star', 'Candle', 'Fir tree', 'Bell', 'Snowman'],
+        correctAnswer: 'Candle',
+        hints: ['Something repeats.', 'Two things take turns.', 'So far a star was always followed by ...'],
+        solutionExplanation: 'Star and candle take turns, so a candle comes after the star.',
+      },
+    ],
+    [
+      {
+        question: 'What gets wetter the more it dries?',
+        options: ['A snowman', 'An umbrella', 'A towel', 'A sponge', 'A candle'],
+        correctAnswer: 'A towel',
+        hints: ['It does not dry itself.', 'You use it after a bath.', 'It usually hangs in the bathroom.'],
+        solutionExplanation: 'A towel dries other things and gets wetter and wetter doing it.',
+      },
+      {
+        question: 'I have needles, but I do not sew. In December I stand decorated in the living room. What am I?',
+        options: ['A hedgehog', 'A Christmas tree', 'A tailor', 'A cactus', 'A pincushion'],
+        correctAnswer: 'A Christmas tree',
+        hints: ['The needles are green.', 'I grow in the forest.', 'Baubles and lights hang on me.'],
+        solutionExplanation: 'A Christmas tree has needles and is decorated in the living room at Christmas.',
+      },
+    ],
+  ],
+  fr: [
+    [
+      {
+        question: 'Anna, Ben et Clara reçoivent chacun un cadeau : un bonnet, un livre et une luge. Anna ne reçoit pas le livre. Ben reçoit la luge. Que reçoit Anna ?',
+        options: ['Le livre', 'Le bonnet', 'La luge', 'Un ballon', 'Rien'],
+        correctAnswer: 'Le bonnet',
+        hints: ['La luge est déjà prise.', 'Anna ne reçoit pas non plus le livre.', 'Il ne reste qu\'un seul cadeau.'],
+        solutionExplanation: 'Ben a la luge et Anna n\'a pas le livre, donc Anna reçoit le bonnet et Clara le livre.',
+      },
+      {
+        question: 'Trois lutins sont en rang. Filou est à gauche de Pataud, et Pataud est à gauche de Frisou. Qui est tout à droite ?',
+        options: ['Frisou', 'Filou', 'Pataud', 'Personne', 'Tous'],
+        correctAnswer: 'Frisou',
+        hints: ['Place les lutins l\'un après l\'autre.', 'Filou est tout à gauche.', 'Pataud est au milieu.'],
+        solutionExplanation: 'L\'ordre est Filou, Pataud, Frisou. Frisou est donc tout à droite.',
+      },
+    ],
+    [
+      {
+        question: 'Le père Noël a 12 cadeaux et en met toujours 3 dans un sac. Combien de sacs lui faut-il ?',
+        options: ['3', '6', '4', '9', '12'],
+        correctAnswer: '4',
+        hints: ['Compte de trois en trois.', '3, 6, 9, ...', 'Combien de fois 3 entre-t-il dans 12 ?'],
+        solutionExplanation: '12 divisé par 3 fait 4, il lui faut donc 4 sacs.',
+      },
+      {
+        question: 'Le premier dimanche de l\'Avent, une bougie brûle, et chaque dimanche suivant on en allume une de plus. Combien de bougies brûlent le troisième dimanche ?',
+        options: ['2', '3', '4', '1', '6'],
+        correctAnswer: '3',
+        hints: ['Compte les dimanches de l\'Avent.', 'Le deuxième dimanche, deux bougies brûlent.', 'C\'est une de plus que le deuxième dimanche.'],
+        solutionExplanation: 'Chaque dimanche de l\'Avent ajoute une bougie, donc 3 bougies brûlent le troisième dimanche.',
+      },
+    ],
+    [
+      {
+        question: 'Quel nombre continue la suite : 2, 4, 6, 8, ... ?',
+        options: ['10', '9', '12', '16', '11'],
+        correctAnswer: '10',
+        hints: ['Regarde la taille des pas.', 'On ajoute toujours la même chose.', 'On ajoute 2 à chaque fois.'],
+        solutionExplanation: 'Chaque nombre vaut 2 de plus que le précédent, après 8 vient donc 10.',
+      },
+      {
+        question: 'Étoile, bougie, étoile, bougie, étoile, ... Que vient-il ensuite ?',
+        options: ['Étoile', 'Bougie', 'Sapin', 'Cloche', 'Bonhomme de neige'],
+        correctAnswer: 'Bougie',
+        hints: ['Quelque chose se répète.', 'Deux choses alternent.', 'Jusqu\'ici, après une étoile venait toujours ...'],
+        solutionExplanation: 'Étoile et bougie alternent, après l\'étoile vient donc une bougie.',
+      },
+    ],
+    [
+      {
+        question: 'Qu\'est-ce qui devient plus mouillé à mesure qu\'il sèche ?',
+        options: ['Un bonhomme de neige', 'Un parapluie', 'Une serviette', 'Une éponge', 'Une bougie'],
+        correctAnswer: 'Une serviette',
+        hints: ['Ce n\'est pas lui-même qu\'il sèche.', 'Tu t\'en sers après le bain.', 'Elle est souvent accrochée dans la salle de bain.'],
+        solutionExplanation: 'Une serviette sèche les autres et devient de plus en plus mouillée.',
+      },
+      {
+        question: 'J\'ai des aiguilles, mais je ne couds pas. En décembre, je suis décoré dans le salon. Qui suis-je ?',
+        options: ['Un hérisson', 'Un sapin de Noël', 'Un tailleur', 'Un cactus', 'Une pelote à épingles'],
+        correctAnswer: 'Un sapin de Noël',
+        hints: ['Les aiguilles sont vertes.', 'Je pousse dans la forêt.', 'On accroche des boules et des guirlandes sur moi.'],
+        solutionExplanation: 'Un sapin de Noël a des aiguilles et on le décore dans le salon à Noël.',
+      },
+    ],
+  ],
+};
+
+// The door's category decides the pool, so the replacement still fits the day
+export const getOfflineRiddle = (
+  day: number,
+  difficulty: Difficulty = DEFAULT_DIFFICULTY,
+  language: Language = DEFAULT_LANGUAGE
+): Riddle => {
+  const pool = OFFLINE_RIDDLES[language][day % RIDDLE_CATEGORIES.length];
+  const riddle = pool[Math.floor(day / RIDDLE_CATEGORIES.length) % pool.length];
+  return {
+    ...riddle,
+    id: `offline-${day}`,
+    day,
+    type: 'choice',
+    options: riddle.options!.slice(0, DIFFICULTY_SETTINGS[difficulty].optionCount),
+    difficulty,
+    language,
+    isFallback: true,
+  };
+};
+
+export interface GenerationOutcome {
+  riddle: Riddle | null; // The generated riddle, the bundled replacement, or null
+  failure: GenerationFailure | null;
+}
+
+// Never throws: failures come back explained, with the bundled riddle unless useOfflineRiddle is false
+export const generateWithFallback = async (
+  day: number,
+  generate: (signal: AbortSignal) => Promise<Riddle>,
+  options: { difficulty?: Difficulty; language?: Language; useOfflineRiddle?: boolean } = {}
+): Promise<GenerationOutcome> => {
+  try {
+    return { riddle: await retryWithBackoff('Der Rätseldienst', retryOptions, generate), failure: null };
+  } catch (e) {
+    console.error(`Generating the riddle for door ${day} failed:`, e);
+    const useOfflineRiddle = offlineFallbackEnabled && options.useOfflineRiddle !== false;
+    return {
+      riddle: useOfflineRiddle ? getOfflineRiddle(day, options.difficulty, options.language) : null,
+      failure: describeGenerationFailure(e),
+    };
+  }
+};
@@ -0,0 +1,135 @@
+import { CalendarState, Riddle, RiddlePack, RiddlePackMeta } from "../types";
+import { findRiddleProblems, isNonEmptyString, sanitizeNewRiddle, sanitizeRiddle } from "./riddleSanitizer";
+
+export const RIDDLE_PACK_FORMAT = 'adventskalender-riddle-pack';
+export const RIDDLE_PACK_VERSION = 1;
+
+// Thrown when an imported pack does not match the documented format (docs/riddle-pack.md)
+export class RiddlePackError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Ungültiges Rätselpaket:\n- ${problems.join('\n- ')}`);
+    this.name = 'RiddlePackError';
+  }
+}
+
+// Image files are referenced relative to the pack file, data URLs are kept as they are
+const resolveImageUrl = (imageUrl: string | undefined, baseUrl?: string): string | undefined => {
+  if (!imageUrl || imageUrl.startsWith('data:') || !baseUrl) return imageUrl;
+  try {
+    return new URL(imageUrl, new URL(baseUrl, window.location.href)).href;
+  } catch {
+    return imageUrl;
+  }
+};
+
+const parsePack = (json: unknown, baseUrl: string | undefined, isStored: boolean): RiddlePack => {
+  const problems: string[] = [];
+  const raw = json as any;
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new RiddlePackError(['Die Datei enthält kein JSON-Objekt.']);
+  }
+  if (raw.format !== RIDDLE_PACK_FORMAT) {
+    problems.push(`'format' muss "${RIDDLE_PACK_FORMAT}" sein.`);
+  }
+  if (raw.version !== RIDDLE_PACK_VERSION) {
+    problems.push(`Nicht unterstützte Version ${JSON.stringify(raw.version)} (erwartet: ${RIDDLE_PACK_VERSION}).`);
+  }
+
+  const meta = raw.meta;
+  if (!meta || typeof meta !== 'object') {
+    problems.push(`'meta' fehlt.`);
+  } else {
+    if (!isNonEmptyString(meta.title)) problems.push(`'meta.title' fehlt.`);
+    if (!isNonEmptyString(meta.language)) problems.push(`'meta.language' fehlt (z.B. "de").`);
+    if (meta.author !== undefined && typeof meta.author !== 'string') problems.push(`'meta.author' muss ein Text sein.`);
+  }
+
+  if (!Array.isArray(raw.riddles) || raw.riddles.length === 0) {
+    problems.push(`'riddles' muss eine nicht-leere Liste sein.`);
+  } else {
+    const seen = new Set<number>();
+    raw.riddles.forEach((riddle: any, idx: number) => {
+      const label = `Rätsel #${idx + 1}${Number.isInteger(riddle?.day) ? ` (Tag ${riddle.day})` : ''}`;
+      problems.push(...findRiddleProblems(riddle, label, isStored));
+      if (Number.isInteger(riddle?.day)) {
+        if (seen.has(riddle.day)) problems.push(`${label}: Tag ${riddle.day} kommt doppelt vor.`);
+        seen.add(riddle.day);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new RiddlePackError(problems);
+  }
+
+  return {
+    format: RIDDLE_PACK_FORMAT,
+    version: RIDDLE_PACK_VERSION,
+    meta: {
+      title: meta.title,
+      author: meta.author,
+      language: meta.language,
+      description: typeof meta.description === 'string' ? meta.description : undefined,
+      createdAt: typeof meta.createdAt === 'string' ? meta.createdAt : undefined,
+    },
+    riddles: raw.riddles.map((riddle: any) => {
+      const clean = isStored ? sanitizeRiddle(riddle, riddle.day) : sanitizeNewRiddle(riddle, riddle.day);
+      const imageUrl = resolveImageUrl(clean.imageUrl, baseUrl);
+      return imageUrl ? { ...clean, imageUrl } : clean;
+    }),
+  };
+};
+
+// Validates untrusted JSON and returns a clean pack, or throws a RiddlePackError listing every problem
+export const parseRiddlePack = (json: unknown, baseUrl?: string): RiddlePack => parsePack(json, baseUrl, false);
+
+// A pack saved on this device passed parseRiddlePack on import. It is checked again, since storage can be
+// corrupted or from an older version, but its logic grids keep the solution they were saved with.
+export const parseStoredRiddlePack = (json: unknown): RiddlePack => parsePack(json, undefined, true);
+
+export const getPackRiddle = (pack: RiddlePack, day: number): Riddle | undefined => {
+  return pack.riddles.find(r => r.day === day);
+};
+
+// Collects every riddle known so far (pack first, then generated ones) into an exportable pack
+export const createRiddlePack = (
+  meta: RiddlePackMeta,
+  calendarState: CalendarState,
+  basePack?: RiddlePack | null
+): RiddlePack => {
+  const byDay = new Map<number, Riddle>();
+  basePack?.riddles.forEach(r => byDay.set(r.day, r));
+  Object.values(calendarState).forEach(door => {
+    if (door?.riddle) byDay.set(door.riddle.day, door.riddle);
+  });
+
+  return {
+    format: RIDDLE_PACK_FORMAT,
+    version: RIDDLE_PACK_VERSION,
+    meta: { ...meta, createdAt: new Date().toISOString() },
+    riddles: Array.from(byDay.values()).sort((a, b) => a.day - b.day),
+  };
+};
+
+export const readRiddlePackFile = async (file: File): Promise<RiddlePack> => {
+  const text = await file.text();
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new RiddlePackError([`"${file.name}" ist keine gültige JSON-Datei.`]);
+  }
+  return parseRiddlePack(json);
+};
+
+export const downloadRiddlePack = (pack: RiddlePack) => {
+  const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const slug = pack.meta.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'raetselpaket';
+  link.href = url;
+  link.download = `${slug}.riddles.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,37 @@
+import { RiddleProvider, RiddleProviderId } from "../types";
+import { geminiRiddleProvider } from "./geminiService";
+import { localModelRiddleProvider } from "./localModelService";
+import { staticPackRiddleProvider } from "./staticPackService";
+import { serverRiddleProvider } from "./serverRiddleService";
+import { createValidatingProvider } from "./riddleValidator";
+
+const providers: Record<RiddleProviderId, RiddleProvider> = {
+  gemini: geminiRiddleProvider,
+  local: localModelRiddleProvider,
+  pack: staticPackRiddleProvider,
+  server: serverRiddleProvider,
+};
+
+// Selected via RIDDLE_PROVIDER in .env.local, defaults to Gemini.
+// Generated riddles pass the quality checks in riddleValidator.ts; packs and the server's riddles are validated on load,
+// and the Gemini proxy validates before it caches.
+export const getRiddleProvider = (): RiddleProvider => {
+  const configured = (process.env.RIDDLE_PROVIDER || 'gemini') as RiddleProviderId;
+  let provider = providers[configured];
+  if (!provider) {
+    console.warn(`Unknown RIDDLE_PROVIDER "${configured}", falling back to gemini.`);
+    provider = providers.gemini;
+  }
+  if (provider.id === 'pack' || provider.id === 'server' || provider.id === 'gemini') {
+    return provider;
+  }
+  return createValidatingProvider(provider, {
+    maxAttempts: Number(process.env.RIDDLE_VALIDATION_ATTEMPTS) || 3,
+    useSolver: process.env.RIDDLE_SOLVER_CHECK !== 'false',
+  });
+};
+
+// The Gemini proxy and the calendar server check the door against their own clock and refuse closed ones with 403,
+// so asking them for a door ahead of time only fails
+export const checksDoorClock = (provider: RiddleProvider): boolean =>
+  provider.id === 'gemini' || provider.id === 'server';
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { checkAnswer } from "./answerMatching";
+import { sanitizeRiddle } from "./riddleSanitizer";
+
+const multi = (fields: Record<string, unknown>) => ({
+  question: 'Was gehört an den Weihnachtsbaum?',
+  type: 'multi',
+  options: ['Kugeln', 'Lametta', 'Socken', 'Kerzen'],
+  solutionExplanation: 'Kugeln und Lametta.',
+  hints: ['a', 'b', 'c'],
+  ...fields,
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('sanitizeRiddle for multi-select riddles', () => {
+  it('matches the correct answers onto the options', () => {
+    const riddle = sanitizeRiddle(multi({ correctAnswers: ['kugeln ', 'Lametta', 'Schnee'], correctAnswer: '' }), 3);
+    expect(riddle.type).toBe('multi');
+    expect(riddle.correctAnswers).toEqual(['Kugeln', 'Lametta']);
+    expect(riddle.correctAnswer).toBe('Kugeln, Lametta');
+  });
+
+  it('reads the correct answers from a comma-separated answer', () => {
+    const riddle = sanitizeRiddle(multi({ correctAnswer: 'Kugeln; Kerzen' }), 3);
+    expect(riddle.correctAnswers).toEqual(['Kugeln', 'Kerzen']);
+  });
+
+  it('becomes a text riddle when no option is correct', () => {
+    const riddle = sanitizeRiddle(multi({ correctAnswers: ['Schnee', 'Sterne'], correctAnswer: 'Schnee, Sterne' }), 3);
+    expect(riddle.type).toBe('text');
+    expect(riddle.options).toBeUndefined();
+    expect(riddle.correctAnswers).toBeUndefined();
+    expect(checkAnswer(riddle, 'Schnee, Sterne')).toBe('correct');
+  });
+
+  it('stays a solvable single choice when its answer is exactly one option', () => {
+    const riddle = sanitizeRiddle(multi({ correctAnswers: ['Schnee'], correctAnswer: 'lametta' }), 3);
+    expect(riddle.type).toBe('choice');
+    expect(riddle.correctAnswer).toBe('Lametta');
+    expect(riddle.options).toContain(riddle.correctAnswer);
+    expect(checkAnswer(riddle, 'Lametta')).toBe('correct');
+  });
+});
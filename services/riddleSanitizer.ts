@@ -0,0 +1,295 @@
+import { Riddle, RiddleEditableField, RiddlePair } from "../types";
+import { isDifficulty } from "./difficulty";
+import { isLanguage } from "./languages";
+import { TYPES_WITH_OPTIONS, describeCorrectAnswer, isRiddleType, parseNumber } from "./riddleTypes";
+import { findLogicGridProblems, findStoredLogicGridProblems, parseLogicGrid, sanitizeLogicGrid, withGridSolution } from "./logicGrid";
+
+// Improved JSON cleaning to handle markdown code blocks or conversational intros
+// We look for the FIRST '{' and the LAST '}' to capture the full object
+export const parseRiddleJson = (text: string): any => {
+  const firstBrace = text.indexOf('{');
+  const lastBrace = text.lastIndexOf('}');
+
+  if (firstBrace === -1 || lastBrace === -1) {
+    console.error("Invalid JSON response:", text);
+    throw new Error("Ungültiges JSON Format erhalten.");
+  }
+
+  const jsonString = text.substring(firstBrace, lastBrace + 1);
+
+  try {
+    return JSON.parse(jsonString);
+  } catch (e) {
+    console.error("JSON parsing failed", e);
+    throw new Error("JSON parsing failed");
+  }
+};
+
+export const isNonEmptyString = (val: unknown): val is string => typeof val === 'string' && val.trim().length > 0;
+
+const isStringArray = (val: unknown): val is string[] => Array.isArray(val) && val.every(v => typeof v === 'string');
+
+export const sanitizeString = (val: any): string => {
+  if (typeof val === 'string') return val;
+  if (typeof val === 'number') return String(val);
+  if (val === null || val === undefined) return '';
+  if (typeof val === 'object') {
+    // Try to extract common property names if the AI returned an object wrapper
+    return val.text || val.value || val.content || JSON.stringify(val);
+  }
+  return String(val);
+};
+
+export const createId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Brings raw backend output into the validated Riddle shape every provider must return
+export const sanitizeRiddle = (raw: any, day: number): Riddle => {
+  const data = raw && typeof raw === 'object' ? { ...raw } : {};
+
+  data.day = day;
+  data.id = isNonEmptyString(data.id) ? data.id : createId();
+  data.question = sanitizeString(data.question) || "Konnte Frage nicht laden.";
+  data.correctAnswer = sanitizeString(data.correctAnswer) || "Fehler";
+  data.solutionExplanation = sanitizeString(data.solutionExplanation) || "Keine Erklärung verfügbar.";
+
+  if (!isRiddleType(data.type)) {
+    if (data.grid && typeof data.grid === 'object') data.type = 'grid';
+    else if (Array.isArray(data.pairs) && data.pairs.length > 0) data.type = 'match';
+    else data.type = Array.isArray(data.options) && data.options.length > 0 ? 'choice' : 'text';
+  }
+
+  // Sanitize Hints
+  if (!data.hints || !Array.isArray(data.hints) || data.hints.length === 0) {
+    data.hints = ["Lies die Frage genau.", "Denk mal um die Ecke.", "Es hat mit Weihnachten zu tun."];
+  } else {
+    data.hints = data.hints.map((h: any) => sanitizeString(h));
+  }
+
+  // Sanitize Options (Critical for 'choice', 'multi' and 'order')
+  if (TYPES_WITH_OPTIONS.includes(data.type)) {
+    if (!data.options || !Array.isArray(data.options) || data.options.length === 0) {
+      console.warn(`Riddle type was ${data.type} but options were missing/invalid. Fallback to text.`);
+      data.type = 'text';
+      delete data.options;
+    } else {
+      data.options = data.options.map((o: any) => sanitizeString(o));
+    }
+  }
+
+  // Items to put in order need at least two distinct entries
+  if (data.type === 'order') {
+    data.options = data.options.filter((item: string, idx: number, all: string[]) => item.trim() && all.indexOf(item) === idx);
+    if (data.options.length < 2) {
+      console.warn("Ordering riddle had fewer than 2 items. Fallback to text.");
+      data.type = 'text';
+      delete data.options;
+    }
+  }
+
+  // Correct answers are matched onto the options. Without any left, the riddle only stays solvable as
+  // single choice if its answer is exactly one of the options ("A, B" never is); otherwise it becomes text.
+  if (data.type === 'multi') {
+    const wanted: string[] = (Array.isArray(data.correctAnswers) ? data.correctAnswers.map(sanitizeString) : data.correctAnswer.split(/[,;]/))
+      .map((answer: string) => answer.trim().toLowerCase());
+    data.correctAnswers = data.options.filter((option: string) => wanted.includes(option.trim().toLowerCase()));
+    if (data.correctAnswers.length === 0) {
+      const single = data.options.find((option: string) => option.trim().toLowerCase() === data.correctAnswer.trim().toLowerCase());
+      if (single) {
+        console.warn("Multi-select riddle had no valid correct answers. Fallback to choice.");
+        data.type = 'choice';
+        data.correctAnswer = single;
+      } else {
+        console.warn("Multi-select riddle had no valid correct answers. Fallback to text.");
+        data.type = 'text';
+        delete data.options;
+      }
+    }
+  }
+  if (data.type !== 'multi') {
+    delete data.correctAnswers;
+  }
+
+  // Pairs may come as objects or as two-element lists; incomplete and repeated ones are dropped
+  if (data.type === 'match') {
+    const pairs: RiddlePair[] = (Array.isArray(data.pairs) ? data.pairs : [])
+      .map((pair: any) => Array.isArray(pair)
+        ? { left: sanitizeString(pair[0]).trim(), right: sanitizeString(pair[1]).trim() }
+        : { left: sanitizeString(pair?.left).trim(), right: sanitizeString(pair?.right).trim() })
+      .filter((pair: RiddlePair, idx: number, all: RiddlePair[]) => pair.left && pair.right
+        && all.findIndex(other => other.left === pair.left || other.right === pair.right) === idx);
+    if (pairs.length < 2) {
+      console.warn("Matching riddle had fewer than 2 complete pairs. Fallback to text.");
+      data.type = 'text';
+      delete data.pairs;
+    } else {
+      data.pairs = pairs;
+    }
+  } else {
+    delete data.pairs;
+  }
+
+  // Logic grids keep their structure even without a unique solution, the quality checks reject those.
+  // The solver is not run here, a stored solution is only checked for its shape (see sanitizeNewRiddle).
+  if (data.type === 'grid') {
+    const grid = sanitizeLogicGrid(data.grid);
+    if (!grid) {
+      console.warn("Logic grid riddle had no usable grid. Fallback to text.");
+      data.type = 'text';
+      delete data.grid;
+    } else {
+      data.grid = grid;
+    }
+  } else {
+    delete data.grid;
+  }
+
+  // Numeric answers must parse; tolerance and unit are optional
+  const numberLanguage = isLanguage(data.language) ? data.language : undefined;
+  if (data.type === 'number' && parseNumber(data.correctAnswer, numberLanguage) === null) {
+    console.warn("Numeric riddle had no numeric answer. Fallback to text.");
+    data.type = 'text';
+  }
+  if (data.type === 'number') {
+    const tolerance = typeof data.tolerance === 'string' ? parseNumber(data.tolerance, numberLanguage) : data.tolerance;
+    if (typeof tolerance === 'number' && Number.isFinite(tolerance) && tolerance > 0) data.tolerance = tolerance;
+    else delete data.tolerance;
+    if (isNonEmptyString(data.unit)) data.unit = data.unit.trim();
+    else delete data.unit;
+  } else {
+    delete data.tolerance;
+    delete data.unit;
+  }
+
+  data.correctAnswer = describeCorrectAnswer(data);
+
+  // Sanitize Accepted Answers
+  if (Array.isArray(data.acceptedAnswers)) {
+    data.acceptedAnswers = data.acceptedAnswers.map((a: any) => sanitizeString(a));
+  } else {
+    delete data.acceptedAnswers;
+  }
+
+  if (typeof data.imageUrl !== 'string' || !data.imageUrl) {
+    delete data.imageUrl;
+  }
+
+  if (!isDifficulty(data.difficulty)) {
+    delete data.difficulty;
+  }
+
+  if (!isLanguage(data.language)) {
+    delete data.language;
+  }
+
+  if (data.isFallback !== true) {
+    delete data.isFallback;
+  }
+
+  return data as Riddle;
+};
+
+// For riddles that enter the app: generated, saved in the editor or imported from a pack. Logic grids are
+// solved here, once; stored riddles keep that solution through every later sanitizeRiddle.
+export const sanitizeNewRiddle = (raw: any, day: number): Riddle => {
+  const riddle = sanitizeRiddle(raw, day);
+  return riddle.grid ? sanitizeRiddle({ ...riddle, grid: withGridSolution(riddle.grid) }, day) : riddle;
+};
+
+// Structural checks shared by pack import and the riddle editor; returns readable problems, empty if valid.
+// Logic grids are solved to make sure they have exactly one solution, unless they come from this device's storage.
+export const findRiddleProblems = (raw: any, label: string, isStored = false): string[] => {
+  const problems: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    return [`${label}: muss ein Objekt sein.`];
+  }
+  if (!Number.isInteger(raw.day) || raw.day < 1 || raw.day > 31) {
+    problems.push(`${label}: 'day' muss eine ganze Zahl zwischen 1 und 31 sein.`);
+  }
+  if (!isNonEmptyString(raw.question)) problems.push(`${label}: 'question' fehlt.`);
+  if (!isRiddleType(raw.type)) {
+    problems.push(`${label}: 'type' muss "text", "choice", "number", "order", "multi", "match" oder "grid" sein.`);
+  }
+  if (!isNonEmptyString(raw.correctAnswer)) problems.push(`${label}: 'correctAnswer' fehlt.`);
+  if (!isNonEmptyString(raw.solutionExplanation)) problems.push(`${label}: 'solutionExplanation' fehlt.`);
+  if (!isStringArray(raw.hints) || raw.hints.length !== 3) {
+    problems.push(`${label}: 'hints' muss genau 3 Texte enthalten.`);
+  }
+  if (raw.type === 'choice') {
+    if (!isStringArray(raw.options) || raw.options.length < 2) {
+      problems.push(`${label}: 'options' braucht bei "choice" mindestens 2 Antworten.`);
+    } else if (!raw.options.includes(raw.correctAnswer)) {
+      problems.push(`${label}: 'correctAnswer' ist nicht unter den 'options'.`);
+    }
+  }
+  if (raw.type === 'number') {
+    if (isNonEmptyString(raw.correctAnswer) && parseNumber(raw.correctAnswer, isLanguage(raw.language) ? raw.language : undefined) === null) {
+      problems.push(`${label}: 'correctAnswer' muss bei "number" eine Zahl sein.`);
+    }
+    if (raw.tolerance !== undefined && !(typeof raw.tolerance === 'number' && raw.tolerance >= 0)) {
+      problems.push(`${label}: 'tolerance' muss eine Zahl ab 0 sein.`);
+    }
+    if (raw.unit !== undefined && typeof raw.unit !== 'string') {
+      problems.push(`${label}: 'unit' muss ein Text sein.`);
+    }
+  }
+  if (raw.type === 'order' && (!isStringArray(raw.options) || new Set(raw.options).size < 2)) {
+    problems.push(`${label}: 'options' braucht bei "order" mindestens 2 verschiedene Elemente.`);
+  }
+  if (raw.type === 'multi') {
+    if (!isStringArray(raw.options) || raw.options.length < 2) {
+      problems.push(`${label}: 'options' braucht bei "multi" mindestens 2 Antworten.`);
+    } else if (!isStringArray(raw.correctAnswers) || raw.correctAnswers.length === 0) {
+      problems.push(`${label}: 'correctAnswers' braucht bei "multi" mindestens eine richtige Antwort.`);
+    } else if (raw.correctAnswers.some((answer: string) => !raw.options.includes(answer))) {
+      problems.push(`${label}: Jede der 'correctAnswers' muss unter den 'options' sein.`);
+    }
+  }
+  if (raw.type === 'match') {
+    const pairs = Array.isArray(raw.pairs) ? raw.pairs : [];
+    if (pairs.length < 2 || !pairs.every((pair: any) => isNonEmptyString(pair?.left) && isNonEmptyString(pair?.right))) {
+      problems.push(`${label}: 'pairs' braucht bei "match" mindestens 2 vollständige Paare aus 'left' und 'right'.`);
+    }
+  }
+  if (raw.type === 'grid') {
+    const { grid, problems: dropped } = parseLogicGrid(raw.grid);
+    const gridProblems = isStored ? findStoredLogicGridProblems(grid ?? undefined) : findLogicGridProblems(grid ?? undefined);
+    [...dropped, ...gridProblems].forEach(problem => problems.push(`${label}: ${problem}`));
+  }
+  if (raw.acceptedAnswers !== undefined && !isStringArray(raw.acceptedAnswers)) {
+    problems.push(`${label}: 'acceptedAnswers' muss eine Liste von Texten sein.`);
+  }
+  if (raw.imageUrl !== undefined && typeof raw.imageUrl !== 'string') {
+    problems.push(`${label}: 'imageUrl' muss eine Data-URL oder ein Dateipfad sein.`);
+  }
+  if (raw.difficulty !== undefined && !isDifficulty(raw.difficulty)) {
+    problems.push(`${label}: 'difficulty' muss "easy", "medium" oder "hard" sein.`);
+  }
+  if (raw.language !== undefined && !isLanguage(raw.language)) {
+    problems.push(`${label}: 'language' muss "de", "en" oder "fr" sein.`);
+  }
+  return problems;
+};
+
+// Merges a model's {"value": ...} answer for a single field back into the riddle
+export const applyFieldRevision = (riddle: Riddle, field: RiddleEditableField, raw: any): Riddle => {
+  const value = raw && typeof raw === 'object' && 'value' in raw ? raw.value : raw;
+  const isListField = field === 'options' || field === 'acceptedAnswers' || field === 'hints';
+
+  if (isListField) {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new Error(`Das Modell hat für '${field}' keine Liste geliefert.`);
+    }
+    return sanitizeRiddle({ ...riddle, [field]: value.map(sanitizeString) }, riddle.day);
+  }
+
+  const text = sanitizeString(value);
+  if (!text) {
+    throw new Error(`Das Modell hat für '${field}' keinen Text geliefert.`);
+  }
+  return sanitizeRiddle({ ...riddle, [field]: text }, riddle.day);
+};
@@ -0,0 +1,82 @@
+import { Language, Riddle, RiddleAnswer, RiddleType } from "../types";
+import { describeGridSolution } from "./logicGrid";
+import { DEFAULT_LANGUAGE } from "./languages";
+
+// Per-type helpers for the riddle types beyond free text and multiple choice: numeric answers,
+// ordering, multi-select, pair matching and logic grids. Answer checks live in answerMatching.ts.
+
+export const RIDDLE_TYPES: RiddleType[] = ['text', 'choice', 'number', 'order', 'multi', 'match', 'grid'];
+
+// Types that keep their items in 'options'
+export const TYPES_WITH_OPTIONS: RiddleType[] = ['choice', 'multi', 'order'];
+
+export const isRiddleType = (value: unknown): value is RiddleType =>
+  typeof value === 'string' && (RIDDLE_TYPES as string[]).includes(value);
+
+// English groups thousands with a comma ("1,000"), German and French with a dot ("1.000")
+const THOUSANDS_GROUPS: Record<Language, RegExp> = {
+  de: /^-?\d{1,3}(\.\d{3})+$/,
+  en: /^-?\d{1,3}(,\d{3})+$/,
+  fr: /^-?\d{1,3}(\.\d{3})+$/,
+};
+
+// Reads the first number in a text: "3,5 kg" is 3.5, "1,250.5" is 1250.5, and "1.000" is a thousand in German
+// but "1,000" in English
+export const parseNumber = (text: string, language: Language = DEFAULT_LANGUAGE): number | null => {
+  const match = text.replace(/\s/g, '').match(/-?\d[\d.,]*/);
+  if (!match) return null;
+  let token = match[0].replace(/[.,]$/, '');
+  if (token.includes('.') && token.includes(',')) {
+    // The separator that comes last is the decimal one
+    token = token.lastIndexOf(',') > token.lastIndexOf('.')
+      ? token.replace(/\./g, '').replace(',', '.')
+      : token.replace(/,/g, '');
+  } else if (THOUSANDS_GROUPS[language].test(token)) {
+    token = token.replace(/[.,]/g, '');
+  } else {
+    token = token.replace(',', '.');
+  }
+  const value = Number(token);
+  return Number.isFinite(value) ? value : null;
+};
+
+// The solution as one readable line; 'order', 'multi', 'match' and 'grid' derive it from their structured fields
+export const describeCorrectAnswer = (riddle: Riddle): string => {
+  if (riddle.type === 'order' && riddle.options) return riddle.options.join(' → ');
+  if (riddle.type === 'multi' && riddle.correctAnswers) return riddle.correctAnswers.join(', ');
+  if (riddle.type === 'match' && riddle.pairs) return riddle.pairs.map(pair => `${pair.left} → ${pair.right}`).join(', ');
+  if (riddle.type === 'grid' && riddle.grid?.solution) return describeGridSolution(riddle.grid);
+  return riddle.correctAnswer;
+};
+
+const hashSeed = (seed: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Same order for the same seed, so reopening a door does not reshuffle it; never the solution order itself
+export const shuffleForDisplay = <T,>(items: T[], seed: string): T[] => {
+  const shuffled = [...items];
+  let state = hashSeed(seed);
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    state = Math.imul(state ^ (state >>> 15), 2246822507) >>> 0;
+    const j = state % (i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  if (shuffled.length > 1 && shuffled.every((item, idx) => item === items[idx])) {
+    shuffled.push(shuffled.shift()!);
+  }
+  return shuffled;
+};
+
+// Ordering riddles start shuffled, matching riddles and logic grids with nothing picked
+export const getInitialAnswer = (riddle: Riddle | null): RiddleAnswer => {
+  if (riddle?.type === 'order') return shuffleForDisplay(riddle.options ?? [], riddle.id ?? String(riddle.day));
+  if (riddle?.type === 'multi') return [];
+  if (riddle?.type === 'match') return (riddle.pairs ?? []).map(() => '');
+  if (riddle?.type === 'grid' && riddle.grid) return riddle.grid.entities.flatMap(() => riddle.grid!.attributes.map(() => ''));
+  return '';
+};
@@ -0,0 +1,188 @@
+import { Riddle, RiddleProvider, RiddleRequestOptions } from "../types";
+import { isCorrectAnswer, isFuzzyMatch } from "./answerMatching";
+import { DIFFICULTY_SETTINGS } from "./difficulty";
+import { logGenerationCall } from "./generationLog";
+import { findLogicGridProblems } from "./logicGrid";
+
+const REJECTION_LOG_KEY = 'advent_calendar_rejections_v1';
+const MAX_LOGGED_REJECTIONS = 50;
+
+export interface RiddleRejection {
+  day: number;
+  attempt: number;
+  reasons: string[];
+  question: string;
+  timestamp: string;
+}
+
+// Thrown when no generated riddle passed the checks within the retry budget
+export class RiddleRejectedError extends Error {
+  constructor(public readonly day: number, public readonly rejections: RiddleRejection[]) {
+    super(`Kein brauchbares Rätsel für Tag ${day} nach ${rejections.length} Versuchen: ${rejections.map(r => r.reasons.join('; ')).join(' | ')}`);
+    this.name = 'RiddleRejectedError';
+  }
+}
+
+export interface StructureCheckResult {
+  riddle: Riddle; // Possibly repaired copy
+  problems: string[]; // Unrepairable problems, empty if the riddle is usable
+  repairs: string[];
+}
+
+const normalize = (s: string) => s.trim().toLowerCase();
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// True if the answer appears as a whole word/number in the text ("12" leaks in "12 Rentiere", not in "120")
+const containsAnswer = (text: string, answer: string): boolean => {
+  const needle = normalize(answer);
+  if (!needle) return false;
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(needle)}($|[^\\p{L}\\p{N}])`, 'u').test(normalize(text));
+};
+
+// Structural checks that need no model call; fixes what can be fixed safely
+export const checkRiddleStructure = (input: Riddle): StructureCheckResult => {
+  const riddle: Riddle = { ...input, hints: [...input.hints], options: input.options ? [...input.options] : undefined };
+  const problems: string[] = [];
+  const repairs: string[] = [];
+
+  if (riddle.type === 'choice' && riddle.options) {
+    const unique = riddle.options.filter((option, idx, all) =>
+      all.findIndex(other => normalize(other) === normalize(option)) === idx
+    );
+    if (unique.length !== riddle.options.length) {
+      repairs.push('Doppelte Antwortmöglichkeiten entfernt.');
+      riddle.options = unique;
+    }
+    if (riddle.options.length < 2) {
+      problems.push('Weniger als 2 verschiedene Antwortmöglichkeiten.');
+    }
+
+    if (!riddle.options.includes(riddle.correctAnswer)) {
+      // Same answer with different casing or spacing can be mapped onto the option
+      const match = riddle.options.find(option => normalize(option) === normalize(riddle.correctAnswer));
+      if (match) {
+        repairs.push(`Antwort "${riddle.correctAnswer}" auf Option "${match}" angeglichen.`);
+        riddle.correctAnswer = match;
+      } else {
+        problems.push(`Die richtige Antwort "${riddle.correctAnswer}" ist keine der Antwortmöglichkeiten.`);
+      }
+    }
+  }
+
+  if (riddle.type === 'grid') {
+    problems.push(...findLogicGridProblems(riddle.grid));
+  }
+
+  if (riddle.hints.length > 3) {
+    repairs.push(`${riddle.hints.length} statt 3 Hinweise, auf 3 gekürzt.`);
+    riddle.hints = riddle.hints.slice(0, 3);
+  }
+  if (riddle.hints.length < 3 || riddle.hints.some(hint => !hint.trim())) {
+    problems.push('Es gibt keine 3 vollständigen Hinweise.');
+  }
+
+  if (riddle.hints[0] && containsAnswer(riddle.hints[0], riddle.correctAnswer)) {
+    problems.push('Hinweis 1 verrät die Lösung wörtlich.');
+  }
+
+  if (riddle.difficulty) {
+    if (!DIFFICULTY_SETTINGS[riddle.difficulty].allowedTypes.includes(riddle.type)) {
+      problems.push(`Rätseltyp "${riddle.type}" ist für Schwierigkeit "${riddle.difficulty}" nicht vorgesehen.`);
+    }
+  }
+
+  return { riddle, problems, repairs };
+};
+
+// The solver model must reach the same answer without seeing hints or the solution
+export const checkWithSolver = async (provider: RiddleProvider, riddle: Riddle): Promise<string[]> => {
+  // Logic grids are already proven to have exactly one solution by the grid solver
+  if (!provider.solveRiddle || riddle.type === 'grid') return [];
+
+  const solverAnswer = await provider.solveRiddle(riddle);
+  if (riddle.type === 'choice' && riddle.options) {
+    // Map the solver's wording onto the closest option before comparing
+    const chosen = riddle.options.find(option => normalize(option) === normalize(solverAnswer))
+      ?? riddle.options.find(option => isFuzzyMatch(solverAnswer, option, 'normal', riddle.language));
+    return chosen === riddle.correctAnswer
+      ? []
+      : [`Der Prüf-Löser wählte "${solverAnswer}" statt "${riddle.correctAnswer}".`];
+  }
+  // List answers come back as one line separated by " | " (see buildSolverPrompt)
+  const isList = riddle.type === 'order' || riddle.type === 'multi' || riddle.type === 'match';
+  return isCorrectAnswer(riddle, isList ? solverAnswer.split('|').map(item => item.trim()).filter(Boolean) : solverAnswer)
+    ? []
+    : [`Der Prüf-Löser kam auf "${solverAnswer}" statt "${riddle.correctAnswer}".`];
+};
+
+export const getRejectionLog = (): RiddleRejection[] => {
+  try {
+    return JSON.parse(localStorage.getItem(REJECTION_LOG_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const logRejection = (rejection: RiddleRejection) => {
+  console.warn(`Riddle for day ${rejection.day} rejected (attempt ${rejection.attempt}):`, rejection.reasons.join(' '));
+  // The CLI runs without localStorage, the console line is enough there
+  if (typeof localStorage === 'undefined') return;
+  try {
+    const log = [...getRejectionLog(), rejection].slice(-MAX_LOGGED_REJECTIONS);
+    localStorage.setItem(REJECTION_LOG_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error("Failed to persist riddle rejection", e);
+  }
+};
+
+export interface ValidationOptions {
+  maxAttempts?: number; // Total generations per day, including the first
+  useSolver?: boolean;
+}
+
+// Wraps a provider so every generated riddle passes the structural and solver checks,
+// regenerating rejected riddles until the attempt budget is spent
+export const createValidatingProvider = (provider: RiddleProvider, options: ValidationOptions = {}): RiddleProvider => {
+  const { maxAttempts = 3, useSolver = true } = options;
+
+  const generateRiddle = async (day: number, requestOptions?: RiddleRequestOptions): Promise<Riddle> => {
+    const rejections: RiddleRejection[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // A cancelled request does not start another attempt
+      requestOptions?.signal?.throwIfAborted();
+      const generated = await provider.generateRiddle(day, requestOptions);
+      const { riddle, problems, repairs } = checkRiddleStructure(generated);
+      if (repairs.length > 0) {
+        console.info(`Riddle for day ${day} repaired:`, repairs.join(' '));
+      }
+
+      let reasons = problems;
+      if (reasons.length === 0 && useSolver) {
+        try {
+          reasons = await checkWithSolver(provider, riddle);
+        } catch (e) {
+          // A failing solver call says nothing about the riddle itself
+          console.warn(`Solver check for day ${day} skipped:`, e);
+        }
+      }
+
+      if (reasons.length === 0) {
+        return riddle;
+      }
+
+      const rejection = { day, attempt, reasons, question: riddle.question, timestamp: new Date().toISOString() };
+      rejections.push(rejection);
+      logRejection(rejection);
+      logGenerationCall({
+        provider: provider.id, kind: 'validation', model: 'riddleValidator', day, attempt, latencyMs: 0,
+        ok: false, error: reasons.join(' '), rawResponse: JSON.stringify({ ...generated, imageUrl: undefined }, null, 2),
+      });
+    }
+
+    throw new RiddleRejectedError(day, rejections);
+  };
+
+  return { ...provider, generateRiddle };
+};
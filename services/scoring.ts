@@ -0,0 +1,61 @@
+import { CalendarState, Difficulty, DoorState } from "../types";
+import { DEFAULT_DIFFICULTY } from "./difficulty";
+
+export interface ScoringConfig {
+  basePoints: number; // Points for a solved door before penalties and bonus
+  hintPenalty: number; // Per hint used
+  wrongAttemptPenalty: number; // Per wrong answer before the correct one
+  timeBonus: number; // Extra points for an instant solve, shrinking linearly to 0
+  timeBonusSeconds: number; // Solve time after which there is no bonus left
+  minSolvedPoints: number; // A solved door never scores less
+  revealedPoints: number; // Door whose solution was shown instead of solved
+  difficultyMultiplier: Record<Difficulty, number>;
+}
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  basePoints: 100,
+  hintPenalty: 20,
+  wrongAttemptPenalty: 10,
+  timeBonus: 50,
+  timeBonusSeconds: 300,
+  minSolvedPoints: 10,
+  revealedPoints: 0,
+  difficultyMultiplier: { easy: 1, medium: 1.5, hard: 2 },
+};
+
+// SCORING_CONFIG in .env.local may override single values, e.g. {"hintPenalty":10,"timeBonus":0}
+export const getScoringConfig = (): ScoringConfig => {
+  const raw = process.env.SCORING_CONFIG;
+  if (!raw) return DEFAULT_SCORING;
+  try {
+    const overrides = JSON.parse(raw);
+    return {
+      ...DEFAULT_SCORING,
+      ...overrides,
+      difficultyMultiplier: { ...DEFAULT_SCORING.difficultyMultiplier, ...overrides.difficultyMultiplier },
+    };
+  } catch (e) {
+    console.error("Invalid SCORING_CONFIG, using the default scoring", e);
+    return DEFAULT_SCORING;
+  }
+};
+
+// Points for one door, or null while it is neither solved nor revealed
+export const calculateDoorScore = (door: DoorState | undefined, config: ScoringConfig = getScoringConfig()): number | null => {
+  if (!door) return null;
+  if (door.isRevealed && !door.isSolved) return config.revealedPoints;
+  if (!door.isSolved) return null;
+
+  const hints = Math.min(door.hintsUsed ?? 0, 3);
+  const wrongAttempts = Math.max((door.attempts ?? 1) - 1, 0);
+  // Doors solved before time tracking existed get no bonus rather than the full one
+  const seconds = door.timeSpentMs !== undefined ? door.timeSpentMs / 1000 : config.timeBonusSeconds;
+  const bonus = config.timeBonus * Math.max(1 - seconds / config.timeBonusSeconds, 0);
+
+  const points = config.basePoints - hints * config.hintPenalty - wrongAttempts * config.wrongAttemptPenalty + bonus;
+  const multiplier = config.difficultyMultiplier[door.riddle?.difficulty ?? DEFAULT_DIFFICULTY] ?? 1;
+  return Math.round(Math.max(points, config.minSolvedPoints) * multiplier);
+};
+
+export const getTotalScore = (calendar: CalendarState, config: ScoringConfig = getScoringConfig()): number =>
+  Object.keys(calendar).reduce((total, day) => total + (calculateDoorScore(calendar[Number(day)], config) ?? 0), 0);
@@ -0,0 +1,23 @@
+import { Riddle, RiddleProvider, RiddleRequestOptions } from "../types";
+import { sanitizeRiddle } from "./riddleSanitizer";
+import { HttpStatusError } from "./resilience";
+
+const backendUrl = process.env.BACKEND_URL?.replace(/\/$/, '');
+
+// Riddles from the calendar server, which refuses doors that are still closed by its own clock
+export const getRiddleFromServer = async (day: number, options: RiddleRequestOptions = {}): Promise<Riddle> => {
+  if (!backendUrl) {
+    throw new Error("RIDDLE_PROVIDER=server braucht BACKEND_URL.");
+  }
+  const response = await fetch(`${backendUrl}/api/riddles/${day}`, { signal: options.signal });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new HttpStatusError(response.status, data.error || `Der Server antwortet mit Status ${response.status}`);
+  }
+  return sanitizeRiddle(data, day);
+};
+
+export const serverRiddleProvider: RiddleProvider = {
+  id: 'server',
+  generateRiddle: getRiddleFromServer,
+};
@@ -0,0 +1,40 @@
+import { Riddle, RiddlePack, RiddleProvider } from "../types";
+import { getPackRiddle, parseRiddlePack } from "./riddlePack";
+
+// Relative path for GitHub Pages compatibility
+const packUrl = process.env.RIDDLE_PACK_URL || './riddles.json';
+
+let packPromise: Promise<RiddlePack> | null = null;
+
+const loadPack = (): Promise<RiddlePack> => {
+  if (!packPromise) {
+    packPromise = fetch(packUrl)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Rätselpaket konnte nicht geladen werden (Status ${response.status})`);
+        }
+        return response.json();
+      })
+      // Image file paths inside the pack are resolved relative to the pack URL
+      .then(json => parseRiddlePack(json, packUrl))
+      .catch(error => {
+        // Allow a later retry instead of caching the failure
+        packPromise = null;
+        throw error;
+      });
+  }
+  return packPromise;
+};
+
+export const getRiddleFromPack = async (day: number): Promise<Riddle> => {
+  const riddle = getPackRiddle(await loadPack(), day);
+  if (!riddle) {
+    throw new Error(`Das Rätselpaket enthält kein Rätsel für den ${day}. Dezember.`);
+  }
+  return riddle;
+};
+
+export const staticPackRiddleProvider: RiddleProvider = {
+  id: 'pack',
+  generateRiddle: getRiddleFromPack,
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { DOOR_DAYS } from "./calendarConfig";
+import { MESSAGES } from "./i18nMessages";
+import { addProfile, createEmptyStore, createProfile } from "./profiles";
+import { buildStatisticsCsv } from "./statistics";
+
+const DECEMBER_10 = new Date('2025-12-10T12:00:00+01:00');
+
+const firstCells = (name: string) => {
+  const store = addProfile(createEmptyStore(), createProfile(name, '🦌', 'child'));
+  const [, firstRow] = buildStatisticsCsv(store, DECEMBER_10, MESSAGES.de.statistics).split('\r\n');
+  return firstRow.split(';').slice(0, 2);
+};
+
+describe('buildStatisticsCsv', () => {
+  it.each(['=HYPERLINK("http://example.com")', '+1', '-1', '@SUM(A1)'])('keeps %s from running as a formula', (name) => {
+    const [cell] = firstCells(name);
+    expect(cell.replace(/^"|"$/g, '').replace(/""/g, '"')).toBe(`'${name}`);
+  });
+
+  it('writes plain names and numbers as they are', () => {
+    expect(firstCells('Anna')).toEqual(['Anna', String(DOOR_DAYS[0])]);
+  });
+});
@@ -0,0 +1,139 @@
+import { CalendarStore, DoorState, Profile } from "../types";
+import { DOOR_DAYS, getSeasonDay, isDoorDayPast, isDoorUnlocked } from "./calendarConfig";
+import { getCalendarForProfile } from "./profiles";
+import type { Messages } from "./i18nMessages";
+import { RIDDLE_CATEGORIES, getCategoryIndexForDay } from "./riddlePrompt";
+import { ScoringConfig, calculateDoorScore, getScoringConfig } from "./scoring";
+
+export type DoorStatus = 'solved' | 'revealed' | 'open' | 'missed' | 'locked';
+
+export interface CategoryStats {
+  category: number; // Index into RIDDLE_CATEGORIES, named by the UI texts
+  doors: number; // Opened doors of this category
+  hintsUsed: number;
+  revealed: number;
+}
+
+export interface ProfileStats {
+  profile: Profile;
+  score: number;
+  solved: number;
+  revealed: number;
+  open: number; // Available but not finished yet
+  missed: number; // Day has passed and the door was never opened
+  currentStreak: number;
+  longestStreak: number;
+  averageSolveMs: number | null;
+  categories: CategoryStats[];
+}
+
+export const getDoorStatus = (day: number, door: DoorState | undefined, currentDate: Date): DoorStatus => {
+  if (door?.isSolved) return 'solved';
+  if (door?.isRevealed) return 'revealed';
+  if (isDoorDayPast(day, currentDate)) return door?.isOpen ? 'open' : 'missed';
+  return isDoorUnlocked(day, currentDate) ? 'open' : 'locked';
+};
+
+export const getProfileStats = (
+  store: CalendarStore,
+  profile: Profile,
+  currentDate: Date,
+  config: ScoringConfig = getScoringConfig()
+): ProfileStats => {
+  const calendar = getCalendarForProfile(store, profile.id);
+  const stats: ProfileStats = {
+    profile, score: 0, solved: 0, revealed: 0, open: 0, missed: 0,
+    currentStreak: 0, longestStreak: 0, averageSolveMs: null, categories: [],
+  };
+  const categories: CategoryStats[] = RIDDLE_CATEGORIES.map((_, category) => ({ category, doors: 0, hintsUsed: 0, revealed: 0 }));
+  const solveTimes: number[] = [];
+  const today = getSeasonDay(currentDate);
+  let streak = 0;
+
+  DOOR_DAYS.forEach(day => {
+    const door = calendar[day];
+    const status = getDoorStatus(day, door, currentDate);
+    if (status === 'locked') return;
+    stats[status]++;
+    stats.score += calculateDoorScore(door, config) ?? 0;
+
+    // Today's unsolved door does not break the streak yet
+    if (status === 'solved') {
+      streak++;
+      stats.longestStreak = Math.max(stats.longestStreak, streak);
+    } else if (!(status === 'open' && day === today)) {
+      streak = 0;
+    }
+
+    if (status === 'solved' && door?.timeSpentMs !== undefined) {
+      solveTimes.push(door.timeSpentMs);
+    }
+    if (door?.isOpen) {
+      const category = categories[getCategoryIndexForDay(day)];
+      category.doors++;
+      category.hintsUsed += Math.min(door.hintsUsed ?? 0, 3);
+      if (door.isRevealed) category.revealed++;
+    }
+  });
+
+  stats.currentStreak = streak;
+  stats.averageSolveMs = solveTimes.length > 0
+    ? solveTimes.reduce((sum, ms) => sum + ms, 0) / solveTimes.length
+    : null;
+  stats.categories = categories;
+  return stats;
+};
+
+// All profiles, best first: score, then solved doors
+export const getLeaderboard = (store: CalendarStore, currentDate: Date): ProfileStats[] => {
+  const config = getScoringConfig();
+  return store.profiles
+    .map(profile => getProfileStats(store, profile, currentDate, config))
+    .sort((a, b) => b.score - a.score || b.solved - a.solved);
+};
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds} s` : `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+};
+
+// Text starting like a formula (=, +, -, @, or a tab or carriage return before one) would be run by the
+// spreadsheet app, so it gets a leading apostrophe; numbers are written as they are
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per profile and door in the UI language; semicolons so German spreadsheet apps split the columns
+export const buildStatisticsCsv = (store: CalendarStore, currentDate: Date, text: Messages['statistics']): string => {
+  const config = getScoringConfig();
+  const rows: (string | number)[][] = [text.csvHeaders];
+  store.profiles.forEach(profile => {
+    const calendar = getCalendarForProfile(store, profile.id);
+    DOOR_DAYS.forEach(day => {
+      const door = calendar[day];
+      rows.push([
+        profile.name,
+        day,
+        text.categories[getCategoryIndexForDay(day)],
+        text.doorStatus[getDoorStatus(day, door, currentDate)],
+        door?.hintsUsed ?? 0,
+        door?.attempts ?? 0,
+        door?.timeSpentMs !== undefined ? Math.round(door.timeSpentMs / 1000) : '',
+        calculateDoorScore(door, config) ?? '',
+      ]);
+    });
+  });
+  return rows.map(row => row.map(csvCell).join(';')).join('\r\n');
+};
+
+export const downloadStatisticsCsv = (store: CalendarStore, currentDate: Date, text: Messages['statistics']) => {
+  // The BOM makes Excel read the umlauts as UTF-8
+  const blob = new Blob(['\uFEFF' + buildStatisticsCsv(store, currentDate, text)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = text.csvFileName(currentDate.getFullYear());
+  link.click();
+  URL.revokeObjectURL(url);
+};
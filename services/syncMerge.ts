@@ -0,0 +1,108 @@
+import { CalendarState, CalendarStore, DoorState, Profile, RiddleSlot } from "../types";
+
+// Merges two versions of the same family calendar, used by the sync server and by every device.
+// Progress only moves forward, so solved/opened flags are OR-ed and counters take the maximum;
+// that way a door solved on any device stays solved and scores stay stable. Settings and profile
+// fields use the newer timestamp. For riddles an editor save wins, otherwise `base` (the version
+// the server already had) wins, so every device ends up with the first riddle generated for a door.
+// A bundled replacement riddle (isFallback) always gives way to a real one.
+
+const later = (a?: string, b?: string): boolean => Boolean(a) && (!b || a! > b);
+
+const maxDefined = (a?: number, b?: number) =>
+  a === undefined ? b : b === undefined ? a : Math.max(a, b);
+
+const earliest = (a?: string, b?: string) => (!a ? b : !b ? a : a < b ? a : b);
+
+const mergeRiddleSlot = (base: RiddleSlot | undefined, incoming: RiddleSlot | undefined): RiddleSlot | undefined => {
+  if (!base?.riddle) return incoming ?? base;
+  if (!incoming?.riddle) return base;
+  // A bundled replacement only stands in until a real riddle arrives, even if it was saved later
+  if (Boolean(base.riddle.isFallback) !== Boolean(incoming.riddle.isFallback)) {
+    return base.riddle.isFallback ? incoming : base;
+  }
+  if (later(incoming.editedAt, base.editedAt)) return incoming;
+  return base;
+};
+
+const mergeDoor = (base: DoorState | undefined, incoming: DoorState | undefined): DoorState | undefined => {
+  if (!base) return incoming;
+  if (!incoming) return base;
+
+  const slot = mergeRiddleSlot(
+    { riddle: base.riddle, isLocked: base.isLocked, editedAt: base.riddleEditedAt },
+    { riddle: incoming.riddle, isLocked: incoming.isLocked, editedAt: incoming.riddleEditedAt }
+  );
+  const door: DoorState = {
+    isOpen: base.isOpen || incoming.isOpen,
+    isSolved: base.isSolved || incoming.isSolved,
+    hintsUsed: maxDefined(base.hintsUsed, incoming.hintsUsed),
+    attempts: maxDefined(base.attempts, incoming.attempts),
+    isRevealed: base.isRevealed || incoming.isRevealed || undefined,
+    timeSpentMs: maxDefined(base.timeSpentMs, incoming.timeSpentMs),
+    solvedAt: earliest(base.solvedAt, incoming.solvedAt),
+    riddle: slot?.riddle,
+    isLocked: slot?.isLocked,
+    riddleEditedAt: slot?.editedAt,
+  };
+  // Drop undefined keys so merged stores compare equal to stored ones
+  Object.keys(door).forEach(key => {
+    if (door[key as keyof DoorState] === undefined) delete door[key as keyof DoorState];
+  });
+  return door;
+};
+
+const mergeCalendar = (base: CalendarState = {}, incoming: CalendarState = {}): CalendarState => {
+  const calendar: CalendarState = {};
+  new Set([...Object.keys(base), ...Object.keys(incoming)].map(Number)).forEach(day => {
+    const door = mergeDoor(base[day], incoming[day]);
+    if (door) calendar[day] = door;
+  });
+  return calendar;
+};
+
+const mergeProfile = (base: Profile, incoming: Profile): Profile => {
+  const newer = later(incoming.updatedAt, base.updatedAt) ? incoming : base;
+  return { ...newer, resetAt: later(incoming.resetAt, base.resetAt) ? incoming.resetAt : base.resetAt };
+};
+
+export const mergeStores = (base: CalendarStore, incoming: CalendarStore): CalendarStore => {
+  const removed = new Set([...(base.removedProfileIds || []), ...(incoming.removedProfileIds || [])]);
+
+  const profiles: Profile[] = [];
+  const doors: Record<string, CalendarState> = {};
+  [...base.profiles, ...incoming.profiles].forEach(profile => {
+    if (removed.has(profile.id) || profiles.some(p => p.id === profile.id)) return;
+    const fromBase = base.profiles.find(p => p.id === profile.id);
+    const fromIncoming = incoming.profiles.find(p => p.id === profile.id);
+    const merged = fromBase && fromIncoming ? mergeProfile(fromBase, fromIncoming) : profile;
+    profiles.push(merged);
+
+    // After a reset only the side that saw the reset keeps its progress
+    const baseDoors = base.doors[profile.id];
+    const incomingDoors = incoming.doors[profile.id];
+    if (fromBase && fromIncoming && fromBase.resetAt !== fromIncoming.resetAt) {
+      doors[profile.id] = (later(fromIncoming.resetAt, fromBase.resetAt) ? incomingDoors : baseDoors) || {};
+    } else {
+      doors[profile.id] = mergeCalendar(baseDoors, incomingDoors);
+    }
+  });
+
+  const sharedRiddles: Record<number, RiddleSlot> = {};
+  new Set([...Object.keys(base.sharedRiddles), ...Object.keys(incoming.sharedRiddles)].map(Number)).forEach(day => {
+    const slot = mergeRiddleSlot(base.sharedRiddles[day], incoming.sharedRiddles[day]);
+    if (slot) sharedRiddles[day] = slot;
+  });
+
+  const settings = later(incoming.settingsUpdatedAt, base.settingsUpdatedAt) ? incoming : base;
+  const merged: CalendarStore = {
+    profiles,
+    shareRiddles: settings.shareRiddles,
+    difficulty: settings.difficulty,
+    sharedRiddles,
+    doors,
+  };
+  if (settings.settingsUpdatedAt) merged.settingsUpdatedAt = settings.settingsUpdatedAt;
+  if (removed.size > 0) merged.removedProfileIds = Array.from(removed).sort();
+  return merged;
+};
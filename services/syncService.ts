@@ -0,0 +1,140 @@
+import { CalendarState, CalendarStore, Riddle, RiddleSlot } from "../types";
+import { stripStoreImages, validateStore } from "./calendarStorage";
+import { sanitizeRiddle } from "./riddleSanitizer";
+
+// Optional multi-device sync through the calendar server (BACKEND_URL).
+// Devices pair with a family code; every device keeps working offline and pushes its whole
+// calendar, the server merges it (see syncMerge.ts) and answers with the merged result.
+
+const backendUrl = process.env.BACKEND_URL?.replace(/\/$/, '');
+const SYNC_SETTINGS_KEY = 'advent_calendar_sync_v1';
+
+export type SyncStatus = 'off' | 'syncing' | 'synced' | 'offline' | 'error';
+
+export interface SyncSettings {
+  familyCode: string;
+  lastSyncedAt?: string;
+}
+
+// Network failures mean "try again later", everything else is a real problem
+export class SyncOfflineError extends Error {
+  constructor(cause: unknown) {
+    super(`Sync-Server nicht erreichbar: ${String(cause)}`);
+    this.name = 'SyncOfflineError';
+  }
+}
+
+export const isSyncAvailable = () => Boolean(backendUrl);
+
+export const loadSyncSettings = (): SyncSettings | null => {
+  try {
+    const stored = localStorage.getItem(SYNC_SETTINGS_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.error("Failed to parse sync settings", e);
+    return null;
+  }
+};
+
+export const saveSyncSettings = (settings: SyncSettings | null) => {
+  if (settings) {
+    localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(SYNC_SETTINGS_KEY);
+  }
+};
+
+const request = async (path: string, init?: RequestInit, allowMissing = false): Promise<any> => {
+  if (!backendUrl) throw new Error("Für die Synchronisation muss BACKEND_URL gesetzt sein.");
+  let response: Response;
+  try {
+    response = await fetch(`${backendUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (e) {
+    throw new SyncOfflineError(e);
+  }
+  const data = await response.json().catch(() => ({}));
+  // 403: the server's clock says the door is still closed (e.g. a simulated date), so there is nothing to share yet
+  if ((response.status === 404 || response.status === 403) && allowMissing) return null;
+  if (!response.ok) {
+    throw new Error(data.error || `Sync-Server antwortet mit Status ${response.status}`);
+  }
+  return data;
+};
+
+// What a device sends: no images, they are shared on their own, and no bundled replacement riddles (isFallback).
+// A replacement is only this device's stand-in after a failed generation and must not become the family's riddle.
+const toSyncStore = (store: CalendarStore): CalendarStore => {
+  const stripped = stripStoreImages(store);
+  const sharedRiddles: Record<number, RiddleSlot> = {};
+  Object.entries(stripped.sharedRiddles).forEach(([day, slot]) => {
+    if (!slot.riddle?.isFallback) sharedRiddles[Number(day)] = slot;
+  });
+  const doors: Record<string, CalendarState> = {};
+  Object.entries(stripped.doors).forEach(([profileId, calendar]) => {
+    doors[profileId] = {};
+    Object.entries(calendar).forEach(([day, door]) => {
+      const { riddle, isLocked, riddleEditedAt, ...progress } = door;
+      doors[profileId][Number(day)] = riddle?.isFallback ? progress : door;
+    });
+  });
+  return { ...stripped, sharedRiddles, doors };
+};
+
+// Normalized form for "did anything change": key order and defaults differ between local edits and server answers
+export const getSyncFingerprint = (store: CalendarStore): string =>
+  JSON.stringify(validateStore(toSyncStore(store)).store);
+
+// The server's copy is validated like local data before it can replace anything
+const toStore = (data: any): CalendarStore => validateStore(data.store).store;
+
+export const createFamily = async (store: CalendarStore): Promise<{ code: string; store: CalendarStore }> => {
+  const data = await request('/api/families', { method: 'POST', body: JSON.stringify({ store: toSyncStore(store) }) });
+  return { code: data.code, store: toStore(data) };
+};
+
+export const fetchFamilyCalendar = async (code: string): Promise<{ code: string; store: CalendarStore }> => {
+  const data = await request(`/api/families/${encodeURIComponent(code)}/calendar`);
+  return { code: data.code, store: toStore(data) };
+};
+
+export const pushFamilyCalendar = async (code: string, store: CalendarStore): Promise<CalendarStore> => {
+  const data = await request(`/api/families/${encodeURIComponent(code)}/calendar`, {
+    method: 'PUT',
+    body: JSON.stringify({ store: toSyncStore(store) }),
+  });
+  return toStore(data);
+};
+
+// Shared family riddles: the first device to generate a door's riddle stores it on the server,
+// every other device gets exactly that riddle and its image. Solving progress stays per profile.
+
+const familyPath = (code: string) => `/api/families/${encodeURIComponent(code)}`;
+
+export const fetchFamilyRiddle = async (code: string, day: number): Promise<Riddle | null> => {
+  const data = await request(`${familyPath(code)}/riddles/${day}`, undefined, true);
+  return data ? sanitizeRiddle(data, day) : null;
+};
+
+// Returns the riddle the family ends up with, which is someone else's if they were faster
+export const claimFamilyRiddle = async (code: string, riddle: Riddle): Promise<Riddle> => {
+  const data = await request(`${familyPath(code)}/riddles/${riddle.day}`, {
+    method: 'PUT',
+    body: JSON.stringify({ riddle }),
+  });
+  return sanitizeRiddle(data, riddle.day);
+};
+
+export const fetchFamilyImage = async (code: string, riddleId: string): Promise<string | undefined> => {
+  const data = await request(`${familyPath(code)}/images/${encodeURIComponent(riddleId)}`, undefined, true);
+  return data?.imageUrl;
+};
+
+export const uploadFamilyImage = async (code: string, riddleId: string, imageUrl: string): Promise<void> => {
+  await request(`${familyPath(code)}/images/${encodeURIComponent(riddleId)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ imageUrl }),
+  });
+};
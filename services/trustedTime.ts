@@ -0,0 +1,61 @@
+// Time the door unlocking can trust instead of the device clock.
+// With BACKEND_URL the calendar server answers /api/time; without it the Date header of the
+// host serving the app stands in. Between syncs the time runs on performance.now(), which
+// ignores changes to the device clock.
+
+const backendUrl = process.env.BACKEND_URL?.replace(/\/$/, '');
+const LAST_TRUSTED_KEY = 'advent_calendar_trusted_time_v1';
+
+export type TimeSource = 'server' | 'host' | 'device';
+
+export interface TrustedTimeState {
+  source: TimeSource;
+  syncedAt?: string; // ISO time of the last successful sync, by the trusted clock
+}
+
+let anchor: { serverMs: number; perfMs: number } | null = null;
+let state: TrustedTimeState = { source: 'device' };
+
+const fetchServerTime = async (): Promise<number> => {
+  if (backendUrl) {
+    const response = await fetch(`${backendUrl}/api/time`, { cache: 'no-store' });
+    if (!response.ok) throw new Error(`Zeitserver antwortet mit Status ${response.status}`);
+    const data = await response.json();
+    const ms = Date.parse(data.now);
+    if (Number.isNaN(ms)) throw new Error("Zeitserver lieferte keine gültige Zeit.");
+    return ms;
+  }
+  // Local stand-in: the host's Date header only has second precision, which is plenty for doors
+  const response = await fetch(window.location.href, { method: 'HEAD', cache: 'no-store' });
+  const header = response.headers.get('Date');
+  const ms = header ? Date.parse(header) : NaN;
+  if (Number.isNaN(ms)) throw new Error("Der Server liefert keinen Date-Header.");
+  return ms;
+};
+
+export const syncTrustedTime = async (): Promise<TrustedTimeState> => {
+  try {
+    const sentAt = performance.now();
+    const serverMs = await fetchServerTime();
+    const receivedAt = performance.now();
+    // Assume the answer was created halfway through the round trip
+    anchor = { serverMs, perfMs: (sentAt + receivedAt) / 2 };
+    state = { source: backendUrl ? 'server' : 'host', syncedAt: new Date(serverMs).toISOString() };
+    localStorage.setItem(LAST_TRUSTED_KEY, String(serverMs));
+  } catch (e) {
+    console.warn("Trusted time unavailable, falling back to the device clock:", e);
+    if (!anchor) state = { source: 'device' };
+  }
+  return state;
+};
+
+export const getTrustedTimeState = (): TrustedTimeState => state;
+
+// Without any sync so far, the device clock is used but never earlier than the last trusted time seen
+export const getTrustedNow = (): Date => {
+  if (anchor) {
+    return new Date(anchor.serverMs + performance.now() - anchor.perfMs);
+  }
+  const lastTrusted = Number(localStorage.getItem(LAST_TRUSTED_KEY)) || 0;
+  return new Date(Math.max(Date.now(), lastTrusted));
+};
@@ -1,21 +1,156 @@
-export type RiddleType = 'text' | 'choice';
+export type RiddleType = 'text' | 'choice' | 'number' | 'order' | 'multi' | 'match' | 'grid';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type Language = 'de' | 'en' | 'fr';
+
+export interface RiddlePair {
+  left: string;
+  right: string;
+}
+
+// A column group of a logic grid, e.g. "Geschenk" with one value per entity
+export interface LogicGridAttribute {
+  name: string;
+  values: string[];
+  ordered?: boolean; // The values form a sequence (seats, days), so 'before' and 'nextTo' clues can use it
+}
+
+// 'same'/'different': a and b belong to the same/another entity; 'before'/'nextTo': compares
+// the positions of a's and b's entities in the ordered attribute
+export type LogicClueKind = 'same' | 'different' | 'before' | 'nextTo';
+
+export interface LogicClue {
+  text: string; // As shown to the player
+  kind: LogicClueKind;
+  a: string; // An entity or an attribute value
+  b: string;
+  attribute?: string; // 'before' and 'nextTo': name of the ordered attribute
+}
+
+// Structured deduction riddle: every entity gets exactly one value of each attribute (services/logicGrid.ts)
+export interface LogicGrid {
+  entityLabel: string; // e.g. "Kind"
+  entities: string[];
+  attributes: LogicGridAttribute[];
+  clues: LogicClue[];
+  solution?: string[][]; // Per entity its value of each attribute, set only if the clues allow exactly one
+}
+
+// What a player enters: text for 'text', 'choice' and 'number'; a list for the others ('order': the items
+// in the chosen order, 'multi': the selected options, 'match': the right side picked for each pair,
+// 'grid': each entity's value of every attribute, entity by entity)
+export type RiddleAnswer = string | string[];
 
 export interface Riddle {
+  id?: string; // Unique per generated riddle, keys its image in the image store
   day: number;
   question: string;
   type: RiddleType;
-  options?: string[]; // Only if type is 'choice'
-  correctAnswer: string; // The canonical correct answer
+  options?: string[]; // 'choice' and 'multi': the offered answers; 'order': the items in the correct order, shown shuffled
+  correctAnswer: string; // The canonical correct answer; for 'order', 'multi', 'match' and 'grid' a readable summary of the solution
   acceptedAnswers?: string[]; // Additional valid answers for text input
+  correctAnswers?: string[]; // 'multi': every option that has to be selected
+  tolerance?: number; // 'number': accepted deviation from the answer, default 0
+  unit?: string; // 'number': shown next to the input, e.g. "Kekse"
+  pairs?: RiddlePair[]; // 'match': left items with their partners, the right sides are shown shuffled
+  grid?: LogicGrid; // 'grid': the puzzle, solved in an interactive grid
   solutionExplanation: string; // Explains the solution
   hints: string[]; // Array of 3 progressive hints
-  imageUrl?: string; // Base64 encoded image string
+  imageUrl?: string; // Base64 encoded image string, kept in IndexedDB (services/imageStore.ts)
+  difficulty?: Difficulty; // Level it was generated for, shown on the door
+  language?: Language; // Language it was written in, unset for riddles from before there was a choice (German)
+  isFallback?: boolean; // Bundled replacement, shown because generation failed (services/riddleFallback.ts)
 }
 
 export interface DoorState {
   isOpen: boolean;
   isSolved: boolean;
+  hintsUsed?: number; // Hint button clicks, 4 means the solution was shown
+  attempts?: number; // Checked answers, including the correct one
+  isRevealed?: boolean; // The solution was shown via the fourth hint click
+  timeSpentMs?: number; // Time the riddle was on screen until it was solved or revealed
+  solvedAt?: string; // ISO timestamp of the correct answer
+  riddle?: Riddle;
+  isLocked?: boolean; // Set in the editor: the riddle is never regenerated or replaced
+  riddleEditedAt?: string; // ISO time of the last editor save, edited riddles win when devices sync
+}
+
+// One player's view of the calendar: their progress merged with the riddles they see
+export type CalendarState = Record<number, DoorState>;
+
+export type AgeGroup = 'child' | 'teen' | 'adult';
+
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string; // Emoji
+  ageGroup: AgeGroup;
+  difficulty: Difficulty; // Used for this profile's own riddles (when riddles are not shared)
+  notificationTime?: string; // "HH:MM" in the calendar time zone for the daily door reminder, unset = no reminder
+  updatedAt?: string; // ISO time of the last change to the fields above, for sync
+  resetAt?: string; // ISO time of the last progress reset, older progress from other devices is dropped
+}
+
+// Riddle of a door, independent of who opens it
+export interface RiddleSlot {
   riddle?: Riddle;
+  isLocked?: boolean;
+  editedAt?: string; // See DoorState.riddleEditedAt
 }
 
-export type CalendarState = Record<number, DoorState>;
\ No newline at end of file
+// Everything persisted for the device: all profiles with their progress.
+// With shareRiddles, every profile gets the same riddle per day from sharedRiddles;
+// otherwise each profile keeps its own riddles inside its doors.
+export interface CalendarStore {
+  profiles: Profile[];
+  shareRiddles: boolean;
+  difficulty: Difficulty; // Used for the shared riddles
+  sharedRiddles: Record<number, RiddleSlot>;
+  doors: Record<string, CalendarState>; // Keyed by profile id
+  settingsUpdatedAt?: string; // ISO time of the last change to shareRiddles or difficulty, for sync
+  removedProfileIds?: string[]; // Deleted profiles, so a sync does not bring them back
+}
+
+export type RiddleProviderId = 'gemini' | 'local' | 'pack' | 'server';
+
+// Riddle fields the editor can have rewritten by a model
+export type RiddleEditableField = 'question' | 'options' | 'correctAnswer' | 'acceptedAnswers' | 'hints' | 'solutionExplanation';
+
+export interface RiddleRequestOptions {
+  difficulty?: Difficulty; // Defaults to 'medium'
+  language?: Language; // Language of the riddle text, defaults to German
+  variant?: string; // Caching backends serve one riddle per day, difficulty and variant; a new variant asks for a new riddle
+  signal?: AbortSignal; // Aborted when the app gives up waiting (see services/riddleFallback.ts)
+}
+
+// A backend that delivers the riddle for a given door.
+// Every implementation must return a sanitized Riddle (see services/riddleSanitizer.ts).
+export interface RiddleProvider {
+  id: RiddleProviderId;
+  generateRiddle: (day: number, options?: RiddleRequestOptions) => Promise<Riddle>;
+  // Only available for AI backends
+  reviseField?: (riddle: Riddle, field: RiddleEditableField) => Promise<Riddle>;
+  // Independently answers a riddle, used to verify generated solutions
+  solveRiddle?: (riddle: Riddle) => Promise<string>;
+  // Decides whether a near-miss free-text answer means the same as the solution (see answerMatching.ts)
+  judgeAnswer?: (riddle: Riddle, answer: string) => Promise<boolean>;
+  // Paints a new picture for an existing riddle, resolves undefined if no image came back
+  generateImage?: (riddle: Riddle) => Promise<string | undefined>;
+}
+
+export interface RiddlePackMeta {
+  title: string;
+  author?: string;
+  language: string; // BCP 47 code, e.g. "de"
+  description?: string;
+  createdAt?: string; // ISO timestamp
+}
+
+// Versioned file format for prepared calendars, documented in docs/riddle-pack.md
+export interface RiddlePack {
+  format: 'adventskalender-riddle-pack';
+  version: 1;
+  meta: RiddlePackMeta;
+  riddles: Riddle[];
+}
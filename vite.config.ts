@@ -1,18 +1,62 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// Emits sw.js from serviceWorker.js with the built files as its precache list.
+// Only woff2 fonts are precached, every browser that supports service workers reads them.
+const serviceWorker = (): Plugin => ({
+  name: 'advent-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle)
+      .filter(fileName => !fileName.endsWith('.map') && !fileName.endsWith('.woff'))
+      .sort();
+    const hash = createHash('sha256');
+    files.forEach(fileName => {
+      const file = bundle[fileName];
+      hash.update(fileName).update(file.type === 'chunk' ? file.code : file.source);
+    });
+    const source = fs.readFileSync(path.resolve(__dirname, 'serviceWorker.js'), 'utf-8')
+      .replace('__SW_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+      .replace('__SW_PRECACHE_URLS__', JSON.stringify(['./', ...files.map(fileName => `./${fileName}`)]));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.RIDDLE_PROVIDER': JSON.stringify(env.RIDDLE_PROVIDER),
+        'process.env.LOCAL_LLM_BASE_URL': JSON.stringify(env.LOCAL_LLM_BASE_URL),
+        'process.env.LOCAL_LLM_MODEL': JSON.stringify(env.LOCAL_LLM_MODEL),
+        'process.env.LOCAL_LLM_API_KEY': JSON.stringify(env.LOCAL_LLM_API_KEY),
+        'process.env.LOCAL_LLM_TIMEOUT_MS': JSON.stringify(env.LOCAL_LLM_TIMEOUT_MS),
+        'process.env.LOCAL_LLM_RETRIES': JSON.stringify(env.LOCAL_LLM_RETRIES),
+        'process.env.LOCAL_LLM_FALLBACK_MODEL': JSON.stringify(env.LOCAL_LLM_FALLBACK_MODEL),
+        'process.env.RIDDLE_PACK_URL': JSON.stringify(env.RIDDLE_PACK_URL),
+        'process.env.RIDDLE_VALIDATION_ATTEMPTS': JSON.stringify(env.RIDDLE_VALIDATION_ATTEMPTS),
+        'process.env.RIDDLE_SOLVER_CHECK': JSON.stringify(env.RIDDLE_SOLVER_CHECK),
+        'process.env.ANSWER_JUDGE': JSON.stringify(env.ANSWER_JUDGE),
+        'process.env.RIDDLE_TIMEOUT_MS': JSON.stringify(env.RIDDLE_TIMEOUT_MS),
+        'process.env.RIDDLE_RETRIES': JSON.stringify(env.RIDDLE_RETRIES),
+        'process.env.RIDDLE_OFFLINE_FALLBACK': JSON.stringify(env.RIDDLE_OFFLINE_FALLBACK),
+        'process.env.SCORING_CONFIG': JSON.stringify(env.SCORING_CONFIG),
+        'process.env.CALENDAR_START_DAY': JSON.stringify(env.CALENDAR_START_DAY),
+        'process.env.CALENDAR_END_DAY': JSON.stringify(env.CALENDAR_END_DAY),
+        'process.env.CALENDAR_BONUS_DAYS': JSON.stringify(env.CALENDAR_BONUS_DAYS),
+        'process.env.CALENDAR_TIMEZONE': JSON.stringify(env.CALENDAR_TIMEZONE),
+        'process.env.CALENDAR_CATCH_UP_DAYS': JSON.stringify(env.CALENDAR_CATCH_UP_DAYS),
+        'process.env.CALENDAR_OPEN_ALL': JSON.stringify(env.CALENDAR_OPEN_ALL),
+        'process.env.BACKEND_URL': JSON.stringify(env.BACKEND_URL),
+        'process.env.SERVICE_WORKER': JSON.stringify(command === 'build')
       },
       resolve: {
         alias: {